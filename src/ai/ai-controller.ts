@@ -20,6 +20,7 @@ import {
   canDouble,
   getEquippedWeapon,
 } from '../combat/combat-calcs';
+import { effectiveHit, effectiveDamage, type RngMode } from '../combat/combat-solver';
 import { evaluateCondition } from '../events/event-manager';
 import type { ConditionContext } from '../events/event-manager';
 
@@ -218,6 +219,15 @@ export class AIController {
     }
 
     if (action === 'Move_to' || action === 'move_to') {
+      // Terrain and Event targets are tiles, not units
+      if (behaviour.target === 'Terrain' || behaviour.target === 'Event') {
+        const targetPositions = this.filterPositionsByViewRange(
+          unit, this.getTargetPositions(unit, behaviour), behaviour.view_range,
+        );
+        if (targetPositions.length === 0) return null;
+        return this.moveTowardPosition(unit, validMoves, targetPositions);
+      }
+
       const targets = this.getMoveTargets(unit, behaviour);
       if (targets.length === 0) return null;
 
@@ -371,9 +381,16 @@ export class AIController {
     }
 
     if (behaviour.target === 'Terrain') {
-      // Find all tiles of matching terrain type
-      // TODO: implement terrain position lookup
-      return [];
+      // Find all tiles of matching terrain type (target_spec is a terrain NID)
+      const terrainNid = typeof behaviour.target_spec === 'string' ? behaviour.target_spec : '';
+      if (!terrainNid) return [];
+      const positions: [number, number][] = [];
+      for (let y = 0; y < this.board.height; y++) {
+        for (let x = 0; x < this.board.width; x++) {
+          if (this.board.getTerrain(x, y) === terrainNid) positions.push([x, y]);
+        }
+      }
+      return positions;
     }
 
     if (behaviour.target === 'Position') {
@@ -431,12 +448,10 @@ export class AIController {
           matches = u.team === specValue;
           break;
         case 'Faction':
-          // Faction is stored on generic units; check via prefab data
-          // For simplicity, compare team or a faction field if available
-          matches = false; // TODO: implement faction matching
+          matches = u.faction === specValue;
           break;
         case 'Party':
-          matches = false; // TODO: implement party matching
+          matches = u.party === specValue;
           break;
         case 'All':
           matches = true;
@@ -476,33 +491,78 @@ export class AIController {
     const unitPos = unit.position;
     if (!unitPos) return [];
 
+    const limit = this.viewRangeLimit(unit, viewRange);
+    return targets.filter(t => {
+      if (!t.position) return false;
+      return this.distance(unitPos, t.position) <= limit;
+    });
+  }
+
+  /** Same as filterByViewRange, for tile targets (Terrain, Event). */
+  private filterPositionsByViewRange(
+    unit: UnitObject,
+    positions: [number, number][],
+    viewRange: number,
+  ): [number, number][] {
+    if (viewRange === -4) return positions;
+    if (viewRange === 0) return [];
+
+    const unitPos = unit.position;
+    if (!unitPos) return [];
+
+    const limit = this.viewRangeLimit(unit, viewRange);
+    return positions.filter(pos => this.distance(unitPos, pos) <= limit);
+  }
+
+  /** Tile distance a view range covers (for the modes other than -4 and 0). */
+  private viewRangeLimit(unit: UnitObject, viewRange: number): number {
     const maxItemRange = this.getMaxItemRange(unit);
     const mov = unit.getStatValue('MOV');
 
-    let limit: number;
-
     switch (viewRange) {
       case -1:
         // Guard: only targets within weapon range from current position
-        limit = maxItemRange;
-        break;
+        return maxItemRange;
       case -2:
         // Single move range
-        limit = maxItemRange + mov;
-        break;
+        return maxItemRange + mov;
       case -3:
         // Double move range
-        limit = maxItemRange + mov * 2;
-        break;
+        return maxItemRange + mov * 2;
       default:
         // Positive: literal tile range
-        limit = viewRange > 0 ? viewRange : 99;
-        break;
+        return viewRange > 0 ? viewRange : 99;
     }
+  }
 
-    return targets.filter(t => {
-      if (!t.position) return false;
-      return this.distance(unitPos, t.position) <= limit;
+  /**
+   * Every tile the unit could attack this turn: the tiles it can reach
+   * plus each weapon's range from any of them. Feeds the danger zone.
+   */
+  getThreatenedPositions(unit: UnitObject): [number, number][] {
+    const validMoves = this.pathSystem.getValidMoves(unit, this.board);
+    const threatened = new Set<string>(validMoves.map(([x, y]) => `${x},${y}`));
+
+    for (const item of unit.items) {
+      if (!item.isWeapon()) continue;
+      const minRange = item.getMinRange();
+      const maxRange = item.getMaxRange();
+      for (const [mx, my] of validMoves) {
+        for (let dx = -maxRange; dx <= maxRange; dx++) {
+          for (let dy = -maxRange; dy <= maxRange; dy++) {
+            const dist = Math.abs(dx) + Math.abs(dy);
+            if (dist < minRange || dist > maxRange) continue;
+            if (this.board.inBounds(mx + dx, my + dy)) {
+              threatened.add(`${mx + dx},${my + dy}`);
+            }
+          }
+        }
+      }
+    }
+
+    return Array.from(threatened).map((key) => {
+      const [x, y] = key.split(',').map(Number);
+      return [x, y] as [number, number];
     });
   }
 
@@ -998,14 +1058,20 @@ export class AIController {
     attackPosition: [number, number],
     offenseBias: number,
   ): number {
+    // Predict with the session's RNG mode (grandmaster always hits but
+    // scales damage by hit chance)
+    const rngMode: RngMode = this.gameRef?.getRngMode?.() ?? 'true_hit';
+
     // --- Offense ---
-    const expectedDamage = computeDamage(unit, item, target, this.db, this.board);
+    const hitChance = computeHit(unit, item, target, this.db, this.board);
+    const accuracy = effectiveHit(hitChance, rngMode) / 100;
+
+    const expectedDamage = effectiveDamage(
+      computeDamage(unit, item, target, this.db, this.board), hitChance, rngMode,
+    );
     const targetHP = Math.max(1, target.currentHp);
     const lethality = Math.min(1.0, expectedDamage / targetHP);
 
-    const hitChance = computeHit(unit, item, target, this.db, this.board);
-    const accuracy = hitChance / 100;
-
     const defenderWeapon = getEquippedWeapon(target);
     const doubles = canDouble(unit, item, target, defenderWeapon, this.db);
     const numAttacks = 1 + (doubles ? 1 : 0);
@@ -1030,8 +1096,11 @@ export class AIController {
     let defense: number;
 
     if (counterWeapon) {
-      const targetDamage = computeDamage(target, counterWeapon, unit, this.db, this.board);
-      const targetAccuracy = computeHit(target, counterWeapon, unit, this.db, this.board);
+      const targetHit = computeHit(target, counterWeapon, unit, this.db, this.board);
+      const targetDamage = effectiveDamage(
+        computeDamage(target, counterWeapon, unit, this.db, this.board), targetHit, rngMode,
+      );
+      const targetAccuracy = effectiveHit(targetHit, rngMode);
       const rawThreat = (targetDamage * targetAccuracy) / 100;
       const unitHP = Math.max(1, unit.currentHp);
       defense = 1 - Math.min(1.0, rawThreat / unitHP);
@@ -8,6 +8,7 @@ import type { CombatEffectData, PaletteData } from './battle-anim-types';
 import { loadEffectSpritesheet } from '../data/loaders/combat-anim-loader';
 import { convertSpritesheetToFrames } from './sprite-loader';
 import { computeHit, computeDamage, computeCrit } from './combat-calcs';
+import { SkillBanner, pushSkillBanners, updateSkillBanners } from '../ui/skill-banner';
 
 
 // ============================================================
@@ -110,6 +111,9 @@ export interface AnimationCombatRenderState {
   /** Active damage popups. */
   damagePopups: DamagePopup[];
 
+  /** Names of proc skills that triggered, on their owner's side. */
+  skillBanners: SkillBanner[];
+
   /** Active spark effects. */
   sparks: { type: 'hit' | 'crit' | 'miss' | 'noDamage'; elapsed: number; duration: number; isLeft: boolean }[];
 
@@ -213,6 +217,9 @@ export class AnimationCombat implements AnimationCombatOwner {
   // -- Damage popups ---------------------------------------------------------
   damagePopups: DamagePopup[] = [];
 
+  // -- Proc skill banners ----------------------------------------------------
+  skillBanners: SkillBanner[] = [];
+
   // -- Spark effects ---------------------------------------------------------
   sparks: { x: number; y: number; type: 'hit' | 'crit' | 'miss' | 'noDamage'; elapsed: number; duration: number; isLeft: boolean }[] = [];
 
@@ -252,6 +259,9 @@ export class AnimationCombat implements AnimationCombatOwner {
   // -- Audio (optional, set after construction to enable combat SFX) --------
   audioManager: { playSfx(name: string): void } | null = null;
 
+  /** Growth mode for level-ups (set by CombatState from the difficulty mode). */
+  growthMode: string | null = null;
+
   constructor(
     attacker: UnitObject,
     attackItem: ItemObject,
@@ -379,6 +389,7 @@ export class AnimationCombat implements AnimationCombatOwner {
       p.elapsed += effectiveMs;
     }
     this.damagePopups = this.damagePopups.filter(p => p.elapsed < p.duration);
+    this.skillBanners = updateSkillBanners(this.skillBanners, effectiveMs);
 
     // Update sparks
     for (const s of this.sparks) {
@@ -487,6 +498,12 @@ export class AnimationCombat implements AnimationCombatOwner {
     this.currentStrikeDefenderAnim = defAnim;
     this.awaitingHit = true;
 
+    // Announce proc skills on this strike on their owner's side
+    for (const side of [strike.attacker, strike.defender]) {
+      const names = strike.procs.filter(p => p.unit === side).map(p => p.skill.name);
+      pushSkillBanners(this.skillBanners, names, this.isLeftUnit(side));
+    }
+
     // Set attacker pose
     const pose = strike.crit ? 'Critical' : 'Attack';
     atkAnim.setPose(pose);
@@ -657,11 +674,13 @@ export class AnimationCombat implements AnimationCombatOwner {
     const isLeftDefending = (defAnim === this.leftAnim);
 
     if (strike.hit) {
-      // Apply damage to target HP
+      // Apply damage to target HP and lifesteal heal to the striker
       if (isLeftDefending) {
         this.leftTargetHp = Math.max(0, this.leftTargetHp - strike.damage);
+        this.rightTargetHp = Math.min(strike.attacker.maxHp, this.rightTargetHp + strike.heal);
       } else {
         this.rightTargetHp = Math.max(0, this.rightTargetHp - strike.damage);
+        this.leftTargetHp = Math.min(strike.attacker.maxHp, this.leftTargetHp + strike.heal);
       }
 
       // Determine HP drain duration
@@ -1014,8 +1033,10 @@ export class AnimationCombat implements AnimationCombatOwner {
       if (!strike.hit) continue;
       if (strike.attacker === this.attacker) {
         defHp -= strike.damage;
+        atkHp += strike.heal;
       } else {
         atkHp -= strike.damage;
+        defHp += strike.heal;
       }
     }
 
@@ -1055,7 +1076,7 @@ export class AnimationCombat implements AnimationCombatOwner {
     const expGained = this.calculateExp(attackerDead, defenderDead);
 
     let levelUps: Record<string, number>[] = [];
-    const growthMode = (this.db.getConstant?.('growths_choice', 'random') as string) || 'random';
+    const growthMode = this.growthMode ?? ((this.db.getConstant?.('growths_choice', 'random') as string) || 'random');
 
     if (!attackerDead && this.attacker.team === 'player' && expGained > 0) {
       this.attacker.exp += expGained;
@@ -1193,6 +1214,7 @@ export class AnimationCombat implements AnimationCombatOwner {
         crit: rightItem ? Math.min(100, Math.max(0, computeCrit(rightUnit, rightItem, leftUnit, this.db))) : null,
       },
       damagePopups: this.damagePopups,
+      skillBanners: this.skillBanners,
       sparks: this.sparks.map(s => ({ type: s.type, elapsed: s.elapsed, duration: s.duration, isLeft: s.isLeft })),
       panOffset: this.panOffset,
       leftRangeOffset,
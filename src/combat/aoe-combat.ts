@@ -0,0 +1,325 @@
+import type { UnitObject } from '../objects/unit';
+import type { ItemObject } from '../objects/item';
+import type { Database } from '../data/database';
+import type { GameBoard } from '../objects/game-board';
+import type { CombatStrike } from './combat-solver';
+import { CombatPhaseSolver, type RngMode } from './combat-solver';
+import type { CombatResults, DamagePopup } from './map-combat';
+import { getAoeTiles } from './aoe';
+import { SkillBanner, pushSkillBanners, updateSkillBanners } from '../ui/skill-banner';
+
+// ============================================================
+// AoeCombat - Map presentation of an area-of-effect attack.
+// The whole area is struck at once: one cast, then every
+// target's HP drains together. Targets never counter.
+// ============================================================
+
+export type AoeCombatState = 'init' | 'cast' | 'hp_change' | 'cleanup' | 'done';
+
+/** Duration constants (milliseconds) */
+const INIT_DURATION_MS = 150;
+const DEFAULT_CAST_DURATION_MS = 400;
+const HP_DRAIN_DURATION_MS = 250;
+const CLEANUP_DURATION_MS = 180;
+
+const SHAKE_FREQUENCY = 40;
+const SHAKE_AMPLITUDE = 2;
+
+/** Per-unit display state for rendering. */
+export interface AoeUnitRenderState {
+  unit: UnitObject;
+  hp: number;
+  maxHp: number;
+  flashAlpha: number;
+  shakeX: number;
+}
+
+export class AoeCombat {
+  attacker: UnitObject;
+  attackItem: ItemObject;
+  /** Every unit caught in the area, in getAoeTargets() order (enemies first). */
+  defenders: UnitObject[];
+  /** The main target (first of `defenders`, an enemy); events and EXP report against it. */
+  defender: UnitObject;
+  /** Area attacks are never answered. */
+  readonly defenseItem: ItemObject | null = null;
+  strikes: CombatStrike[];
+  aim: [number, number];
+  /** Tiles covered by the attack. */
+  tiles: [number, number][];
+
+  state: AoeCombatState;
+  frameTimer: number;
+  /** Length of the cast phase; CombatState matches it to the map animation. */
+  castDurationMs: number = DEFAULT_CAST_DURATION_MS;
+
+  private db: Database;
+  private startHp: Map<UnitObject, number>;
+  private targetHp: Map<UnitObject, number>;
+  private displayHp: Map<UnitObject, number>;
+  private flashAlpha: Map<UnitObject, number>;
+
+  damagePopups: DamagePopup[];
+  /** Names of proc skills that triggered (always the attacker's, on the left). */
+  skillBanners: SkillBanner[] = [];
+
+  audioManager: { playSfx(name: string): void } | null = null;
+
+  /** Growth mode for level-ups (set by CombatState from the difficulty mode). */
+  growthMode: string | null = null;
+
+  constructor(
+    attacker: UnitObject,
+    attackItem: ItemObject,
+    targets: UnitObject[],
+    aim: [number, number],
+    db: Database,
+    rngMode: RngMode,
+    board: GameBoard,
+  ) {
+    this.attacker = attacker;
+    this.attackItem = attackItem;
+    this.defenders = targets;
+    this.defender = targets[0];
+    this.aim = aim;
+    this.tiles = attacker.position ? getAoeTiles(attackItem, attacker.position, aim, board) : [aim];
+    this.db = db;
+
+    const solver = new CombatPhaseSolver();
+    this.strikes = solver.resolveAoe(attacker, attackItem, targets, db, rngMode, board);
+
+    this.state = 'init';
+    this.frameTimer = 0;
+
+    const units = [attacker, ...targets];
+    this.startHp = new Map(units.map((u) => [u, u.currentHp]));
+    this.targetHp = new Map(this.startHp);
+    this.displayHp = new Map(this.startHp);
+    this.flashAlpha = new Map(units.map((u) => [u, 0]));
+    this.damagePopups = [];
+  }
+
+  /** Instantly skip to the end of combat (no more animation). */
+  skipToEnd(): void {
+    this.state = 'done';
+  }
+
+  /**
+   * Advance the combat by one frame.
+   * Returns true when the combat is fully complete.
+   */
+  update(deltaMs: number): boolean {
+    this.skillBanners = updateSkillBanners(this.skillBanners, deltaMs);
+    this.updateDamagePopups(deltaMs);
+    for (const [unit, alpha] of this.flashAlpha) {
+      this.flashAlpha.set(unit, Math.max(0, alpha - deltaMs * 0.004));
+    }
+
+    switch (this.state) {
+      case 'init':
+        this.frameTimer += deltaMs;
+        if (this.frameTimer >= INIT_DURATION_MS) {
+          this.frameTimer = 0;
+          this.state = this.strikes.length > 0 ? 'cast' : 'cleanup';
+          const names = this.strikes.flatMap((s) => s.procs.map((p) => p.skill.name));
+          pushSkillBanners(this.skillBanners, [...new Set(names)], true);
+        }
+        return false;
+      case 'cast':
+        this.frameTimer += deltaMs;
+        if (this.frameTimer >= this.castDurationMs) {
+          this.frameTimer = 0;
+          this.impact();
+          this.state = 'hp_change';
+        }
+        return false;
+      case 'hp_change':
+        return this.updateHpChange(deltaMs);
+      case 'cleanup':
+        this.frameTimer += deltaMs;
+        if (this.frameTimer >= CLEANUP_DURATION_MS) {
+          this.frameTimer = 0;
+          this.state = 'done';
+          return true;
+        }
+        return false;
+      case 'done':
+        return true;
+    }
+  }
+
+  /** Get the current combat state for rendering. */
+  getRenderState(): {
+    state: AoeCombatState;
+    tiles: [number, number][];
+    /** 0..1 through the cast phase (1 once it has landed). */
+    castProgress: number;
+    units: AoeUnitRenderState[];
+    damagePopups: DamagePopup[];
+    skillBanners: SkillBanner[];
+  } {
+    let castProgress = 0;
+    if (this.state === 'cast') castProgress = Math.min(1, this.frameTimer / this.castDurationMs);
+    else if (this.state !== 'init') castProgress = 1;
+
+    const shaking = this.state === 'hp_change' && this.frameTimer < HP_DRAIN_DURATION_MS * 0.6;
+    const decay = 1 - this.frameTimer / (HP_DRAIN_DURATION_MS * 0.6);
+    const shakeX = shaking
+      ? Math.round(Math.sin((this.frameTimer / SHAKE_FREQUENCY) * Math.PI * 2) * SHAKE_AMPLITUDE * decay)
+      : 0;
+
+    const units: AoeUnitRenderState[] = [];
+    for (const [unit, hp] of this.displayHp) {
+      const struck = this.strikes.some((s) => s.defender === unit && s.hit);
+      units.push({
+        unit,
+        hp: Math.max(0, Math.round(hp)),
+        maxHp: unit.maxHp,
+        flashAlpha: this.flashAlpha.get(unit) ?? 0,
+        shakeX: struck ? shakeX : 0,
+      });
+    }
+
+    return {
+      state: this.state,
+      tiles: this.tiles,
+      castProgress,
+      units,
+      damagePopups: this.damagePopups,
+      skillBanners: this.skillBanners,
+    };
+  }
+
+  /**
+   * Apply final combat results to units (HP changes, death, exp, weapon uses).
+   * Should be called once after the combat is done.
+   */
+  applyResults(): CombatResults {
+    const hp = new Map(this.startHp);
+    for (const strike of this.strikes) {
+      if (!strike.hit) continue;
+      hp.set(strike.defender, hp.get(strike.defender)! - strike.damage);
+      hp.set(strike.attacker, hp.get(strike.attacker)! + strike.heal);
+    }
+    for (const [unit, value] of hp) {
+      unit.currentHp = Math.max(0, Math.min(unit.maxHp, value));
+      if (unit.currentHp <= 0) unit.dead = true;
+    }
+
+    const attackerDead = this.attacker.currentHp <= 0;
+    const defenderDead = !!this.defender && this.defender.currentHp <= 0;
+    const splashDead = this.defenders.filter((u) => u !== this.defender && u.currentHp <= 0);
+
+    // One use per cast, however many units it caught
+    let attackWeaponBroke = false;
+    if (this.strikes.length > 0 && this.attackItem.maxUses > 0) {
+      attackWeaponBroke = this.attackItem.decrementUses();
+      if (attackWeaponBroke) {
+        const idx = this.attacker.items.indexOf(this.attackItem);
+        if (idx !== -1) this.attacker.items.splice(idx, 1);
+      }
+    }
+
+    // EXP from the most rewarding target
+    let expGained = 0;
+    if (!attackerDead) {
+      for (const target of this.defenders) {
+        expGained = Math.max(expGained, this.calculateExp(target, target.currentHp <= 0));
+      }
+    }
+
+    const levelUps: Record<string, number>[] = [];
+    const growthMode = this.growthMode ?? ((this.db.getConstant('growths_choice', 'random') as string) || 'random');
+    if (!attackerDead && this.attacker.team === 'player' && expGained > 0) {
+      this.attacker.exp += expGained;
+      while (this.attacker.exp >= 100) {
+        this.attacker.exp -= 100;
+        levelUps.push(this.attacker.levelUp(growthMode));
+      }
+    }
+
+    let droppedItem: ItemObject | null = null;
+    if (defenderDead && !attackerDead) {
+      droppedItem = this.defender.items.find((item) => item.droppable) ?? null;
+    }
+
+    return {
+      attackerDead,
+      defenderDead,
+      expGained,
+      levelUps,
+      attackWeaponBroke,
+      defenseWeaponBroke: false,
+      droppedItem,
+      splashDead,
+    };
+  }
+
+  // ------------------------------------------------------------------
+  // State update methods
+  // ------------------------------------------------------------------
+
+  /** The cast lands: flash and queue HP changes and popups for every target. */
+  private impact(): void {
+    for (const strike of this.strikes) {
+      const target = strike.defender;
+      if (strike.hit) {
+        this.targetHp.set(target, Math.max(0, this.targetHp.get(target)! - strike.damage));
+        this.targetHp.set(strike.attacker,
+          Math.min(strike.attacker.maxHp, this.targetHp.get(strike.attacker)! + strike.heal));
+        this.flashAlpha.set(target, strike.crit ? 0.8 : 0.5);
+      }
+      if (target.position) {
+        this.damagePopups.push({
+          x: target.position[0],
+          y: target.position[1],
+          value: strike.hit ? strike.damage : 0,
+          isCrit: strike.hit && strike.crit,
+          elapsed: 0,
+          duration: strike.hit ? 600 : 500,
+        });
+      }
+    }
+
+    if (this.audioManager) {
+      if (this.strikes.some((s) => s.crit)) {
+        this.audioManager.playSfx('Critical Hit 1');
+      } else if (this.strikes.some((s) => s.hit)) {
+        this.audioManager.playSfx('Attack Hit ' + (Math.random() < 0.5 ? '1' : '2'));
+      } else {
+        this.audioManager.playSfx('Attack Miss 2');
+      }
+    }
+  }
+
+  private updateHpChange(deltaMs: number): boolean {
+    this.frameTimer += deltaMs;
+    const t = Math.min(1, this.frameTimer / HP_DRAIN_DURATION_MS);
+    for (const [unit, start] of this.startHp) {
+      this.displayHp.set(unit, start + (this.targetHp.get(unit)! - start) * t);
+    }
+    if (t >= 1) {
+      this.frameTimer = 0;
+      this.state = 'cleanup';
+    }
+    return false;
+  }
+
+  /** Advance all active damage popups, removing expired ones. */
+  private updateDamagePopups(deltaMs: number): void {
+    for (const popup of this.damagePopups) {
+      popup.elapsed += deltaMs;
+    }
+    this.damagePopups = this.damagePopups.filter((p) => p.elapsed < p.duration);
+  }
+
+  /** Same scaling as MapCombat: base 30, +50 for a kill, by level difference. */
+  private calculateExp(target: UnitObject, killed: boolean): number {
+    const BASE_EXP = 30;
+    const KILL_BONUS = 50;
+    const levelScale = Math.max(0.1, 1 + (target.level - this.attacker.level) * 0.1);
+    let exp = Math.round(BASE_EXP * levelScale);
+    if (killed) exp += Math.round(KILL_BONUS * levelScale);
+    return Math.max(1, Math.min(100, exp));
+  }
+}
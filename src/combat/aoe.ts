@@ -0,0 +1,171 @@
+/**
+ * aoe.ts — Area-of-effect target shapes for weapons and spells.
+ *
+ * An item with one of the shape components is aimed at a tile within its
+ * normal range instead of at a unit:
+ *   - 'blast' (radius): every tile within that distance of the aimed tile.
+ *   - 'line' (length): the aimed tile and the tiles behind it, continuing
+ *     away from the user.
+ *   - 'cone' (length): like a line, widening by one tile on each side per
+ *     step away from the aimed tile.
+ * 'aoe_target' picks who the area hits: 'enemy' (the default) or 'all'
+ * units other than the user.
+ */
+
+import type { UnitObject } from '../objects/unit';
+import type { ItemObject } from '../objects/item';
+import type { Database } from '../data/database';
+import type { GameBoard } from '../objects/game-board';
+
+export type AoeShape = 'blast' | 'line' | 'cone';
+
+/** Who an area attack hits, relative to its user. */
+export type AoeTarget = 'enemy' | 'all';
+
+const SHAPES: AoeShape[] = ['blast', 'line', 'cone'];
+
+/** The item's area shape and its size, or null for single-target items. */
+export function getAoeShape(item: ItemObject): { shape: AoeShape; size: number } | null {
+  for (const shape of SHAPES) {
+    if (!item.hasComponent(shape)) continue;
+    const size = item.getComponent<number>(shape);
+    return { shape, size: typeof size === 'number' ? size : 1 };
+  }
+  return null;
+}
+
+export function isAoe(item: ItemObject | null): boolean {
+  return !!item && getAoeShape(item) !== null;
+}
+
+export function getAoeTarget(item: ItemObject): AoeTarget {
+  return item.getComponent<string>('aoe_target') === 'all' ? 'all' : 'enemy';
+}
+
+/** Tiles covered when `item` is used from `origin` aimed at `aim`. */
+export function getAoeTiles(
+  item: ItemObject,
+  origin: [number, number],
+  aim: [number, number],
+  board: GameBoard,
+): [number, number][] {
+  const aoe = getAoeShape(item);
+  if (!aoe) return [aim];
+  const [ax, ay] = aim;
+  const tiles: [number, number][] = [];
+  const add = (x: number, y: number) => {
+    if (board.inBounds(x, y)) tiles.push([x, y]);
+  };
+
+  if (aoe.shape === 'blast') {
+    const r = aoe.size;
+    for (let dx = -r; dx <= r; dx++) {
+      for (let dy = -r; dy <= r; dy++) {
+        if (Math.abs(dx) + Math.abs(dy) <= r) add(ax + dx, ay + dy);
+      }
+    }
+    return tiles;
+  }
+
+  // Lines and cones run along the main axis from the user to the aim
+  const dx = ax - origin[0];
+  const dy = ay - origin[1];
+  const [stepX, stepY] = Math.abs(dx) >= Math.abs(dy) ? [Math.sign(dx) || 1, 0] : [0, Math.sign(dy)];
+  for (let k = 0; k < Math.max(1, aoe.size); k++) {
+    const cx = ax + stepX * k;
+    const cy = ay + stepY * k;
+    const spread = aoe.shape === 'cone' ? k : 0;
+    for (let side = -spread; side <= spread; side++) {
+      add(cx + stepY * side, cy + stepX * side);
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Units hit when `unit` aims `item` at `aim`: enemies before allies, each
+ * nearest to the aimed tile first. The first one is the main target, which
+ * the combat is reported against (events, EXP), so it is never an ally
+ * while the area catches an enemy.
+ */
+export function getAoeTargets(
+  unit: UnitObject,
+  item: ItemObject,
+  aim: [number, number],
+  board: GameBoard,
+  db: Database,
+): UnitObject[] {
+  if (!unit.position) return [];
+  const hitsAll = getAoeTarget(item) === 'all';
+  const targets: UnitObject[] = [];
+  for (const [x, y] of getAoeTiles(item, unit.position, aim, board)) {
+    const other = board.getUnit(x, y);
+    if (!other || other === unit || other.isDead()) continue;
+    if (!hitsAll && db.areAllied(unit.team, other.team)) continue;
+    targets.push(other);
+  }
+  const distToAim = (u: UnitObject) =>
+    Math.abs(u.position![0] - aim[0]) + Math.abs(u.position![1] - aim[1]);
+  const allied = (u: UnitObject) => (db.areAllied(unit.team, u.team) ? 1 : 0);
+  return targets.sort((a, b) => allied(a) - allied(b) || distToAim(a) - distToAim(b));
+}
+
+/**
+ * Tiles within the item's range that `unit` can aim at: the area must
+ * catch at least one enemy.
+ */
+export function getAoeAimTiles(
+  unit: UnitObject,
+  item: ItemObject,
+  board: GameBoard,
+  db: Database,
+): [number, number][] {
+  if (!unit.position) return [];
+  const [ux, uy] = unit.position;
+  const minRange = item.getMinRange();
+  const maxRange = item.getMaxRange();
+  const tiles: [number, number][] = [];
+  for (let dx = -maxRange; dx <= maxRange; dx++) {
+    for (let dy = -maxRange; dy <= maxRange; dy++) {
+      const dist = Math.abs(dx) + Math.abs(dy);
+      if (dist < minRange || dist > maxRange) continue;
+      const aim: [number, number] = [ux + dx, uy + dy];
+      if (!board.inBounds(aim[0], aim[1])) continue;
+      const caught = getAoeTargets(unit, item, aim, board, db);
+      if (caught.some((t) => !db.areAllied(unit.team, t.team))) tiles.push(aim);
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Where the AI aims `item` to hit `target`: the aim tile catching the
+ * most enemies for the fewest allies, nearest to the target on ties.
+ * Falls back to the target's own tile.
+ */
+export function getBestAoeAim(
+  unit: UnitObject,
+  item: ItemObject,
+  target: UnitObject,
+  board: GameBoard,
+  db: Database,
+): [number, number] | null {
+  if (!target.position) return null;
+  const [tx, ty] = target.position;
+  let best: [number, number] = [tx, ty];
+  let bestScore = -Infinity;
+  let bestDist = Infinity;
+  for (const aim of getAoeAimTiles(unit, item, board, db)) {
+    const caught = getAoeTargets(unit, item, aim, board, db);
+    if (!caught.includes(target)) continue;
+    const enemies = caught.filter((u) => !db.areAllied(unit.team, u.team)).length;
+    const score = enemies - (caught.length - enemies);
+    const dist = Math.abs(aim[0] - tx) + Math.abs(aim[1] - ty);
+    if (score > bestScore || (score === bestScore && dist < bestDist)) {
+      best = aim;
+      bestScore = score;
+      bestDist = dist;
+    }
+  }
+  return best;
+}
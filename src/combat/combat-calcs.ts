@@ -446,6 +446,7 @@ export function computeHit(
 /**
  * Compute final damage (attacker damage - defender defense, min 0).
  * Includes dynamic modifiers, effective damage, multipliers, and support bonuses.
+ * `pierce` (0-1) is the share of the defender's defense that is ignored.
  */
 export function computeDamage(
   attacker: UnitObject,
@@ -454,9 +455,11 @@ export function computeDamage(
   db: Database,
   board?: GameBoard | null,
   game?: any,
+  pierce: number = 0,
 ): number {
   const atk = damage(attacker, attackItem, db);
-  const def = defense(defender, attackItem, db, board);
+  const fullDef = defense(defender, attackItem, db, board);
+  const def = fullDef - Math.floor(fullDef * Math.min(1, pierce));
 
   // Dynamic modifiers from items and skills
   const defWeapon = defender.items.find((i) => i.isWeapon()) ?? null;
@@ -699,8 +702,11 @@ const EMPTY_SUPPORT_EFFECT: SupportEffect = {
 /**
  * Get the aggregate support bonus for a unit in combat.
  * Calls the SupportController if available, otherwise returns zeros.
+ * Falls back to the equation game reference so combat resolution and
+ * the forecast agree even when callers don't pass `game`.
  */
 export function getSupportBonusForCombat(unit: UnitObject, game?: any): SupportEffect {
+  game = game ?? _eqGameRef?.();
   if (!game?.supports) return EMPTY_SUPPORT_EFFECT;
   try {
     return game.supports.getSupportRankBonus(unit, game.board, game.db, game);
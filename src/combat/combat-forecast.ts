@@ -0,0 +1,211 @@
+import type { UnitObject } from '../objects/unit';
+import type { ItemObject } from '../objects/item';
+import * as calcs from './combat-calcs';
+import * as skillSystem from './skill-system';
+import { isEffectiveAgainst } from './item-system';
+import { effectiveHit, effectiveDamage, type RngMode } from './combat-solver';
+
+// ============================================================
+// Combat forecast - The numbers shown before confirming an
+// attack, computed the same way CombatPhaseSolver resolves
+// strikes (weapon triangle, RNG mode, support bonuses).
+// ============================================================
+
+/** One side of a combat forecast. */
+export interface ForecastSide {
+  unit: UnitObject;
+  item: ItemObject | null;
+  /** False when this side cannot strike (no weapon, out of range, ...). */
+  canAttack: boolean;
+  hp: number;
+  maxHp: number;
+  /** Damage per landed, non-critical strike. */
+  damage: number;
+  hit: number;
+  crit: number;
+  /** Strikes per round (brave weapons, multiattack skills). */
+  strikesPerRound: number;
+  /** Gets a second round from speed. */
+  doubled: boolean;
+  /** Total strikes, shown as the x2 / x4 marker. */
+  strikes: number;
+  /** Weapon triangle: 1 advantage, -1 disadvantage, 0 neither. */
+  advantage: number;
+  /** Weapon is effective against the opponent. */
+  effective: boolean;
+  /** HP after combat if every strike lands without a crit. */
+  predictedHp: number;
+  /** Name of the combat art activated for this combat, if any. */
+  art: string | null;
+}
+
+export interface CombatForecast {
+  attacker: ForecastSide;
+  defender: ForecastSide;
+}
+
+/**
+ * Build the forecast for `attacker` striking `defender` with
+ * `attackItem`. The defender answers with its equipped weapon.
+ */
+export function getCombatForecast(
+  attacker: UnitObject,
+  attackItem: ItemObject,
+  defender: UnitObject,
+  game: any,
+): CombatForecast {
+  const db = game.db;
+  const rngMode: RngMode = game.getRngMode();
+  const defenseItem = calcs.getEquippedWeapon(defender);
+  const defenderCanCounter = !!defenseItem && calcs.canCounterattack(attacker, attackItem, defender, db);
+
+  const atkSide = buildSide(attacker, attackItem, defender, defenseItem, true, game, rngMode);
+  const defSide = buildSide(defender, defenseItem, attacker, attackItem, defenderCanCounter, game, rngMode);
+
+  atkSide.doubled = calcs.canDouble(attacker, attackItem, defender, defenseItem, db);
+  defSide.doubled = defenderCanCounter && !!defenseItem &&
+    calcs.canDefenderDouble(attacker, attackItem, defender, defenseItem, db);
+  for (const side of [atkSide, defSide]) {
+    side.strikes = side.canAttack ? side.strikesPerRound * (side.doubled ? 2 : 1) : 0;
+  }
+
+  predictHp(atkSide, defSide);
+  return { attacker: atkSide, defender: defSide };
+}
+
+function buildSide(
+  unit: UnitObject,
+  item: ItemObject | null,
+  target: UnitObject,
+  targetItem: ItemObject | null,
+  canAttack: boolean,
+  game: any,
+  rngMode: RngMode,
+): ForecastSide {
+  const side: ForecastSide = {
+    unit,
+    item,
+    canAttack: canAttack && !!item,
+    hp: unit.currentHp,
+    maxHp: unit.maxHp,
+    damage: 0,
+    hit: 0,
+    crit: 0,
+    strikesPerRound: 0,
+    doubled: false,
+    strikes: 0,
+    advantage: 0,
+    effective: false,
+    predictedHp: unit.currentHp,
+    art: activeArtName(unit),
+  };
+  if (!item || !side.canAttack) return side;
+
+  const db = game.db;
+  const wt = calcs.weaponTriangle(item, targetItem, db, unit);
+  const rawHit = Math.max(0, Math.min(100,
+    calcs.computeHit(unit, item, target, db, game.board, game) + wt.hitBonus));
+  side.hit = effectiveHit(rawHit, rngMode);
+  side.damage = Math.max(0, effectiveDamage(
+    calcs.computeDamage(unit, item, target, db, game.board, game) + wt.damageBonus, rawHit, rngMode));
+  side.crit = calcs.computeCrit(unit, item, target, db, game);
+  if (skillSystem.critAnyway(unit) && side.crit <= 0) side.crit = 1;
+  side.strikesPerRound = calcs.computeStrikeCount(unit, item, target, targetItem);
+  side.advantage = Math.sign(wt.damageBonus || wt.hitBonus);
+  side.effective = isEffectiveAgainst(item, target);
+  return side;
+}
+
+function activeArtName(unit: UnitObject): string | null {
+  const child = skillSystem.activeCombatArtSkills(unit)[0];
+  if (!child) return null;
+  const parentNid = child.data.get('combat_art_parent');
+  return unit.skills.find((s) => s.nid === parentNid)?.name ?? child.name;
+}
+
+/**
+ * Play out the strike order with every strike landing, mirroring the
+ * solver's vantage / disvantage / desperation ordering and miracle.
+ */
+function predictHp(atk: ForecastSide, def: ForecastSide): void {
+  const vantage = def.canAttack && skillSystem.vantage(def.unit) && !skillSystem.disvantage(atk.unit);
+  const disvantage = skillSystem.disvantage(atk.unit) && !skillSystem.vantage(atk.unit);
+  const desperation = skillSystem.desperation(atk.unit);
+
+  // 'A' = attacker phase, 'D' = defender phase, lower case = follow-up
+  let order: string;
+  if (vantage) {
+    order = desperation ? 'DAad' : 'DAda';
+  } else if (disvantage && def.canAttack) {
+    order = 'DAda';
+  } else if (desperation) {
+    order = 'AaDd';
+  } else {
+    order = 'ADad';
+  }
+
+  const atkMiracle = skillSystem.ignoreDyingInCombat(atk.unit);
+  const defMiracle = skillSystem.ignoreDyingInCombat(def.unit);
+  let atkHp = atk.hp;
+  let defHp = def.hp;
+  for (const phase of order) {
+    const isAttacker = phase === 'A' || phase === 'a';
+    const side = isAttacker ? atk : def;
+    if (!side.canAttack) continue;
+    if ((phase === 'a' || phase === 'd') && !side.doubled) continue;
+    for (let i = 0; i < side.strikesPerRound; i++) {
+      if (atkHp <= 0 || defHp <= 0) break;
+      if (isAttacker) {
+        defHp -= side.damage;
+        if (defMiracle && defHp <= 0) defHp = 1;
+      } else {
+        atkHp -= side.damage;
+        if (atkMiracle && atkHp <= 0) atkHp = 1;
+      }
+    }
+  }
+  atk.predictedHp = Math.max(0, atkHp);
+  def.predictedHp = Math.max(0, defHp);
+}
+
+/** One unit caught in an area attack, as shown in the AoE forecast. */
+export interface AoeForecastTarget {
+  unit: UnitObject;
+  hp: number;
+  maxHp: number;
+  /** The attacker's numbers against this unit. */
+  damage: number;
+  hit: number;
+  crit: number;
+  effective: boolean;
+  /** HP after the attack if it lands without a crit. */
+  predictedHp: number;
+}
+
+/**
+ * Build the forecast for `attacker` using an area attack on `targets`:
+ * a single strike against each, never answered.
+ */
+export function getAoeForecast(
+  attacker: UnitObject,
+  attackItem: ItemObject,
+  targets: UnitObject[],
+  game: any,
+): AoeForecastTarget[] {
+  const rngMode: RngMode = game.getRngMode();
+  return targets.map((target) => {
+    const side = buildSide(attacker, attackItem, target, calcs.getEquippedWeapon(target), true, game, rngMode);
+    let predictedHp = target.currentHp - side.damage;
+    if (predictedHp <= 0 && skillSystem.ignoreDyingInCombat(target)) predictedHp = 1;
+    return {
+      unit: target,
+      hp: target.currentHp,
+      maxHp: target.maxHp,
+      damage: side.damage,
+      hit: side.hit,
+      crit: side.crit,
+      effective: side.effective,
+      predictedHp: Math.max(0, predictedHp),
+    };
+  });
+}
@@ -2,18 +2,64 @@ import type { UnitObject } from '../objects/unit';
 import type { ItemObject } from '../objects/item';
 import type { Database } from '../data/database';
 import type { GameBoard } from '../objects/game-board';
+import type { SkillObject } from '../objects/skill';
 import * as calcs from './combat-calcs';
 import * as skillSystem from './skill-system';
+import { getCombat } from '../engine/static-random';
 
 // ============================================================
 // CombatPhaseSolver - Resolves a full combat encounter into a
 // sequence of strikes.
 // Matches LT's CombatPhaseSolver from app/engine/combat/solver.py
-// Now with vantage, desperation, and full skill dispatch.
+// Now with vantage, desperation, procs, and full skill dispatch.
 // ============================================================
 
 export type RngMode = 'classic' | 'true_hit' | 'true_hit_plus' | 'grandmaster';
 
+/**
+ * Normalize an RNG option string to an RngMode.
+ * Accepts both LT's display names from difficulty modes ("Classic",
+ * "True Hit", "True Hit+", "Grandmaster") and the snake_case form used by
+ * the `rng_mode` constant. Unknown values fall back to 'true_hit'.
+ */
+export function parseRngMode(value: string | null | undefined): RngMode {
+  const key = (value ?? '').trim().toLowerCase().replace(/\+$/, '_plus').replace(/[\s-]+/g, '_');
+  switch (key) {
+    case 'classic':
+    case 'true_hit':
+    case 'true_hit_plus':
+    case 'grandmaster':
+      return key;
+    default:
+      return 'true_hit';
+  }
+}
+
+/**
+ * Hit chance as it plays out under the given mode.
+ * Grandmaster strikes always connect, so the effective hit is 100.
+ */
+export function effectiveHit(hitChance: number, rngMode: RngMode): number {
+  return rngMode === 'grandmaster' ? 100 : hitChance;
+}
+
+/**
+ * Damage dealt by a landed strike under the given mode.
+ * Grandmaster trades the hit roll for damage scaled by hit chance
+ * (e.g. 10 damage at 70% hit deals 7), matching LT.
+ */
+export function effectiveDamage(damage: number, hitChance: number, rngMode: RngMode): number {
+  if (rngMode !== 'grandmaster') return damage;
+  const clamped = Math.max(0, Math.min(100, hitChance));
+  return Math.round(damage * clamped / 100);
+}
+
+/** A proc skill that triggered on a strike, and the unit that owns it. */
+export interface CombatProc {
+  unit: UnitObject;
+  skill: SkillObject;
+}
+
 export interface CombatStrike {
   attacker: UnitObject;
   defender: UnitObject;
@@ -22,6 +68,10 @@ export interface CombatStrike {
   crit: boolean;
   damage: number;
   isCounter: boolean;
+  /** Proc skills that triggered on this strike, from either side. */
+  procs: CombatProc[];
+  /** HP the striker recovers from lifesteal procs. */
+  heal: number;
 }
 
 /** Valid CombatScript tokens for interact_unit. */
@@ -76,7 +126,7 @@ export class CombatPhaseSolver {
         // For simplicity, default to attacker if no script context.
         // (In Python this falls through to the state machine's normal logic,
         // but for our pre-computed approach we just do one attacker strike.)
-        const strike = this.resolveStrike(attacker, attackItem, defender, db, rngMode, false, board);
+        const strike = this.resolveStrike(attacker, attackItem, defender, db, rngMode, false, [], board);
         this.strikes.push(strike);
         if (strike.hit) defHp.hp -= strike.damage;
       } else if (token === 'hit1' || token === 'crit1' || token === 'miss1') {
@@ -132,7 +182,7 @@ export class CombatPhaseSolver {
       dmg = Math.max(0, dmg);
     }
 
-    return { attacker: striker, defender: target, item, hit, crit, damage: dmg, isCounter };
+    return { attacker: striker, defender: target, item, hit, crit, damage: dmg, isCounter, procs: [], heal: 0 };
   }
 
   /**
@@ -150,6 +200,9 @@ export class CombatPhaseSolver {
    *   - Desperation: attacker does all strikes before counter
    *   - Disvantage: attacker goes second (opposite of vantage)
    *
+   * Each strike also runs a proc phase (see rollProcs); a proc with
+   * 'proc_multiattacks' adds strikes that carry the same procs.
+   *
    * If `script` is provided, uses resolveScripted() instead of
    * the normal combat flow.
    */
@@ -211,17 +264,36 @@ export class CombatPhaseSolver {
       targetHpRef: { hp: number },
       targetMiracle: boolean,
     ) => {
-      for (let i = 0; i < count; i++) {
+      let total = count;
+      let carried: CombatProc[] = [];
+      let carriedLeft = 0;
+      for (let i = 0; i < total; i++) {
         if (targetHpRef.hp <= 0) break;
         if (strikerHpRef.hp <= 0) break;
-        const strike = this.resolveStrike(striker, item, target, db, rngMode, isCounter, board);
+
+        // Proc phase: extra strikes from a multiattack proc reuse its procs
+        const attackProcs = carriedLeft > 0 ? carried : this.rollProcs(striker, 'attack', db);
+        if (carriedLeft > 0) {
+          carriedLeft--;
+        } else {
+          const extra = sumProcValues(attackProcs, 'proc_multiattacks');
+          if (extra > 0) {
+            total += extra;
+            carried = attackProcs;
+            carriedLeft = extra;
+          }
+        }
+
+        const strike = this.resolveStrike(striker, item, target, db, rngMode, isCounter, attackProcs, board);
         this.strikes.push(strike);
         if (strike.hit) {
+          const dealt = Math.min(strike.damage, targetHpRef.hp);
           targetHpRef.hp -= strike.damage;
           // Miracle: target survives at 1 HP if they would die
           if (targetMiracle && targetHpRef.hp <= 0) {
             targetHpRef.hp = 1;
           }
+          this.applyLifesteal(strike, dealt, strikerHpRef);
         }
       }
     };
@@ -314,6 +386,44 @@ export class CombatPhaseSolver {
     return this.strikes;
   }
 
+  /**
+   * Resolve an area-of-effect attack: one strike against each target in
+   * order, with no counters and no follow-up strikes. Attack procs are
+   * rolled per target.
+   */
+  resolveAoe(
+    attacker: UnitObject,
+    attackItem: ItemObject,
+    targets: UnitObject[],
+    db: Database,
+    rngMode: RngMode,
+    board?: GameBoard | null,
+  ): CombatStrike[] {
+    this.strikes = [];
+    const atkHp = { hp: attacker.currentHp };
+    for (const target of targets) {
+      const attackProcs = this.rollProcs(attacker, 'attack', db);
+      const strike = this.resolveStrike(attacker, attackItem, target, db, rngMode, false, attackProcs, board);
+      this.strikes.push(strike);
+      if (!strike.hit) continue;
+      // Targets take a single strike, so miracle can cap the damage itself
+      if (skillSystem.ignoreDyingInCombat(target) && strike.damage >= target.currentHp) {
+        strike.damage = Math.max(0, target.currentHp - 1);
+      }
+      this.applyLifesteal(strike, Math.min(strike.damage, target.currentHp), atkHp);
+    }
+    return this.strikes;
+  }
+
+  /** Heal the striker from lifesteal procs, out of the damage actually dealt. */
+  private applyLifesteal(strike: CombatStrike, dealt: number, strikerHpRef: { hp: number }): void {
+    const lifesteal = sumProcValues(strike.procs, 'proc_lifesteal');
+    if (lifesteal <= 0) return;
+    strike.heal = Math.max(0, Math.min(
+      Math.floor(dealt * lifesteal), strike.attacker.maxHp - strikerHpRef.hp));
+    strikerHpRef.hp += strike.heal;
+  }
+
   /**
    * Roll for hit based on RNG mode.
    *
@@ -321,6 +431,8 @@ export class CombatPhaseSolver {
    * - true_hit: average of 2 RNs (standard Fire Emblem 2-RN system)
    * - true_hit_plus: average of 3 RNs
    * - grandmaster: always hits
+   *
+   * All RNs come from the seeded combat stream so results are reproducible.
    */
   private rollHit(hitChance: number, rngMode: RngMode): boolean {
     switch (rngMode) {
@@ -328,28 +440,46 @@ export class CombatPhaseSolver {
         return true;
 
       case 'true_hit': {
-        const r1 = Math.floor(Math.random() * 100);
-        const r2 = Math.floor(Math.random() * 100);
+        const r1 = getCombat();
+        const r2 = getCombat();
         return (r1 + r2) / 2 < hitChance;
       }
 
       case 'true_hit_plus': {
-        const r1 = Math.floor(Math.random() * 100);
-        const r2 = Math.floor(Math.random() * 100);
-        const r3 = Math.floor(Math.random() * 100);
+        const r1 = getCombat();
+        const r2 = getCombat();
+        const r3 = getCombat();
         return (r1 + r2 + r3) / 3 < hitChance;
       }
 
       case 'classic':
       default: {
-        return Math.floor(Math.random() * 100) < hitChance;
+        return getCombat() < hitChance;
       }
     }
   }
 
+  /**
+   * Roll the unit's proc skills for one strike. Each triggers with the
+   * percent chance from its 'proc_rate' (a number or an equation on the
+   * owner's stats, e.g. "SKL"). Units without proc skills draw no
+   * random numbers, so their combats roll exactly as before.
+   */
+  private rollProcs(unit: UnitObject, mode: skillSystem.ProcMode, db: Database): CombatProc[] {
+    const procs: CombatProc[] = [];
+    for (const skill of skillSystem.procSkills(unit, mode)) {
+      const rate = skill.getComponent<number | string>('proc_rate');
+      const chance = typeof rate === 'number' ? rate : calcs.evaluateEquation(String(rate), unit, { db });
+      if (getCombat() < chance) procs.push({ unit, skill });
+    }
+    return procs;
+  }
+
   /**
    * Generate a single strike result.
    * Computes hit chance, crit chance, then rolls and determines damage.
+   * `attackProcs` are the striker's procs already rolled for this
+   * strike; the target's defense procs are rolled only if it lands.
    */
   private resolveStrike(
     striker: UnitObject,
@@ -358,6 +488,7 @@ export class CombatPhaseSolver {
     db: Database,
     rngMode: RngMode,
     isCounter: boolean,
+    attackProcs: CombatProc[],
     board?: GameBoard | null,
   ): CombatStrike {
     // Compute hit chance with weapon triangle bonus
@@ -378,13 +509,24 @@ export class CombatPhaseSolver {
     const hit = this.rollHit(finalHit, rngMode);
 
     // Roll for crit (only if hit lands)
-    const crit = hit ? Math.floor(Math.random() * 100) < critChance : false;
+    const crit = hit ? getCombat() < critChance : false;
 
     // Compute damage (0 on miss)
     let dmg = 0;
+    const procs = [...attackProcs];
     if (hit) {
-      const baseDmg = calcs.computeDamage(striker, item, target, db, board);
-      dmg = baseDmg + wt.damageBonus;
+      // Attack procs: pierce part of the target's defense, flat bonus, multiplier
+      const pierce = sumProcValues(attackProcs, 'proc_pierce');
+      const baseDmg = calcs.computeDamage(striker, item, target, db, board, undefined, pierce);
+      let rawDmg = baseDmg + wt.damageBonus;
+      for (const { skill } of attackProcs) {
+        const extra = skill.getComponent<number | string>('proc_extra_damage');
+        if (typeof extra === 'number') rawDmg += extra;
+        else if (typeof extra === 'string') rawDmg += calcs.evaluateEquation(extra, striker, { unit2: target, db });
+      }
+      rawDmg = Math.floor(rawDmg * productProcValues(attackProcs, 'proc_damage_multiplier'));
+
+      dmg = effectiveDamage(rawDmg, finalHit, rngMode);
 
       // Crit damage
       if (crit) {
@@ -393,6 +535,12 @@ export class CombatPhaseSolver {
         dmg = dmg * baseCritMult + critDmgMod;
       }
 
+      // Defense procs: negate a share of the incoming damage
+      const defenseProcs = this.rollProcs(target, 'defense', db);
+      const negation = Math.min(1, sumProcValues(defenseProcs, 'proc_damage_negation'));
+      dmg -= Math.floor(Math.max(0, dmg) * negation);
+      procs.push(...defenseProcs);
+
       dmg = Math.max(0, dmg);
     }
 
@@ -404,6 +552,28 @@ export class CombatPhaseSolver {
       crit,
       damage: dmg,
       isCounter,
+      procs,
+      heal: 0,
     };
   }
 }
+
+/** Sum a numeric proc component across the triggered procs. */
+function sumProcValues(procs: CombatProc[], componentNid: string): number {
+  let total = 0;
+  for (const { skill } of procs) {
+    const val = skill.getComponent<number>(componentNid);
+    if (typeof val === 'number') total += val;
+  }
+  return total;
+}
+
+/** Product of a numeric proc component across the triggered procs. */
+function productProcValues(procs: CombatProc[], componentNid: string): number {
+  let result = 1;
+  for (const { skill } of procs) {
+    const val = skill.getComponent<number>(componentNid);
+    if (typeof val === 'number') result *= val;
+  }
+  return result;
+}
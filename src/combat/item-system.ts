@@ -160,6 +160,17 @@ export function modifyAttackSpeed(_unit: UnitObject, item: ItemObject): number {
 // Dynamic modifier hooks (NUMERIC_ACCUM with combat context)
 // ============================================================
 
+/** Whether the item's 'effective' component matches any of the target's tags. */
+export function isEffectiveAgainst(item: ItemObject, target: UnitObject): boolean {
+  const effectiveComp = item.getComponent<any>('effective');
+  if (!effectiveComp) return false;
+  const tags: string[] = effectiveComp.effective_tags ?? effectiveComp ?? [];
+  const targetTags = target.tags ?? [];
+  return (Array.isArray(tags) ? tags : []).some(
+    (tag: string) => targetTags.includes(tag),
+  );
+}
+
 /**
  * Dynamic damage modifier — effective damage, situational bonuses, etc.
  * Called during combat with full attacker/defender context.
@@ -178,17 +189,10 @@ export function dynamicDamage(
   // Effective damage: check if the weapon is effective against the target
   const effectiveComp = item.getComponent<any>('effective');
   if (effectiveComp) {
-    const tags: string[] = effectiveComp.effective_tags ?? effectiveComp ?? [];
     const multiplier: number = effectiveComp.effective_multiplier ?? 3;
     const bonusDamage: number = effectiveComp.effective_bonus_damage ?? 0;
 
-    // Check if target has any of the effective tags
-    const targetTags = target.tags ?? [];
-    const isEffective = (Array.isArray(tags) ? tags : []).some(
-      (tag: string) => targetTags.includes(tag),
-    );
-
-    if (isEffective) {
+    if (isEffectiveAgainst(item, target)) {
       if (effectiveComp.weapon_effectiveness_multiplied) {
         // Multiply the weapon's base damage
         const weaponDmg = item.getDamage();
@@ -263,3 +267,26 @@ export function dynamicAttackSpeed(
 ): number {
   return 0;
 }
+
+// ============================================================
+// Status hooks (UNIQUE — skill NID given to the target)
+// ============================================================
+
+/** Skill given to the target when a strike with this item lands. */
+export function statusOnHit(_unit: UnitObject, item: ItemObject): string | undefined {
+  return item.getComponent<string>('status_on_hit');
+}
+
+/** Skill given to the target after a combat this item was used in. */
+export function statusAfterCombat(_unit: UnitObject, item: ItemObject): string | undefined {
+  return item.getComponent<string>('status_after_combat');
+}
+
+// ============================================================
+// Presentation hooks
+// ============================================================
+
+/** Map animation played once at the aimed tile when this item is cast. */
+export function mapCastAnim(_unit: UnitObject, item: ItemObject): string | undefined {
+  return item.getComponent<string>('map_cast_anim');
+}
@@ -4,6 +4,7 @@ import type { Database } from '../data/database';
 import type { GameBoard } from '../objects/game-board';
 import type { CombatStrike } from './combat-solver';
 import { CombatPhaseSolver, type RngMode } from './combat-solver';
+import { SkillBanner, pushSkillBanners, updateSkillBanners } from '../ui/skill-banner';
 
 // ============================================================
 // MapCombat - Manages the visual presentation of combat on the
@@ -26,6 +27,8 @@ export interface CombatResults {
   defenseWeaponBroke: boolean;
   /** Item dropped by the defender on death, or null. */
   droppedItem: import('../objects/item').ItemObject | null;
+  /** Other units killed by an area attack (the defender is the main target). */
+  splashDead?: UnitObject[];
 }
 
 /** Duration constants (milliseconds) */
@@ -96,9 +99,14 @@ export class MapCombat {
   attackerAnim: CombatAnimState;
   defenderAnim: CombatAnimState;
   damagePopups: DamagePopup[];
+  /** Names of proc skills that triggered (attacker on the left). */
+  skillBanners: SkillBanner[] = [];
 
   // Audio (optional, set after construction to enable combat SFX)
   audioManager: { playSfx(name: string): void } | null = null;
+
+  /** Growth mode for level-ups (set by CombatState from the difficulty mode). */
+  growthMode: string | null = null;
   private hitSoundPlayed: boolean = false;
 
   constructor(
@@ -153,6 +161,7 @@ export class MapCombat {
    * Returns true when the combat is fully complete.
    */
   update(deltaMs: number): boolean {
+    this.skillBanners = updateSkillBanners(this.skillBanners, deltaMs);
     switch (this.state) {
       case 'init':
         return this.updateInit(deltaMs);
@@ -180,6 +189,7 @@ export class MapCombat {
     attackerAnim: CombatAnimState;
     defenderAnim: CombatAnimState;
     damagePopups: DamagePopup[];
+    skillBanners: SkillBanner[];
   } {
     const strike =
       this.currentStrikeIndex < this.strikes.length
@@ -196,6 +206,7 @@ export class MapCombat {
       attackerAnim: this.attackerAnim,
       defenderAnim: this.defenderAnim,
       damagePopups: this.damagePopups,
+      skillBanners: this.skillBanners,
     };
   }
 
@@ -224,8 +235,10 @@ export class MapCombat {
 
       if (strike.attacker === this.attacker) {
         defHp -= strike.damage;
+        atkHp += strike.heal;
       } else {
         atkHp -= strike.damage;
+        defHp += strike.heal;
       }
     }
 
@@ -273,7 +286,7 @@ export class MapCombat {
 
     // Grant EXP and perform level-ups with growth rolls
     let levelUps: Record<string, number>[] = [];
-    const growthMode = (this.db.getConstant('growths_choice', 'random') as string) || 'random';
+    const growthMode = this.growthMode ?? ((this.db.getConstant('growths_choice', 'random') as string) || 'random');
 
     if (!attackerDead && this.attacker.team === 'player' && expGained > 0) {
       this.attacker.exp += expGained;
@@ -318,12 +331,22 @@ export class MapCombat {
       if (this.strikes.length === 0) {
         this.state = 'cleanup';
       } else {
-        this.state = 'strike';
+        this.beginStrike();
       }
     }
     return false;
   }
 
+  /** Enter the strike state, announcing any procs on the next strike. */
+  private beginStrike(): void {
+    this.state = 'strike';
+    const strike = this.strikes[this.currentStrikeIndex];
+    for (const side of [this.attacker, this.defender]) {
+      const names = strike.procs.filter((p) => p.unit === side).map((p) => p.skill.name);
+      pushSkillBanners(this.skillBanners, names, side === this.attacker);
+    }
+  }
+
   private updateStrike(deltaMs: number): boolean {
     this.frameTimer += deltaMs;
 
@@ -397,8 +420,10 @@ export class MapCombat {
 
         if (strike.attacker === this.attacker) {
           this.defenderTargetHp = Math.max(0, this.defenderTargetHp - strike.damage);
+          this.attackerTargetHp = Math.min(this.attacker.maxHp, this.attackerTargetHp + strike.heal);
         } else {
           this.attackerTargetHp = Math.max(0, this.attackerTargetHp - strike.damage);
+          this.defenderTargetHp = Math.min(this.defender.maxHp, this.defenderTargetHp + strike.heal);
         }
 
         // Spawn damage popup on the defender
@@ -507,7 +532,7 @@ export class MapCombat {
     this.updateDamagePopups(deltaMs);
     if (this.frameTimer >= WAITING_DURATION_MS) {
       this.frameTimer = 0;
-      this.state = 'strike';
+      this.beginStrike();
     }
     return false;
   }
@@ -10,6 +10,7 @@
 
 import type { UnitObject } from '../objects/unit';
 import type { ItemObject } from '../objects/item';
+import type { SkillObject } from '../objects/skill';
 
 // ============================================================
 // Helper: iterate all skill components that define a given hook
@@ -428,3 +429,117 @@ export function sightRange(unit: UnitObject): number {
   }
   return total;
 }
+
+// ============================================================
+// Timed skills
+// ============================================================
+
+/**
+ * Turns left on a timed skill ('time' component), or null if the skill
+ * never expires. The countdown is kept in skill data 'turns'; before the
+ * first upkeep it is the component's full duration.
+ */
+export function turnsRemaining(skill: SkillObject): number | null {
+  const duration = skill.getComponent<number>('time');
+  if (typeof duration !== 'number') return null;
+  return (skill.data.get('turns') as number | undefined) ?? duration;
+}
+
+/**
+ * Upkeep HP change at the start of the owner's phase: positive is
+ * damage ('upkeep_damage', e.g. poison), negative is healing
+ * ('regeneration', a fraction of max HP).
+ */
+export function upkeepHpChange(unit: UnitObject, skill: SkillObject): number {
+  let change = 0;
+  const damage = skill.getComponent<number>('upkeep_damage');
+  if (typeof damage === 'number') change += damage;
+  const regen = skill.getComponent<number>('regeneration');
+  if (typeof regen === 'number') change -= Math.floor(unit.maxHp * regen);
+  return change;
+}
+
+/** Skills the unit gives its target when one of its strikes lands. */
+export function statusesOnHit(unit: UnitObject): string[] {
+  return unit.skills
+    .map(s => s.getComponent<string>('status_on_hit'))
+    .filter((nid): nid is string => typeof nid === 'string');
+}
+
+/** Skills the unit gives its target after a combat it struck in. */
+export function statusesAfterCombat(unit: UnitObject): string[] {
+  return unit.skills
+    .map(s => s.getComponent<string>('status_after_combat'))
+    .filter((nid): nid is string => typeof nid === 'string');
+}
+
+// ============================================================
+// Charge / cooldown and combat arts
+// ============================================================
+
+/** Events that can fill a skill's charge. */
+export type ChargeTrigger = 'combat' | 'turn_start' | 'kill';
+
+/**
+ * Charge a skill needs before it can be activated, or null if it does
+ * not use charge. 'charge' starts empty; 'cooldown' is the number of
+ * turns to wait after use and starts ready.
+ */
+export function maxCharge(skill: SkillObject): number | null {
+  const charge = skill.getComponent<number>('charge');
+  if (typeof charge === 'number') return charge;
+  const cooldown = skill.getComponent<number>('cooldown');
+  if (typeof cooldown === 'number') return cooldown;
+  return null;
+}
+
+/** Current charge, kept in skill data 'charge'. */
+export function currentCharge(skill: SkillObject): number {
+  const stored = skill.data.get('charge') as number | undefined;
+  if (typeof stored === 'number') return stored;
+  return skill.hasComponent('charge') ? 0 : (maxCharge(skill) ?? 0);
+}
+
+/** Whether a skill can be activated (skills without charge always can). */
+export function isCharged(skill: SkillObject): boolean {
+  const max = maxCharge(skill);
+  return max === null || currentCharge(skill) >= max;
+}
+
+/**
+ * Events that add one charge. Set with 'charge_on' (a trigger or list of
+ * triggers); otherwise charge fills per combat and cooldown per turn.
+ */
+export function chargeTriggers(skill: SkillObject): ChargeTrigger[] {
+  const value = skill.getComponent<string | string[]>('charge_on');
+  if (typeof value === 'string') return [value as ChargeTrigger];
+  if (Array.isArray(value)) return value as ChargeTrigger[];
+  return skill.hasComponent('charge') ? ['combat'] : ['turn_start'];
+}
+
+/** Skills the unit can activate before attacking ('combat_art' names the child skill). */
+export function combatArts(unit: UnitObject): SkillObject[] {
+  return unit.skills.filter(s => s.hasComponent('combat_art') && !s.data.has('combat_art_parent'));
+}
+
+/** Child skills granted by activated combat arts, pending their combat. */
+export function activeCombatArtSkills(unit: UnitObject): SkillObject[] {
+  return unit.skills.filter(s => s.data.has('combat_art_parent'));
+}
+
+// ============================================================
+// Proc skills
+// ============================================================
+
+/** Whether a proc skill rolls when its owner strikes or is struck. */
+export type ProcMode = 'attack' | 'defense';
+
+/**
+ * Skills with a 'proc_rate' that roll on the unit's own strikes
+ * ('proc_on' of 'attack', the default) or on strikes against it
+ * ('defense').
+ */
+export function procSkills(unit: UnitObject, mode: ProcMode): SkillObject[] {
+  return unit.skills.filter(s =>
+    s.hasComponent('proc_rate') && (s.getComponent<string>('proc_on') ?? 'attack') === mode);
+}
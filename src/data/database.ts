@@ -35,6 +35,7 @@ import type {
   SupportPairPrefab,
   OverworldPrefab,
   PartyPrefab,
+  LorePrefab,
 } from './types';
 import type { CombatAnimData, CombatEffectData, PaletteData } from '../combat/battle-anim-types';
 import { loadCombatAnims, loadCombatEffects, loadCombatPalettes } from './loaders/combat-anim-loader';
@@ -97,6 +98,9 @@ export class Database {
   // Party data
   parties: Map<NID, PartyPrefab> = new Map();
 
+  // Lore (codex) entries
+  lore: Map<NID, LorePrefab> = new Map();
+
   /**
    * Load the entire database from the .ltproj served by the given ResourceManager.
    * Non-chunked files are loaded in parallel first, then chunked data,
@@ -123,6 +127,7 @@ export class Database {
       this.loadSupportPairs(resources),
       this.loadOverworlds(resources),
       this.loadParties(resources),
+      this.loadLore(resources),
     ]);
 
     for (const result of nonChunkedResults) {
@@ -393,6 +398,17 @@ export class Database {
     }
   }
 
+  /**
+   * lore.json is an array of LorePrefab objects.
+   */
+  private async loadLore(resources: ResourceManager): Promise<void> {
+    const data = await resources.tryLoadJson<LorePrefab[]>('game_data/lore.json');
+    if (!data) return;
+    for (const lore of data) {
+      this.lore.set(lore.nid, lore);
+    }
+  }
+
   // -------------------------------------------------------------------
   // Chunked data loader
   // -------------------------------------------------------------------
@@ -470,3 +470,15 @@ export interface PartyPrefab {
   name: string;
   leader: NID;  // leader unit NID
 }
+
+// ------------------------------------------------------------------
+// Lore (codex entries unlocked by add_lore)
+// ------------------------------------------------------------------
+
+export interface LorePrefab {
+  nid: NID;
+  name: string;
+  title: string;
+  category: string;
+  text: string;  // may contain {br} line breaks
+}
@@ -1,6 +1,9 @@
+import type { NID } from '../data/types';
 import type { UnitObject } from '../objects/unit';
 import type { ItemObject } from '../objects/item';
 import type { GameBoard } from '../objects/game-board';
+import { SkillObject } from '../objects/skill';
+import { isAuraChild, AURA_SOURCE_KEY, AURA_PARENT_KEY, type AuraChange } from './aura-system';
 
 // Forward declare — we need a getter function since game-state has circular deps
 let _getGame: (() => any) | null = null;
@@ -187,6 +190,13 @@ export class ActionLog {
    */
   actionDepth: number = 0;
 
+  /**
+   * Bumped whenever an action is executed or reversed through the log,
+   * so caches over game state (e.g. the danger zone) know when to
+   * recompute.
+   */
+  revision: number = 0;
+
   // -- Turnwheel navigation state --
   /** Unit currently being hovered by the turnwheel. */
   hoveredUnit: UnitObject | null = null;
@@ -226,6 +236,7 @@ export class ActionLog {
     this.actionDepth += 1;
     action.execute();
     this.actionDepth -= 1;
+    this.revision++;
     if (this.isRecording() && this.actionDepth <= 0) {
       this.append(action);
     }
@@ -261,6 +272,7 @@ export class ActionLog {
       }
       act.reverse();
       this.removeAction(act);
+      this.revision++;
     }
   }
 
@@ -277,6 +289,7 @@ export class ActionLog {
       if (topAction instanceof MarkActionGroupStart) {
         topAction.reverse();
         this.removeAction(topAction);
+        this.revision++;
         break;
       } else if (topAction.persistThroughMenuCancel) {
         counter--;
@@ -291,6 +304,7 @@ export class ActionLog {
     action.execute();
     this.actions.push(action);
     this.actionIndex += 1;
+    this.revision++;
   }
 
   /** Undo the most recent action and remove it from the log. */
@@ -299,6 +313,7 @@ export class ActionLog {
     const action = this.actions.pop()!;
     this.actionIndex -= 1;
     action.reverse();
+    this.revision++;
     return action;
   }
 
@@ -651,6 +666,7 @@ export class ActionLog {
   private runActionBackward(): Action {
     const action = this.actions[this.actionIndex];
     action.reverse();
+    this.revision++;
     if (action instanceof LockTurnwheel) {
       this.locked = this.getLastLock();
     }
@@ -666,6 +682,7 @@ export class ActionLog {
       this.locked = action.lock;
     }
     action.execute();
+    this.revision++;
     return action;
   }
 
@@ -700,6 +717,37 @@ function capitalize(s: string): string {
 // Concrete actions
 // ------------------------------------------------------------------
 
+/**
+ * SyncAurasAction - Bring aura children in line with the board after a
+ * unit enters, leaves or moves on it. Each child gained or lost is an
+ * AddSkillAction / RemoveSkillAction, undone in reverse order.
+ */
+export class SyncAurasAction extends Action {
+  private changes: Action[] = [];
+
+  execute(): void {
+    this.changes = [];
+    const game = _getGame?.();
+    if (!game?.auras) return;
+    for (const change of game.auras.getChanges(game) as AuraChange[]) {
+      for (const skill of change.remove) {
+        this.changes.push(new RemoveSkillAction(change.unit, skill));
+      }
+      for (const child of change.add) {
+        this.changes.push(new AddSkillAction(change.unit, child.childNid, {
+          [AURA_SOURCE_KEY]: child.sourceNid,
+          [AURA_PARENT_KEY]: child.parentNid,
+        }));
+      }
+    }
+    for (const action of this.changes) action.execute();
+  }
+
+  reverse(): void {
+    for (const action of [...this.changes].reverse()) action.reverse();
+  }
+}
+
 /**
  * MoveAction - Move a unit from one position to another on the board.
  */
@@ -708,6 +756,7 @@ export class MoveAction extends Action {
   private oldPos: [number, number];
   private newPos: [number, number];
   private board: GameBoard;
+  private auras = new SyncAurasAction();
 
   constructor(
     unit: UnitObject,
@@ -725,9 +774,11 @@ export class MoveAction extends Action {
   execute(): void {
     this.board.moveUnit(this.unit, this.newPos[0], this.newPos[1]);
     this.unit.hasMoved = true;
+    this.auras.execute();
   }
 
   reverse(): void {
+    this.auras.reverse();
     this.board.moveUnit(this.unit, this.oldPos[0], this.oldPos[1]);
     this.unit.hasMoved = false;
   }
@@ -1071,6 +1122,7 @@ export class RescueAction extends Action {
   private target: UnitObject;
   private board: GameBoard;
   private targetPos: [number, number] | null = null;
+  private auras = new SyncAurasAction();
 
   constructor(rescuer: UnitObject, target: UnitObject, board: GameBoard) {
     super();
@@ -1088,9 +1140,11 @@ export class RescueAction extends Action {
     // Set rescue references
     this.rescuer.rescuing = this.target;
     this.target.rescuedBy = this.rescuer;
+    this.auras.execute();
   }
 
   reverse(): void {
+    this.auras.reverse();
     this.rescuer.rescuing = null;
     this.target.rescuedBy = null;
 
@@ -1109,6 +1163,7 @@ export class DropAction extends Action {
   private target: UnitObject;
   private board: GameBoard;
   private dropPos: [number, number];
+  private auras = new SyncAurasAction();
 
   constructor(
     rescuer: UnitObject,
@@ -1129,9 +1184,11 @@ export class DropAction extends Action {
 
     // Place target on the board at drop position
     this.board.setUnit(this.dropPos[0], this.dropPos[1], this.target);
+    this.auras.execute();
   }
 
   reverse(): void {
+    this.auras.reverse();
     this.board.removeUnit(this.target);
     this.rescuer.rescuing = this.target;
     this.target.rescuedBy = this.rescuer;
@@ -1147,6 +1204,7 @@ export class DeathAction extends Action {
   private board: GameBoard;
   private position: [number, number] | null = null;
   private wasDead: boolean = false;
+  private auras = new SyncAurasAction();
 
   constructor(unit: UnitObject, board: GameBoard) {
     super();
@@ -1160,9 +1218,11 @@ export class DeathAction extends Action {
 
     this.unit.dead = true;
     this.board.removeUnit(this.unit);
+    this.auras.execute();
   }
 
   reverse(): void {
+    this.auras.reverse();
     this.unit.dead = this.wasDead;
     if (this.position) {
       this.board.setUnit(this.position[0], this.position[1], this.unit);
@@ -1170,6 +1230,34 @@ export class DeathAction extends Action {
   }
 }
 
+/**
+ * ArriveAction - Place an off-map unit on the board (e.g. a spawn or
+ * reinforcement).
+ */
+export class ArriveAction extends Action {
+  private unit: UnitObject;
+  private position: [number, number];
+  private board: GameBoard;
+  private auras = new SyncAurasAction();
+
+  constructor(unit: UnitObject, position: [number, number], board: GameBoard) {
+    super();
+    this.unit = unit;
+    this.position = position;
+    this.board = board;
+  }
+
+  execute(): void {
+    this.board.setUnit(this.position[0], this.position[1], this.unit);
+    this.auras.execute();
+  }
+
+  reverse(): void {
+    this.auras.reverse();
+    this.board.removeUnit(this.unit);
+  }
+}
+
 /**
  * WeaponUsesAction - Decrement weapon uses after combat.
  */
@@ -1802,3 +1890,193 @@ export class ClassChangeAction extends Action {
     this.unit.wexp = { ...this.oldWexp };
   }
 }
+
+/**
+ * AddSkillAction - Give a unit a skill by NID (e.g. a status from a
+ * weapon). If the unit already has it, the skill is not stacked; a timed
+ * skill has its duration refreshed instead. A skill given initial data
+ * (e.g. an aura child's tags) is always added as a new copy.
+ */
+export class AddSkillAction extends Action {
+  private unit: UnitObject;
+  private skillNid: NID;
+  private initData: Record<string, unknown> | null;
+  private added: SkillObject | null = null;
+  private refreshed: SkillObject | null = null;
+  private oldTurns: number | undefined;
+
+  constructor(unit: UnitObject, skillNid: NID, initData: Record<string, unknown> | null = null) {
+    super();
+    this.unit = unit;
+    this.skillNid = skillNid;
+    this.initData = initData;
+  }
+
+  execute(): void {
+    this.added = null;
+    this.refreshed = this.initData
+      ? null
+      : this.unit.skills.find(s => s.nid === this.skillNid && !isAuraChild(s)) ?? null;
+    if (this.refreshed) {
+      this.oldTurns = this.refreshed.data.get('turns');
+      this.refreshed.data.delete('turns');
+      return;
+    }
+    const prefab = _getGame?.()?.db.skills.get(this.skillNid);
+    if (!prefab) {
+      console.warn(`AddSkillAction: skill "${this.skillNid}" not found`);
+      return;
+    }
+    this.added = new SkillObject(prefab);
+    for (const [key, value] of Object.entries(this.initData ?? {})) {
+      this.added.data.set(key, value);
+    }
+    this.unit.skills.push(this.added);
+  }
+
+  reverse(): void {
+    if (this.added) {
+      const idx = this.unit.skills.indexOf(this.added);
+      if (idx !== -1) this.unit.skills.splice(idx, 1);
+    } else if (this.refreshed && this.oldTurns !== undefined) {
+      this.refreshed.data.set('turns', this.oldTurns);
+    }
+  }
+}
+
+/**
+ * RemoveSkillAction - Take a skill off a unit (e.g. an expired status).
+ */
+export class RemoveSkillAction extends Action {
+  private unit: UnitObject;
+  private skill: SkillObject;
+  private index: number = -1;
+
+  constructor(unit: UnitObject, skill: SkillObject) {
+    super();
+    this.unit = unit;
+    this.skill = skill;
+  }
+
+  execute(): void {
+    this.index = this.unit.skills.indexOf(this.skill);
+    if (this.index !== -1) this.unit.skills.splice(this.index, 1);
+  }
+
+  reverse(): void {
+    if (this.index !== -1) this.unit.skills.splice(this.index, 0, this.skill);
+  }
+}
+
+/**
+ * SetSkillTurnsAction - Set the turns left on a timed skill.
+ */
+export class SetSkillTurnsAction extends Action {
+  private skill: SkillObject;
+  private newTurns: number;
+  private oldTurns: number | undefined;
+
+  constructor(skill: SkillObject, turns: number) {
+    super();
+    this.skill = skill;
+    this.newTurns = turns;
+  }
+
+  execute(): void {
+    this.oldTurns = this.skill.data.get('turns');
+    this.skill.data.set('turns', this.newTurns);
+  }
+
+  reverse(): void {
+    if (this.oldTurns === undefined) {
+      this.skill.data.delete('turns');
+    } else {
+      this.skill.data.set('turns', this.oldTurns);
+    }
+  }
+}
+
+/**
+ * SetSkillChargeAction - Set a charge / cooldown skill's current charge.
+ */
+export class SetSkillChargeAction extends Action {
+  private skill: SkillObject;
+  private newCharge: number;
+  private oldCharge: number | undefined;
+
+  constructor(skill: SkillObject, charge: number) {
+    super();
+    this.skill = skill;
+    this.newCharge = charge;
+  }
+
+  execute(): void {
+    this.oldCharge = this.skill.data.get('charge');
+    this.skill.data.set('charge', this.newCharge);
+  }
+
+  reverse(): void {
+    if (this.oldCharge === undefined) {
+      this.skill.data.delete('charge');
+    } else {
+      this.skill.data.set('charge', this.oldCharge);
+    }
+  }
+}
+
+/**
+ * ActivateCombatArtAction - Give a unit the child skill of a combat art
+ * for its next combat. The child is tagged with 'combat_art_parent'.
+ */
+export class ActivateCombatArtAction extends Action {
+  private unit: UnitObject;
+  private child: SkillObject | null = null;
+
+  constructor(unit: UnitObject, art: SkillObject) {
+    super();
+    this.unit = unit;
+    const prefab = _getGame?.()?.db.skills.get(art.getComponent<string>('combat_art'));
+    if (prefab) {
+      this.child = new SkillObject(prefab);
+      this.child.data.set('combat_art_parent', art.nid);
+    }
+  }
+
+  execute(): void {
+    if (this.child) this.unit.skills.push(this.child);
+  }
+
+  reverse(): void {
+    if (!this.child) return;
+    const idx = this.unit.skills.indexOf(this.child);
+    if (idx !== -1) this.unit.skills.splice(idx, 1);
+  }
+}
+
+/**
+ * EndCombatArtsAction - Remove every active combat art child skill from
+ * a unit once the combat it was activated for is over.
+ */
+export class EndCombatArtsAction extends Action {
+  private unit: UnitObject;
+  private removed: [number, SkillObject][] = [];
+
+  constructor(unit: UnitObject) {
+    super();
+    this.unit = unit;
+  }
+
+  execute(): void {
+    this.removed = [];
+    this.unit.skills.forEach((skill, i) => {
+      if (skill.data.has('combat_art_parent')) this.removed.push([i, skill]);
+    });
+    this.unit.skills = this.unit.skills.filter(s => !s.data.has('combat_art_parent'));
+  }
+
+  reverse(): void {
+    for (const [i, skill] of this.removed) {
+      this.unit.skills.splice(i, 0, skill);
+    }
+  }
+}
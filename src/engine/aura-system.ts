@@ -0,0 +1,150 @@
+/**
+ * AuraSystem — Propagates aura skills to the units around their owner.
+ *
+ * Port of LT's app/engine/aura_funcs.py. A skill with an 'aura' component
+ * names a child skill; every unit within 'aura_range' tiles of the owner
+ * (default 3, owner excluded) that passes the 'aura_target' filter holds
+ * a copy of that child skill. Children are tagged in their skill data
+ * with the owner and parent skill so they can be told apart from skills
+ * the unit actually learned.
+ *
+ * Aura children are derived purely from the board. getChanges() diffs
+ * the wanted children against the ones present; SyncAurasAction in
+ * action.ts applies that diff with AddSkillAction / RemoveSkillAction
+ * whenever a unit moves, arrives or leaves, so every change lands in the
+ * action log and is undone by turnwheel rewinds. Children are saved with
+ * their skill data, so save/load needs no extra work.
+ */
+
+import type { NID } from '../data/types';
+import type { UnitObject } from '../objects/unit';
+import type { SkillObject } from '../objects/skill';
+
+/** Skill data key holding the NID of the unit projecting an aura child. */
+export const AURA_SOURCE_KEY = 'aura_source';
+/** Skill data key holding the NID of the aura skill a child came from. */
+export const AURA_PARENT_KEY = 'aura_parent';
+
+const DEFAULT_AURA_RANGE = 3;
+
+/** Who an aura applies to, relative to its owner. */
+export type AuraTarget = 'ally' | 'enemy' | 'team' | 'unit';
+
+/** Whether a skill was granted by someone else's aura. */
+export function isAuraChild(skill: SkillObject): boolean {
+  return skill.data.has(AURA_SOURCE_KEY);
+}
+
+/** A unit's own aura skills (not children received from other auras). */
+export function getAuraSkills(unit: UnitObject): SkillObject[] {
+  return unit.skills.filter((s) => s.hasComponent('aura') && !isAuraChild(s));
+}
+
+export function getAuraRange(skill: SkillObject): number {
+  const range = skill.getComponent<number>('aura_range');
+  return typeof range === 'number' ? range : DEFAULT_AURA_RANGE;
+}
+
+export function getAuraTarget(skill: SkillObject): AuraTarget {
+  const target = skill.getComponent<string>('aura_target');
+  return target === 'enemy' || target === 'team' || target === 'unit' ? target : 'ally';
+}
+
+/** An aura child a unit should hold, and the aura providing it. */
+export interface AuraChild {
+  childNid: NID;
+  sourceNid: NID;
+  parentNid: NID;
+}
+
+/** The aura children one unit has to gain and lose. */
+export interface AuraChange {
+  unit: UnitObject;
+  add: AuraChild[];
+  remove: SkillObject[];
+}
+
+export class AuraSystem {
+  /**
+   * Compare every unit's aura children with the current board. Returns
+   * only the units whose children are out of date.
+   */
+  getChanges(game: any): AuraChange[] {
+    const units: UnitObject[] = game.getAllUnits?.() ?? [];
+    const wanted = this.computeWanted(game, units);
+    const changes: AuraChange[] = [];
+    for (const unit of units) {
+      const want = wanted.get(unit.nid) ?? new Map<NID, AuraChild>();
+
+      // Children whose aura no longer reaches this unit
+      const remove = unit.skills.filter((skill) => {
+        if (!isAuraChild(skill)) return false;
+        const w = want.get(skill.nid);
+        return !w || w.sourceNid !== skill.data.get(AURA_SOURCE_KEY);
+      });
+
+      // Children that are missing
+      const add = [...want.values()].filter((w) =>
+        !unit.skills.some((s) => s.nid === w.childNid && isAuraChild(s) && !remove.includes(s)));
+
+      if (add.length > 0 || remove.length > 0) changes.push({ unit, add, remove });
+    }
+    return changes;
+  }
+
+  /** Tiles covered by the unit's auras from its current position. */
+  getAuraPositions(unit: UnitObject, board: any): [number, number][] {
+    if (!unit.position) return [];
+    const range = Math.max(0, ...getAuraSkills(unit).map(getAuraRange));
+    const [ux, uy] = unit.position;
+    const tiles: [number, number][] = [];
+    for (let dx = -range; dx <= range; dx++) {
+      for (let dy = -range; dy <= range; dy++) {
+        const dist = Math.abs(dx) + Math.abs(dy);
+        if (dist < 1 || dist > range) continue;
+        if (board.inBounds(ux + dx, uy + dy)) tiles.push([ux + dx, uy + dy]);
+      }
+    }
+    return tiles;
+  }
+
+  /** Unit NID -> child skill NID -> the aura that should provide it. */
+  private computeWanted(game: any, units: UnitObject[]): Map<NID, Map<NID, AuraChild>> {
+    const wanted = new Map<NID, Map<NID, AuraChild>>();
+    const onBoard = units.filter((u) => u.position && !u.isDead());
+    for (const owner of onBoard) {
+      for (const aura of getAuraSkills(owner)) {
+        const childNid = aura.getComponent<NID>('aura');
+        if (!childNid) continue;
+        const range = getAuraRange(aura);
+        const target = getAuraTarget(aura);
+        for (const other of onBoard) {
+          if (other === owner) continue;
+          const dist =
+            Math.abs(other.position![0] - owner.position![0]) +
+            Math.abs(other.position![1] - owner.position![1]);
+          if (dist > range || !this.affects(game, owner, other, target)) continue;
+          let forUnit = wanted.get(other.nid);
+          if (!forUnit) {
+            forUnit = new Map();
+            wanted.set(other.nid, forUnit);
+          }
+          // The same child from several owners does not stack
+          if (!forUnit.has(childNid)) {
+            forUnit.set(childNid, { childNid, sourceNid: owner.nid, parentNid: aura.nid });
+          }
+        }
+      }
+    }
+    return wanted;
+  }
+
+  private affects(game: any, owner: UnitObject, other: UnitObject, target: AuraTarget): boolean {
+    switch (target) {
+      case 'ally': return game.db.areAllied(owner.team, other.team);
+      case 'enemy': return !game.db.areAllied(owner.team, other.team);
+      case 'team': return owner.team === other.team;
+      case 'unit': return true;
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * DangerZone — The player's combined enemy threat overlay.
+ *
+ * Shown while toggled on or while any enemies are marked. Marked enemies
+ * restrict the zone to just their threat; with nothing marked it covers
+ * every unit hostile to the player. The union is cached until the board
+ * (unit placement, terrain) or the action log (moves, stats, items,
+ * skills) reports a change, or the marks change.
+ */
+
+import type { NID } from '../data/types';
+import type { UnitObject } from '../objects/unit';
+import type { GameBoard } from '../objects/game-board';
+
+export class DangerZone {
+  /** Whether the full danger zone is toggled on. */
+  enabled: boolean = false;
+
+  /** Enemies whose threat the zone is restricted to. */
+  private marked: Set<NID> = new Set();
+
+  /** Board and revisions the cached tiles were computed from. */
+  private cacheBoard: GameBoard | null = null;
+  private cacheBoardRevision: number = -1;
+  private cacheLogRevision: number = -1;
+  private cached: [number, number][] = [];
+
+  /** Forget toggles, marks and the cache, e.g. when a new level starts. */
+  reset(): void {
+    this.enabled = false;
+    this.marked.clear();
+    this.invalidate();
+    this.cached = [];
+  }
+
+  /** Force the next getPositions() to recompute. */
+  invalidate(): void {
+    this.cacheBoard = null;
+  }
+
+  toggle(): void {
+    this.enabled = !this.enabled;
+  }
+
+  isMarked(unitNid: NID): boolean {
+    return this.marked.has(unitNid);
+  }
+
+  toggleMark(unitNid: NID): void {
+    if (!this.marked.delete(unitNid)) this.marked.add(unitNid);
+    this.invalidate();
+  }
+
+  /** Whether anything should be drawn. */
+  isVisible(): boolean {
+    return this.enabled || this.marked.size > 0;
+  }
+
+  /** Marked units still on the map, for drawing their selection markers. */
+  getMarkedUnits(game: any): UnitObject[] {
+    const units: UnitObject[] = [];
+    for (const nid of this.marked) {
+      const unit: UnitObject | null = game.getUnit(nid);
+      if (unit?.position && !unit.isDead()) units.push(unit);
+    }
+    return units;
+  }
+
+  /** Tiles in the zone, recomputed only when the board or action log has changed. */
+  getPositions(game: any): [number, number][] {
+    if (!game.board || !game.aiController) return [];
+    const board: GameBoard = game.board;
+    const logRevision: number = game.actionLog.revision;
+    if (board !== this.cacheBoard || board.revision !== this.cacheBoardRevision ||
+        logRevision !== this.cacheLogRevision) {
+      this.cacheBoard = board;
+      this.cacheBoardRevision = board.revision;
+      this.cacheLogRevision = logRevision;
+      this.cached = this.compute(game, this.getSources(game));
+    }
+    return this.cached;
+  }
+
+  /** Marked enemies if any are on the map, otherwise every hostile unit. */
+  private getSources(game: any): UnitObject[] {
+    const marked = this.getMarkedUnits(game);
+    if (marked.length > 0) return marked;
+    return game.board.getAllUnits().filter(
+      (u: UnitObject) => u.position && !u.isDead() && !game.db.areAllied('player', u.team),
+    );
+  }
+
+  private compute(game: any, sources: UnitObject[]): [number, number][] {
+    const tiles = new Set<string>();
+    for (const unit of sources) {
+      try {
+        for (const [x, y] of game.aiController.getThreatenedPositions(unit)) {
+          tiles.add(`${x},${y}`);
+        }
+      } catch {
+        // Skip units that fail (e.g. missing movement group data)
+        continue;
+      }
+    }
+    return Array.from(tiles).map((key) => {
+      const [x, y] = key.split(',').map(Number);
+      return [x, y] as [number, number];
+    });
+  }
+}
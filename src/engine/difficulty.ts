@@ -32,12 +32,19 @@ export class DifficultyModeObject {
     this.rng_mode = rng_mode;
   }
 
-  /** Create from a DifficultyMode DB prefab. */
-  static fromPrefab(prefab: DifficultyMode): DifficultyModeObject {
+  /**
+   * Create from a DifficultyMode DB prefab.
+   * `choices` carries the player's picks for settings the prefab leaves
+   * as "Player Choice" (see DifficultySelectState).
+   */
+  static fromPrefab(
+    prefab: DifficultyMode,
+    choices?: { permadeath?: boolean; growths?: string },
+  ): DifficultyModeObject {
     return new DifficultyModeObject(
       prefab.nid,
-      prefab.permadeath_choice === 'Classic',
-      prefab.growths_choice,
+      choices?.permadeath ?? prefab.permadeath_choice === 'Classic',
+      choices?.growths ?? prefab.growths_choice,
       prefab.rng_choice,
     );
   }
@@ -21,7 +21,7 @@ import { StateMachine } from './state-machine';
 import { Camera } from './camera';
 import { Cursor } from './cursor';
 import { PhaseController } from './phase';
-import { ActionLog } from './action';
+import { ActionLog, SyncAurasAction } from './action';
 import { GameBoard } from '../objects/game-board';
 import { UnitObject } from '../objects/unit';
 import { ItemObject } from '../objects/item';
@@ -29,11 +29,14 @@ import { TileMapObject } from '../rendering/tilemap';
 import { HighlightManager } from '../rendering/highlight';
 import { MapView } from '../rendering/map-view';
 import { UnitRenderer } from '../rendering/unit-renderer';
+import { DangerZone } from './danger-zone';
+import { AuraSystem } from './aura-system';
 import { PathSystem } from '../pathfinding/path-system';
 import { MovementSystem } from '../movement/movement-system';
 import { EventManager } from '../events/event-manager';
 import { AudioManager } from '../audio/audio-manager';
 import { HUD } from '../ui/hud';
+import { InitiativeBar } from '../ui/initiative-bar';
 import { AIController } from '../ai/ai-controller';
 import { SkillObject } from '../objects/skill';
 import { MapSprite } from '../rendering/map-sprite';
@@ -47,6 +50,8 @@ import type { OverworldMovementManager } from './overworld/overworld-movement';
 import { RoamInfo } from './roam-info';
 import { Recordkeeper } from './records';
 import { GameQueryEngine } from './query-engine';
+import { setSeed, generateSeed } from './static-random';
+import { parseRngMode, type RngMode } from '../combat/combat-solver';
 
 /**
  * GameState — The god object holding references to every major subsystem
@@ -62,6 +67,8 @@ export class GameState {
   cursor: Cursor;
   phase: PhaseController | null;
   highlight: HighlightManager;
+  dangerZone: DangerZone;
+  auras: AuraSystem;
   mapView: MapView;
   unitRenderer: UnitRenderer;
   pathSystem: PathSystem | null;
@@ -69,6 +76,7 @@ export class GameState {
   eventManager: EventManager | null;
   audioManager: AudioManager;
   hud: HUD;
+  initiativeBar: InitiativeBar;
   actionLog: ActionLog;
   aiController: AIController | null;
   supports: SupportController | null;
@@ -103,6 +111,8 @@ export class GameState {
   combatTarget: UnitObject | null;
   /** Script tokens for scripted combat (interact_unit). Null for normal combat. */
   combatScript: string[] | null;
+  /** Tile an area-of-effect weapon is aimed at. Null for single-target combat. */
+  aoeAim: [number, number] | null;
   /** Whether the current combat was triggered from an event (interact_unit).
    *  When true, CombatState should NOT push EventState on cleanup. */
   eventCombat: boolean;
@@ -126,6 +136,8 @@ export class GameState {
   baseConvos: Map<string, boolean>;
   /** Market items for base screen: key=item NID, value=stock (-1=infinite). */
   marketItems: Map<string, number>;
+  /** Lore entries unlocked by add_lore, in unlock order (shown in the codex). */
+  unlockedLore: NID[];
 
   // -- Difficulty mode -------------------------------------------------------
   /** Runtime difficulty mode for the current session. Null until initialized. */
@@ -172,11 +184,15 @@ export class GameState {
     // Cursor sprite is an engine-level shared asset at /game-data/sprites/cursor.png
     this.cursor.loadSprite('/game-data/sprites/cursor.png').catch(() => {});
     this.highlight = new HighlightManager();
+    this.dangerZone = new DangerZone();
+    this.auras = new AuraSystem();
     this.mapView = new MapView();
     this.unitRenderer = new UnitRenderer();
     this.movementSystem = new MovementSystem();
     this.hud = new HUD();
     this.hud.setResourceManager(resources);
+    this.initiativeBar = new InitiativeBar();
+    this.initiativeBar.setResourceManager(resources);
     this.actionLog = new ActionLog();
 
     // Subsystems that depend on level data — null until loadLevel()
@@ -207,6 +223,7 @@ export class GameState {
     this.infoMenuUnit = null;
     this.combatTarget = null;
     this.combatScript = null;
+    this.aoeAim = null;
     this.eventCombat = false;
     this.shopUnit = null;
     this.shopItems = null;
@@ -219,6 +236,7 @@ export class GameState {
     // Base screen data
     this.baseConvos = new Map();
     this.marketItems = new Map();
+    this.unlockedLore = [];
 
     // Difficulty mode
     this.currentMode = null;
@@ -274,6 +292,8 @@ export class GameState {
         this.board.removeUnit(unit);
       }
     }
+    // With nobody on the map, this strips every aura child skill
+    new SyncAurasAction().execute();
 
     // Per-unit cleanup
     for (const unit of this.units.values()) {
@@ -337,6 +357,7 @@ export class GameState {
     this.activeAiGroups.clear();
     this.levelVars.clear();
     this.highlight.clear();
+    this.dangerZone.reset();
     this.actionLog.clear();
     this.turnCount = 1;
     this.currentLevel = null;
@@ -354,6 +375,7 @@ export class GameState {
     this.infoMenuUnit = null;
     this.combatTarget = null;
     this.combatScript = null;
+    this.aoeAim = null;
     this.eventCombat = false;
     this.shopUnit = null;
     this.shopItems = null;
@@ -407,12 +429,14 @@ export class GameState {
     this.activeAiGroups.clear();
     this.levelVars.clear();
     this.highlight.clear();
+    this.dangerZone.reset();
     this.actionLog.clear();
     this.turnCount = 1;
     this.selectedUnit = null;
     this.infoMenuUnit = null;
     this.combatTarget = null;
     this.combatScript = null;
+    this.aoeAim = null;
     this.eventCombat = false;
     this.shopUnit = null;
     this.shopItems = null;
@@ -537,6 +561,9 @@ export class GameState {
     // d2. Initialize fog of war vision for all spawned units ----------------
     this.recalculateAllFow();
 
+    // d3. Hand out aura children around the starting positions --------------
+    new SyncAurasAction().execute();
+
     // e. Load map sprites for each spawned unit ----------------------------
     await this.loadAllMapSprites();
 
@@ -567,6 +594,7 @@ export class GameState {
       this.initiative = new InitiativeTracker();
       const allUnits = this.getAllUnits().filter(u => u.position && !u.isDead());
       this.initiative.start(allUnits, this.db);
+      this.initiativeBar.reset();
     } else {
       this.initiative = null;
     }
@@ -623,6 +651,8 @@ export class GameState {
         else unit.position = null;
       }
     }
+    // With the map emptied, no aura reaches anyone
+    new SyncAurasAction().execute();
     const oldNid = this.tilemap ? this.tilemap.nid : '';
     this.levelVars.set(`_prev_pos_${oldNid}`, savedPositions);
 
@@ -851,6 +881,16 @@ export class GameState {
     }
   }
 
+  /**
+   * Seed the gameplay RNG for a new playthrough.
+   * The seed is kept in the `_random_seed` game var (as in LT) so it travels
+   * with saves; the live stream positions are saved separately.
+   */
+  initRandomSeed(seed: number = generateSeed()): void {
+    this.gameVars.set('_random_seed', seed);
+    setSeed(seed);
+  }
+
   /**
    * Get the DB prefab for the current difficulty mode.
    * Returns null if no difficulty mode is set.
@@ -860,6 +900,30 @@ export class GameState {
     return this.db.difficultyModes.find(m => m.nid === this.currentMode!.nid) ?? null;
   }
 
+  /**
+   * RNG mode for combat rolls this session.
+   * Comes from the chosen difficulty mode; falls back to the `rng_mode`
+   * constant when no difficulty is active.
+   */
+  getRngMode(): RngMode {
+    if (this.currentMode?.rng_mode) {
+      return parseRngMode(this.currentMode.rng_mode);
+    }
+    return parseRngMode(this.db.getConstant('rng_mode', 'true_hit') as string);
+  }
+
+  /**
+   * Growth mode for level-ups this session ('random', 'fixed', 'dynamic').
+   * Comes from the chosen difficulty mode; falls back to the
+   * `growths_choice` constant when no difficulty is active.
+   */
+  getGrowthMode(): string {
+    const mode = this.currentMode?.growths
+      || (this.db.getConstant('growths_choice', 'random') as string)
+      || 'random';
+    return mode.toLowerCase();
+  }
+
   /**
    * Get all team NIDs that are allied with 'player'.
    * Includes 'player' itself plus any teams linked via alliance pairs.
@@ -1183,6 +1247,7 @@ export class GameState {
 
     const unit = this.spawnUnit(syntheticPrefab, data.team, data.starting_position, data.ai);
     if (data.ai_group) unit.aiGroup = data.ai_group;
+    unit.faction = data.faction ?? '';
 
     // Generic units are NOT persistent across levels (Python: self.persistent = False)
     unit.persistent = false;
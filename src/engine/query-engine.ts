@@ -346,24 +346,13 @@ export class GameQueryEngine {
   // ========================================================================
 
   /**
-   * Count the number of negative status effects (debuffs) on a unit.
-   * A debuff is any status effect that has negative stat modifiers,
-   * DOT damage, immobilize, or stun.
+   * Count the debuffs on a unit: skills with the 'negative' component
+   * (statuses are skills).
    */
   getDebuffCount(unit: any): number {
     const resolved = this._resolveUnit(unit);
     if (!resolved) return 0;
-
-    let count = 0;
-    for (const effect of resolved.statusEffects) {
-      const isNegative =
-        effect.dotDamage > 0 ||
-        effect.immobilize ||
-        effect.stun ||
-        Object.values(effect.statMods).some((v: number) => v < 0);
-      if (isNegative) count++;
-    }
-    return count;
+    return resolved.skills.filter((skill: any) => skill.hasComponent('negative')).length;
   }
 
   // ========================================================================
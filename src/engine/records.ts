@@ -564,7 +564,7 @@ export interface RecordkeeperSaveData {
 // Backed by localStorage
 // ------------------------------------------------------------------
 
-interface PersistentRecordEntry {
+export interface PersistentRecordEntry {
   nid: NID;
   value: unknown;
 }
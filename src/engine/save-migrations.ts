@@ -0,0 +1,212 @@
+// ---------------------------------------------------------------------------
+// Save Migrations — Upgrade older SaveDicts to the current schema.
+//
+// Every SaveDict carries a `schemaVersion`. Saves written before versioning
+// existed have none and are treated as version 1. When loading, the save is
+// walked forward one version at a time through MIGRATIONS until it reaches
+// SAVE_SCHEMA_VERSION.
+//
+// To change UnitSaveData / LevelSaveData / SaveDict:
+//   1. Bump SAVE_SCHEMA_VERSION.
+//   2. Register a migration from the previous version that rewrites old
+//      data into the new shape (fill defaults, rename fields, ...).
+// ---------------------------------------------------------------------------
+
+/** Schema version written by this build. */
+export const SAVE_SCHEMA_VERSION = 8;
+
+/** Version assumed for saves that predate schema versioning. */
+const LEGACY_SCHEMA_VERSION = 1;
+
+/**
+ * Raised when a save cannot be brought up to the current schema.
+ * The load UI catches this to show an error screen instead of loading.
+ */
+export class SaveMigrationError extends Error {
+  /** Schema version found in the save (null if unreadable). */
+  readonly fromVersion: number | null;
+
+  constructor(message: string, fromVersion: number | null) {
+    super(message);
+    this.name = 'SaveMigrationError';
+    this.fromVersion = fromVersion;
+  }
+}
+
+/** Upgrades a save from version N to N + 1. Receives and returns plain JSON. */
+export type SaveMigration = (save: Record<string, any>) => Record<string, any>;
+
+/** Migrations keyed by the version they upgrade FROM. */
+const MIGRATIONS: Map<number, SaveMigration> = new Map();
+
+/** Register the migration that upgrades saves from `fromVersion`. */
+export function registerSaveMigration(fromVersion: number, migrate: SaveMigration): void {
+  if (MIGRATIONS.has(fromVersion)) {
+    throw new Error(`registerSaveMigration: duplicate migration from version ${fromVersion}`);
+  }
+  MIGRATIONS.set(fromVersion, migrate);
+}
+
+/** Read the schema version from a raw save, treating unversioned saves as legacy. */
+export function getSaveSchemaVersion(save: Record<string, any>): number {
+  const v = save.schemaVersion;
+  return typeof v === 'number' ? v : LEGACY_SCHEMA_VERSION;
+}
+
+/**
+ * Walk a raw save forward to SAVE_SCHEMA_VERSION.
+ * Throws SaveMigrationError if the save is from a newer build, a migration
+ * step is missing or throws, or the result is missing required fields.
+ */
+export function migrateSave(raw: unknown): Record<string, any> {
+  if (!raw || typeof raw !== 'object') {
+    throw new SaveMigrationError('Save data is empty or corrupted.', null);
+  }
+
+  let save = raw as Record<string, any>;
+  let version = getSaveSchemaVersion(save);
+
+  if (version > SAVE_SCHEMA_VERSION) {
+    throw new SaveMigrationError(
+      `Save was made with a newer version of the game (save v${version}, game v${SAVE_SCHEMA_VERSION}).`,
+      version,
+    );
+  }
+
+  const fromVersion = version;
+  while (version < SAVE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS.get(version);
+    if (!migrate) {
+      throw new SaveMigrationError(`No migration from save v${version}.`, fromVersion);
+    }
+    try {
+      save = migrate(save);
+    } catch (err) {
+      throw new SaveMigrationError(
+        `Migrating save from v${version} failed: ${err instanceof Error ? err.message : String(err)}`,
+        fromVersion,
+      );
+    }
+    version += 1;
+    save.schemaVersion = version;
+  }
+
+  validateSave(save, fromVersion);
+  return save;
+}
+
+/** Top-level SaveDict fields that restoreGameState cannot do without. */
+const REQUIRED_ARRAYS = ['units', 'items', 'skills', 'parties', 'gameVars', 'levelVars'];
+
+function validateSave(save: Record<string, any>, fromVersion: number): void {
+  for (const key of REQUIRED_ARRAYS) {
+    if (!Array.isArray(save[key])) {
+      throw new SaveMigrationError(`Save is missing "${key}".`, fromVersion);
+    }
+  }
+  for (const unit of save.units) {
+    if (!unit || typeof unit.nid !== 'string' || typeof unit.klass !== 'string') {
+      throw new SaveMigrationError('Save contains a malformed unit.', fromVersion);
+    }
+  }
+}
+
+// ============================================================================
+// Registered migrations
+// ============================================================================
+
+/**
+ * v1 -> v2: seeded RNG state and fields added after the first save format.
+ * Older saves may lack any of these; fill in the same defaults
+ * buildSaveDict() would write for a fresh game.
+ */
+registerSaveMigration(1, (save) => ({
+  ...save,
+  rng: save.rng ?? null,
+  talkOptions: save.talkOptions ?? [],
+  fogState: save.fogState ?? null,
+  roamInfo: save.roamInfo ?? { roam: false, roamUnitNid: null },
+  overworldRegistry: save.overworldRegistry ?? [],
+  memory: save.memory ?? [],
+  marketItems: save.marketItems ?? [],
+  baseConvos: save.baseConvos ?? [],
+  activeAiGroups: save.activeAiGroups ?? [],
+  supports: save.supports ?? null,
+  records: save.records ?? null,
+  units: (save.units ?? []).map((u: Record<string, any>) => ({
+    ...u,
+    statusEffects: u.statusEffects ?? [],
+    rescuingNid: u.rescuingNid ?? null,
+    rescuedByNid: u.rescuedByNid ?? null,
+    persistent: u.persistent ?? true,
+  })),
+  level: save.level
+    ? { ...save.level, weather: save.level.weather ?? [], layerVisibility: save.level.layerVisibility ?? [] }
+    : null,
+}));
+
+/** v2 -> v3: units record their faction. Unknown for older saves. */
+registerSaveMigration(2, (save) => ({
+  ...save,
+  units: save.units.map((u: Record<string, any>) => ({ ...u, faction: u.faction ?? '' })),
+}));
+
+/** v3 -> v4: lore unlocked by add_lore is saved for the base codex. */
+registerSaveMigration(3, (save) => ({
+  ...save,
+  unlockedLore: save.unlockedLore ?? [],
+}));
+
+/** v4 -> v5: level weather records intensity and wind, not just the NID. */
+registerSaveMigration(4, (save) => ({
+  ...save,
+  level: save.level
+    ? {
+      ...save.level,
+      weather: (save.level.weather ?? []).map((nid: string) => ({ nid, intensity: 1, wind: 0 })),
+    }
+    : null,
+}));
+
+/**
+ * v5 -> v6: skill data (charge, timed status turns) is saved per unit.
+ * Older saves kept one copy per skill NID; give every unit that copy.
+ */
+registerSaveMigration(5, (save) => {
+  const dataByNid = new Map<string, [string, any][]>();
+  for (const skill of save.skills) dataByNid.set(skill.nid, skill.data ?? []);
+  return {
+    ...save,
+    units: save.units.map((u: Record<string, any>) => ({
+      ...u,
+      skillData: (u.skills ?? []).map((nid: string) => dataByNid.get(nid) ?? []),
+    })),
+  };
+});
+
+/**
+ * v6 -> v7: statuses are skills; the separate status effect list is gone.
+ * Any old status becomes a skill of the same NID with its turns left
+ * (dropped on load if the database has no such skill).
+ */
+registerSaveMigration(6, (save) => ({
+  ...save,
+  units: save.units.map((u: Record<string, any>) => {
+    const { statusEffects = [], ...rest } = u;
+    const statuses = statusEffects.filter((se: Record<string, any>) => !(rest.skills ?? []).includes(se.nid));
+    return {
+      ...rest,
+      skills: [...(rest.skills ?? []), ...statuses.map((se: Record<string, any>) => se.nid)],
+      skillData: [
+        ...(rest.skillData ?? []),
+        ...statuses.map((se: Record<string, any>) => (se.turnsRemaining > 0 ? [['turns', se.turnsRemaining]] : [])),
+      ],
+    };
+  }),
+}));
+
+/** v7 -> v8: base saves record the event that opened the base. */
+registerSaveMigration(7, (save) => ({
+  ...save,
+  baseEvent: save.baseEvent ?? null,
+}));
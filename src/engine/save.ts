@@ -4,7 +4,7 @@
 // ---------------------------------------------------------------------------
 
 import type { NID, LevelPrefab, ItemPrefab, SkillPrefab } from '../data/types';
-import type { UnitObject, StatusEffect } from '../objects/unit';
+import type { UnitObject } from '../objects/unit';
 import { ItemObject as ItemObjectCtor } from '../objects/item';
 import type { ItemObject } from '../objects/item';
 import { SkillObject as SkillObjectCtor } from '../objects/skill';
@@ -15,16 +15,25 @@ import { PartyObject as PartyObjectCtor } from './party';
 import type { TileMapObject } from '../rendering/tilemap';
 import { TileMapObject as TileMapObjectCtor } from '../rendering/tilemap';
 import { DifficultyModeObject } from './difficulty';
-import { Recordkeeper, type RecordkeeperSaveData } from './records';
+import {
+  Recordkeeper,
+  RECORDS,
+  ACHIEVEMENTS,
+  type RecordkeeperSaveData,
+  type PersistentRecordEntry,
+  type AchievementEntry,
+} from './records';
 import type { SupportPair } from './support-system';
 import { SupportController } from './support-system';
 import { GameBoard } from '../objects/game-board';
 import { PathSystem } from '../pathfinding/path-system';
 import { PhaseController } from './phase';
-import { EventManager } from '../events/event-manager';
+import { EventManager, GameEvent } from '../events/event-manager';
 import { AIController } from '../ai/ai-controller';
 import { MapSprite as MapSpriteCtor } from '../rendering/map-sprite';
 import { RoamInfo } from './roam-info';
+import { saveRng, restoreRng, setSeed, type RngSaveData } from './static-random';
+import { SAVE_SCHEMA_VERSION, SaveMigrationError, migrateSave } from './save-migrations';
 
 // ============================================================================
 // Save Data Interfaces
@@ -44,6 +53,7 @@ export interface UnitSaveData {
   maxStats: Record<string, number>;
   items: string[];        // item key references into items map
   skills: string[];       // skill NIDs
+  skillData: [string, any][][]; // each skill's runtime data (charge, turns, ...), parallel to skills
   tags: string[];
   ai: string;
   wexp: Record<string, number>;
@@ -58,8 +68,8 @@ export interface UnitSaveData {
   dead: boolean;
   hasCanto: boolean;
   party: string;
+  faction: string;
   persistent: boolean;
-  statusEffects: StatusEffect[];
   rescuingNid: string | null;
   rescuedByNid: string | null;
 }
@@ -89,12 +99,18 @@ export interface SkillSaveData {
   data: [string, any][];
 }
 
+export interface WeatherSaveData {
+  nid: string;
+  intensity: number;
+  wind: number;
+}
+
 export interface LevelSaveData {
   nid: string;
   name: string;
   tilemapNid: string;
   layerVisibility: [string, boolean][];
-  weather: string[];
+  weather: WeatherSaveData[];
   party: string;
   music: Record<string, string>;
   objective: { simple: string; win: string; loss: string };
@@ -122,7 +138,16 @@ export interface SupportPairSaveData {
   ranksGainedThisChapter: number;
 }
 
+export interface EventSaveData {
+  nid: string;
+  commandPointer: number;
+  triggerType: string;
+  levelNid: string | null;
+}
+
 export interface SaveDict {
+  /** Save format version; see save-migrations.ts. Missing in v1 saves. */
+  schemaVersion: number;
   units: UnitSaveData[];
   items: ItemSaveData[];
   skills: SkillSaveData[];
@@ -140,17 +165,24 @@ export interface SaveDict {
   supports: SupportPairSaveData[] | null;
   marketItems: [string, number][];
   baseConvos: [string, boolean][];
+  unlockedLore: string[];
   talkOptions: [string, string][];
   fogState: any | null;
   roamInfo: { roam: boolean; roamUnitNid: string | null };
   overworldRegistry: [string, any][];
   memory: [string, any][];
+  /** Seeded RNG stream positions. Null in saves made before seeded RNG. */
+  rng: RngSaveData | null;
+  /** Base saves: the event that opened the base, resumed after loading. */
+  baseEvent: EventSaveData | null;
 }
 
 export interface SaveMetadata {
   playtime: number;
   realtime: number;
   version: string;
+  /** SaveDict schema version the slot was written with. */
+  schemaVersion: number;
   title: string;
   mode: string | null;
   levelNid: string | null;
@@ -357,6 +389,7 @@ function serializeUnit(unit: UnitObject): UnitSaveData {
     maxStats: { ...unit.maxStats },
     items: itemKeys,
     skills: skillNids,
+    skillData: unit.skills.map(s => Array.from(s.data)),
     tags: [...unit.tags],
     ai: unit.ai,
     wexp: { ...unit.wexp },
@@ -373,8 +406,8 @@ function serializeUnit(unit: UnitObject): UnitSaveData {
     dead: unit.dead,
     hasCanto: unit.hasCanto,
     party: unit.party,
+    faction: unit.faction,
     persistent: unit.persistent,
-    statusEffects: unit.statusEffects.map(se => ({ ...se })),
     rescuingNid: unit.rescuing ? unit.rescuing.nid : null,
     rescuedByNid: unit.rescuedBy ? unit.rescuedBy.nid : null,
   };
@@ -436,10 +469,10 @@ function serializeLevel(
   }
 
   // Collect active weather
-  const weather: string[] = [];
+  const weather: WeatherSaveData[] = [];
   if (tilemap) {
     for (const w of tilemap.weather) {
-      weather.push(w.nid);
+      weather.push({ nid: w.nid, intensity: w.intensity, wind: w.wind });
     }
   }
 
@@ -494,11 +527,31 @@ function serializeSupportPair(pair: SupportPair): SupportPairSaveData {
   };
 }
 
+/**
+ * The event whose `base` command opened the base screen, if its progress
+ * can be saved. Python-syntax events can't be: their processor state
+ * lives in a generator.
+ */
+export function getBaseEvent(game: any): GameEvent | null {
+  const queue: GameEvent[] = game.eventManager?.eventQueue ?? [];
+  const event = queue.find((e) => !e.nested) ?? null;
+  return event && !event.pyev1Processor ? event : null;
+}
+
+function serializeEvent(event: GameEvent): EventSaveData {
+  return {
+    nid: event.nid,
+    commandPointer: event.commandPointer,
+    triggerType: event.trigger.type,
+    levelNid: event.trigger.levelNid ?? null,
+  };
+}
+
 // ============================================================================
 // Build SaveDict from Game State
 // ============================================================================
 
-function buildSaveDict(game: any): SaveDict {
+function buildSaveDict(game: any, kind: string): SaveDict {
   // Serialize all items (including convoy items)
   const items: ItemSaveData[] = [];
   const serializedItemKeys = new Set<string>();
@@ -560,6 +613,9 @@ function buildSaveDict(game: any): SaveDict {
     stateStack.push(currentState.name);
   }
 
+  // Base saves resume the event that opened the base
+  const baseEvent = kind === 'base' ? getBaseEvent(game) : null;
+
   // Serialize supports
   let supports: SupportPairSaveData[] | null = null;
   if (game.supports) {
@@ -618,6 +674,7 @@ function buildSaveDict(game: any): SaveDict {
   }
 
   return {
+    schemaVersion: SAVE_SCHEMA_VERSION,
     units,
     items,
     skills,
@@ -637,6 +694,7 @@ function buildSaveDict(game: any): SaveDict {
     supports,
     marketItems: Array.from((game.marketItems as Map<string, number>).entries()),
     baseConvos: Array.from((game.baseConvos as Map<string, boolean>).entries()),
+    unlockedLore: [...(game.unlockedLore as string[])],
     talkOptions,
     fogState,
     roamInfo: {
@@ -647,6 +705,8 @@ function buildSaveDict(game: any): SaveDict {
       (game.overworldRegistry as Map<string, any>).entries(),
     ),
     memory: Array.from((game.memory as Map<string, any>).entries()),
+    rng: saveRng(),
+    baseEvent: baseEvent ? serializeEvent(baseEvent) : null,
   };
 }
 
@@ -662,6 +722,7 @@ function buildMetadata(game: any, kind: string): SaveMetadata {
     playtime,
     realtime: Date.now(),
     version: '1.0.0',
+    schemaVersion: SAVE_SCHEMA_VERSION,
     title: game.db?.getConstant?.('title', 'Lex Talionis') ?? 'Lex Talionis',
     mode: game.currentMode?.nid ?? null,
     levelNid: level?.nid ?? null,
@@ -680,7 +741,7 @@ function buildMetadata(game: any, kind: string): SaveMetadata {
  *
  * @param game  The GameState singleton (typed as `any` to avoid circular deps).
  * @param slot  The save slot index (0-based).
- * @param kind  The save kind: 'start' | 'suspend' | 'battle' | 'turn_change'.
+ * @param kind  The save kind: 'start' | 'suspend' | 'battle' | 'turn_change' | 'base'.
  */
 export async function saveGame(
   game: any,
@@ -688,7 +749,7 @@ export async function saveGame(
   kind: string = 'battle',
 ): Promise<void> {
   try {
-    const saveDict = buildSaveDict(game);
+    const saveDict = buildSaveDict(game, kind);
     const meta = buildMetadata(game, kind);
 
     const gameNid = game.db?.getConstant?.('game_nid', 'default') ?? 'default';
@@ -712,7 +773,7 @@ export async function suspendGame(game: any): Promise<void> {
   try {
     const gameNid = game.db?.getConstant?.('game_nid', 'default') ?? 'default';
     const saveKey = `${gameNid}-suspend`;
-    const saveDict = buildSaveDict(game);
+    const saveDict = buildSaveDict(game, 'suspend');
     const meta = buildMetadata(game, 'suspend');
 
     await idbSet(saveKey, saveDict);
@@ -781,6 +842,13 @@ async function restoreGameState(game: any, s: SaveDict): Promise<void> {
     (game as any).playtime = s.playtime;
   }
 
+  // 4b. Restore RNG so the next rolls match what the player would have seen
+  if (s.rng) {
+    restoreRng(s.rng);
+  } else {
+    setSeed(game.gameVars.get('_random_seed') ?? 0);
+  }
+
   // 5. Restore items FIRST (units reference items by key)
   const itemsByKey = new Map<string, ItemObject>();
   for (const itemData of s.items) {
@@ -875,8 +943,8 @@ async function restoreGameState(game: any, s: SaveDict): Promise<void> {
       unit.dead = unitData.dead;
       unit.hasCanto = unitData.hasCanto;
       unit.party = unitData.party;
+      unit.faction = unitData.faction;
       unit.persistent = unitData.persistent;
-      unit.statusEffects = unitData.statusEffects.map(se => ({ ...se }));
 
       // Restore items onto the unit
       unit.items = [];
@@ -892,7 +960,8 @@ async function restoreGameState(game: any, s: SaveDict): Promise<void> {
 
       // Restore skills
       unit.skills = [];
-      for (const skillNid of unitData.skills) {
+      for (const [skillIndex, skillNid] of unitData.skills.entries()) {
+        const ownData = unitData.skillData[skillIndex] ?? [];
         try {
           // Try DB prefab first
           const dbSkillPrefab: SkillPrefab | undefined = game.db?.skills?.get?.(skillNid);
@@ -907,12 +976,9 @@ async function restoreGameState(game: any, s: SaveDict): Promise<void> {
               for (const [k, v] of savedSkillData.components) {
                 skill.components.set(k, v);
               }
-              // Restore skill data
-              (skill as any).data = new Map<string, any>();
-              for (const [k, v] of savedSkillData.data) {
-                skill.data.set(k, v);
-              }
             }
+            // Restore this unit's skill data
+            (skill as any).data = new Map<string, any>(ownData);
 
             unit.skills.push(skill);
           } else if (savedSkillData) {
@@ -926,11 +992,8 @@ async function restoreGameState(game: any, s: SaveDict): Promise<void> {
               components: savedSkillData.components,
             };
             const skill = new SkillCtor(syntheticSkillPrefab);
-            // Restore data
-            (skill as any).data = new Map<string, any>();
-            for (const [k, v] of savedSkillData.data) {
-              skill.data.set(k, v);
-            }
+            // Restore this unit's skill data
+            (skill as any).data = new Map<string, any>(ownData);
             unit.skills.push(skill);
           } else {
             console.warn(`Unit "${unitData.nid}": skill "${skillNid}" not found in DB or save`);
@@ -992,6 +1055,7 @@ async function restoreGameState(game: any, s: SaveDict): Promise<void> {
   // 9. Restore market/base
   game.marketItems = new Map(s.marketItems);
   game.baseConvos = new Map(s.baseConvos);
+  game.unlockedLore = [...s.unlockedLore];
 
   // 9b. Restore talk options if game supports them
   if ((game as any).talkOptions !== undefined) {
@@ -1050,6 +1114,20 @@ async function restoreGameState(game: any, s: SaveDict): Promise<void> {
 
   // 16. Restore overworld registry
   game.overworldRegistry = new Map(s.overworldRegistry);
+
+  // 17. Queue the event that opened the base again, at the command after
+  // `base`, so it carries on when the player leaves the base
+  if (s.baseEvent) {
+    const prefab = game.db?.events?.get(s.baseEvent.nid);
+    if (prefab && game.eventManager) {
+      const trigger = { type: s.baseEvent.triggerType, levelNid: s.baseEvent.levelNid ?? undefined };
+      const event = new GameEvent(prefab, trigger);
+      event.commandPointer = s.baseEvent.commandPointer;
+      game.eventManager.eventQueue.push(event);
+    } else {
+      console.warn(`restoreGameState: base event "${s.baseEvent.nid}" not found`);
+    }
+  }
 }
 
 // ============================================================================
@@ -1127,8 +1205,8 @@ async function restoreLevel(
 
     // Restore weather
     if (game.tilemap && levelData.weather) {
-      for (const weatherNid of levelData.weather) {
-        game.tilemap.addWeather(weatherNid);
+      for (const w of levelData.weather) {
+        game.tilemap.addWeather(w.nid, { intensity: w.intensity, wind: w.wind });
       }
     }
 
@@ -1258,17 +1336,20 @@ export async function loadGame(game: any, slot: number): Promise<boolean> {
   try {
     const gameNid = game.db?.getConstant?.('game_nid', 'default') ?? 'default';
     const saveKey = `${gameNid}-${slot}`;
-    const saveDict: SaveDict | undefined = await idbGet(saveKey);
+    const raw: unknown = await idbGet(saveKey);
 
-    if (!saveDict) {
+    if (!raw) {
       console.warn(`loadGame: no save found in slot ${slot}`);
       return false;
     }
 
+    // Migrate before touching game state so a bad save leaves it intact
+    const saveDict = migrateSave(raw) as SaveDict;
     await restoreGameState(game, saveDict);
     console.log(`Game loaded from slot ${slot}`);
     return true;
   } catch (err) {
+    if (err instanceof SaveMigrationError) throw err;
     console.error(`Failed to load game from slot ${slot}:`, err);
     return false;
   }
@@ -1281,13 +1362,14 @@ export async function loadSuspend(game: any): Promise<boolean> {
   try {
     const gameNid = game.db?.getConstant?.('game_nid', 'default') ?? 'default';
     const saveKey = `${gameNid}-suspend`;
-    const saveDict: SaveDict | undefined = await idbGet(saveKey);
+    const raw: unknown = await idbGet(saveKey);
 
-    if (!saveDict) {
+    if (!raw) {
       console.warn('loadSuspend: no suspend save found');
       return false;
     }
 
+    const saveDict = migrateSave(raw) as SaveDict;
     await restoreGameState(game, saveDict);
 
     // Delete suspend after successful load
@@ -1297,6 +1379,7 @@ export async function loadSuspend(game: any): Promise<boolean> {
     console.log('Suspend loaded and cleared');
     return true;
   } catch (err) {
+    if (err instanceof SaveMigrationError) throw err;
     console.error('Failed to load suspend:', err);
     return false;
   }
@@ -1405,6 +1488,166 @@ export async function deleteSuspend(gameNid: string): Promise<void> {
   }
 }
 
+// ============================================================================
+// Export / Import — Move saves between browsers and app builds
+// ============================================================================
+
+/** Marker identifying an exported save file. */
+const EXPORT_FORMAT = 'lt-web-saves';
+
+/** A stored save and its slot metadata, as found in IndexedDB. */
+export interface ExportedSave {
+  save: SaveDict;
+  meta: SaveMetadata;
+}
+
+/**
+ * Self-describing bundle of everything a player would lose by clearing
+ * site data: every save slot, the suspend, persistent records and
+ * achievements for one game.
+ */
+export interface SaveExportFile {
+  format: typeof EXPORT_FORMAT;
+  gameNid: string;
+  schemaVersion: number;
+  exportedAt: number;
+  slots: (ExportedSave & { idx: number })[];
+  suspend: ExportedSave | null;
+  persistentRecords: PersistentRecordEntry[];
+  achievements: AchievementEntry[];
+}
+
+/**
+ * Gather all slots, the suspend and persistent data for a game into a
+ * single export file.
+ */
+export async function exportSaves(
+  gameNid: string,
+  numSlots: number,
+): Promise<SaveExportFile> {
+  const slots: SaveExportFile['slots'] = [];
+  for (let i = 0; i < numSlots; i++) {
+    const save = await idbGet(`${gameNid}-${i}`);
+    const meta = await idbGet(`${gameNid}-${i}.meta`);
+    if (save && meta) slots.push({ idx: i, save, meta });
+  }
+
+  const suspendSave = await idbGet(`${gameNid}-suspend`);
+  const suspendMeta = await idbGet(`${gameNid}-suspend.meta`);
+
+  return {
+    format: EXPORT_FORMAT,
+    gameNid,
+    schemaVersion: SAVE_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    slots,
+    suspend: suspendSave && suspendMeta ? { save: suspendSave, meta: suspendMeta } : null,
+    persistentRecords: RECORDS?.save() ?? [],
+    achievements: ACHIEVEMENTS?.save() ?? [],
+  };
+}
+
+/**
+ * Parse and validate an export file's text for the given game.
+ * Every contained save is run through the migration pipeline so that a
+ * file that cannot be loaded is rejected before anything is overwritten.
+ * Throws an Error with a player-facing message when the file is invalid.
+ */
+export function parseSaveExport(
+  text: string,
+  gameNid: string,
+  numSlots: number,
+): SaveExportFile {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  if (!file || file.format !== EXPORT_FORMAT) {
+    throw new Error('File is not an exported save file.');
+  }
+  if (file.gameNid !== gameNid) {
+    throw new Error(`Saves are for a different game ("${file.gameNid}").`);
+  }
+  if (typeof file.schemaVersion !== 'number' || file.schemaVersion > SAVE_SCHEMA_VERSION) {
+    throw new Error('Saves were exported from a newer version of the game.');
+  }
+  if (!Array.isArray(file.slots)) {
+    throw new Error('Save file is missing its slot list.');
+  }
+
+  const entries: { label: string; entry: any }[] = file.slots.map((slot: any) => ({
+    label: `slot ${(slot?.idx ?? 0) + 1}`,
+    entry: slot,
+  }));
+  if (file.suspend) entries.push({ label: 'suspend', entry: file.suspend });
+
+  for (const { label, entry } of entries) {
+    if (!entry?.meta || typeof entry.meta !== 'object') {
+      throw new Error(`Save ${label} is missing its metadata.`);
+    }
+    try {
+      migrateSave(entry.save);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new Error(`Save ${label} cannot be loaded: ${reason}`);
+    }
+  }
+  for (const slot of file.slots) {
+    if (!Number.isInteger(slot.idx) || slot.idx < 0 || slot.idx >= numSlots) {
+      throw new Error(`Save slot ${slot.idx} does not exist in this game.`);
+    }
+  }
+
+  return {
+    ...file,
+    persistentRecords: Array.isArray(file.persistentRecords) ? file.persistentRecords : [],
+    achievements: Array.isArray(file.achievements) ? file.achievements : [],
+  } as SaveExportFile;
+}
+
+/**
+ * Replace all saves and persistent data for the file's game with its
+ * contents. Slots absent from the file are cleared. The file must already
+ * have been validated with parseSaveExport().
+ */
+export async function importSaves(
+  file: SaveExportFile,
+  numSlots: number,
+): Promise<void> {
+  const gameNid = file.gameNid;
+
+  for (let i = 0; i < numSlots; i++) {
+    const slot = file.slots.find((s) => s.idx === i);
+    if (slot) {
+      await idbSet(`${gameNid}-${i}`, slot.save);
+      await idbSet(`${gameNid}-${i}.meta`, slot.meta);
+    } else {
+      await deleteSave(gameNid, i);
+    }
+  }
+
+  if (file.suspend) {
+    await idbSet(`${gameNid}-suspend`, file.suspend.save);
+    await idbSet(`${gameNid}-suspend.meta`, file.suspend.meta);
+  } else {
+    await deleteSuspend(gameNid);
+  }
+
+  if (RECORDS) {
+    RECORDS.restore(file.persistentRecords);
+    RECORDS.persist();
+  }
+  if (ACHIEVEMENTS) {
+    ACHIEVEMENTS.restore(file.achievements);
+    ACHIEVEMENTS.persist();
+  }
+
+  console.log(`Imported ${file.slots.length} save(s) for ${gameNid}`);
+}
+
 // ============================================================================
 // Utility: List all save keys (for debugging / cleanup)
 // ============================================================================
@@ -6,8 +6,14 @@
  * with options for managing units, viewing conversations, shopping,
  * and continuing the story.
  *
- * BaseMainState: Main base hub menu (Manage, Convos, Market, Options, Save, Continue)
+ * BaseMainState: Main base hub menu (Manage, Supply, Market, Convos, Supports,
+ *   Bonus EXP, Codex, Options, Save, Continue)
  * BaseConvosState: Sub-menu listing available base conversations
+ * BaseSupportsState: Support pairs in the party; plays new or replays seen support conversations
+ * BaseCodexState: Sub-menu for the Library, Sound Room and Achievements
+ * BaseLibraryState: Lore entries unlocked by add_lore
+ * BaseSoundRoomState: Songs unlocked by unlock_song, playable on demand
+ * BaseAchievementsState: Persistent achievements and their progress
  *
  * Port of lt-maker/app/engine/base.py
  */
@@ -18,6 +24,11 @@ import type { InputEvent } from '../input';
 import { viewport } from '../viewport';
 
 import { ChoiceMenu, type MenuOption } from '../../ui/menu';
+import type { UnitObject } from '../../objects/unit';
+import type { SupportPair } from '../support-system';
+import type { LorePrefab } from '../../data/types';
+import { RECORDS, ACHIEVEMENTS } from '../records';
+import { getBaseEvent } from '../save';
 
 // ---------------------------------------------------------------------------
 // Lazy game reference (same pattern as game-states.ts / prep-state.ts)
@@ -94,6 +105,16 @@ export class BaseMainState extends State {
       description: 'Manage your units and equipment.',
     });
 
+    // Supply: only once the convoy has been enabled
+    if (game.gameVars.get('_convoy')) {
+      options.push({
+        label: 'Supply',
+        value: 'supply',
+        enabled: true,
+        description: 'Manage items with the convoy.',
+      });
+    }
+
     // Market: insert after Manage if enabled
     if (hasMarket) {
       const hasItems = game.marketItems && game.marketItems.size > 0;
@@ -114,6 +135,34 @@ export class BaseMainState extends State {
       description: 'View available conversations.',
     });
 
+    // Supports: once enabled by enable_supports
+    if (game.gameVars.get('_supports') && game.supports) {
+      options.push({
+        label: 'Supports',
+        value: 'supports',
+        enabled: true,
+        description: 'View support conversations.',
+      });
+    }
+
+    // Bonus EXP: only while the party has some banked
+    if (game.getBexp() > 0) {
+      options.push({
+        label: 'Bonus EXP',
+        value: 'bexp',
+        enabled: true,
+        description: 'Distribute bonus experience.',
+      });
+    }
+
+    // Codex: library, sound room, achievements
+    options.push({
+      label: 'Codex',
+      value: 'codex',
+      enabled: true,
+      description: 'Read lore and review records.',
+    });
+
     // Options (settings)
     options.push({
       label: 'Options',
@@ -122,12 +171,13 @@ export class BaseMainState extends State {
       description: 'Adjust game settings.',
     });
 
-    // Save (disabled stub)
+    // Save: only if the event that opened the base can be resumed on load
+    const canSave = !!getBaseEvent(game);
     options.push({
       label: 'Save',
       value: 'save',
-      enabled: false,
-      description: 'Save your progress.',
+      enabled: canSave,
+      description: canSave ? 'Save your progress.' : 'Cannot save during this event.',
     });
 
     // Continue — exits the base
@@ -192,12 +242,16 @@ export class BaseMainState extends State {
       this.menu.draw(surf);
     }
 
-    // Description box below menu
+    // Description box below menu, or beside it when the menu is too tall
     if (this.menu) {
       const currentOpt = this.menu.getCurrentOption();
       if (currentOpt.description) {
-        const descX = 8;
-        const descY = 24 + this.menu.options.length * 16 + 12;
+        let descX = 8;
+        let descY = 24 + this.menu.options.length * 16 + 12;
+        if (descY + 16 > vh - 16) {
+          descX = this.menu.x + this.menu.width + 6;
+          descY = this.menu.y + 4 + this.menu.selectedIndex * 16;
+        }
         surf.fillRect(descX - 2, descY - 2, 110, 16, 'rgba(16,16,48,0.8)');
         surf.drawText(
           currentOpt.description,
@@ -255,10 +309,26 @@ export class BaseMainState extends State {
           game.state.change('prep_main');
           break;
 
+        case 'supply':
+          game.state.change('supply');
+          break;
+
         case 'convos':
           game.state.change('base_convos');
           break;
 
+        case 'supports':
+          game.state.change('base_supports');
+          break;
+
+        case 'bexp':
+          game.state.change('bexp');
+          break;
+
+        case 'codex':
+          game.state.change('base_codex');
+          break;
+
         case 'market': {
           // Set up shop data from marketItems and push shop state
           if (game.marketItems && game.marketItems.size > 0) {
@@ -293,6 +363,8 @@ export class BaseMainState extends State {
           break;
 
         case 'save':
+          // Base saves reopen the base screen when loaded
+          game.memory.set('save_kind', 'base');
           game.state.change('save_menu');
           break;
 
@@ -417,6 +489,618 @@ export class BaseConvosState extends State {
   }
 }
 
+// ============================================================================
+// Shared list helpers for the base sub-screens
+// ============================================================================
+
+const LIST_ROW_HEIGHT = 12;
+const LIST_FONT = '7px monospace';
+const TITLE_COLOR = 'rgba(220,200,128,1)';
+const TEXT_COLOR = 'rgba(220,220,240,1)';
+const DIM_COLOR = 'rgba(128,128,160,1)';
+const PANEL_COLOR = 'rgba(16,16,48,0.9)';
+
+/** Rows that fit in a list panel starting at `top`, above the hint bar. */
+function visibleRows(top: number): number {
+  return Math.max(1, Math.floor((viewport.height - 20 - top) / LIST_ROW_HEIGHT));
+}
+
+/** Scroll offset that keeps `cursor` inside a window of `visible` rows. */
+function scrollToCursor(cursor: number, scroll: number, visible: number): number {
+  if (cursor < scroll) return cursor;
+  if (cursor >= scroll + visible) return cursor - visible + 1;
+  return scroll;
+}
+
+/** Draw a titled list panel showing `visible` rows from `scroll` onward. */
+function drawListPanel(
+  surf: Surface,
+  title: string,
+  x: number,
+  y: number,
+  w: number,
+  visible: number,
+  count: number,
+  cursor: number,
+  scroll: number,
+  drawRow: (idx: number, rowY: number) => void,
+): void {
+  surf.fillRect(x, y, w, 14, PANEL_COLOR);
+  surf.drawText(title, x + 4, y + 3, TITLE_COLOR, LIST_FONT);
+
+  const listY = y + 14;
+  surf.fillRect(x, listY, w, visible * LIST_ROW_HEIGHT + 4, PANEL_COLOR);
+  const end = Math.min(count, scroll + visible);
+  for (let i = scroll; i < end; i++) {
+    const rowY = listY + 2 + (i - scroll) * LIST_ROW_HEIGHT;
+    if (i === cursor) {
+      surf.fillRect(x + 1, rowY, w - 2, LIST_ROW_HEIGHT, 'rgba(80,80,140,0.7)');
+    }
+    drawRow(i, rowY + 2);
+  }
+  if (scroll > 0) {
+    surf.drawText('^', x + w - 8, listY + 2, DIM_COLOR, LIST_FONT);
+  }
+  if (end < count) {
+    surf.drawText('v', x + w - 8, listY + visible * LIST_ROW_HEIGHT - 6, DIM_COLOR, LIST_FONT);
+  }
+}
+
+/** Bottom hint bar shared by the sub-screens. */
+function drawHints(surf: Surface, text: string): void {
+  const vw = viewport.width;
+  const vh = viewport.height;
+  surf.fillRect(0, vh - 16, vw, 16, 'rgba(16,16,48,0.8)');
+  surf.drawText(text, 4, vh - 12, 'rgba(140,140,180,0.8)', '6px monospace');
+}
+
+/** Greedy word wrap for monospace text; `{br}` and newlines force a break. */
+function wrapLines(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  for (const para of text.replace(/\{br\}/g, '\n').split('\n')) {
+    let line = '';
+    for (const word of para.split(' ')) {
+      if (line && line.length + 1 + word.length > maxChars) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Map keyboard or mouse input onto a plain input event. */
+function effectiveInput(event: InputEvent): InputEvent {
+  const game = getGame();
+  if (game.input?.mouseClick === 'SELECT' && !event) return 'SELECT';
+  if (game.input?.mouseClick === 'BACK' && !event) return 'BACK';
+  return event;
+}
+
+// ============================================================================
+// BaseSupportsState — Support conversations between party members
+// ============================================================================
+
+interface SupportRow {
+  pair: SupportPair;
+  unit1: UnitObject;
+  unit2: UnitObject;
+  /** A new rank conversation can be viewed now. */
+  available: boolean;
+  /** Ranks that can be played: seen ones in rank order, then the new one. */
+  ranks: string[];
+}
+
+export class BaseSupportsState extends State {
+  readonly name = 'base_supports';
+  override readonly transparent = true;
+  override readonly showMap = false;
+  override readonly inLevel = false;
+
+  private rows: SupportRow[] = [];
+  private cursor: number = 0;
+  private scroll: number = 0;
+  /** Index into the highlighted row's `ranks`. */
+  private rankIndex: number = 0;
+
+  override start(): StateResult {
+    this.cursor = 0;
+    this.scroll = 0;
+  }
+
+  override begin(): StateResult {
+    // Rebuild on every return: a conversation may have just unlocked a rank
+    const game = getGame();
+    const ranks: string[] = game.db.supportRanks;
+    const partyNids = new Set(game.getUnitsInParty().map((u: UnitObject) => u.nid));
+    this.rows = [];
+    for (const pair of game.supports?.getAllPairs() ?? []) {
+      if (!partyNids.has(pair.unit1Nid) || !partyNids.has(pair.unit2Nid)) continue;
+      const available: boolean = game.supports.canSupport(pair, game);
+      const viewable = ranks.filter((rank) => pair.unlockedRanks.includes(rank));
+      if (available) viewable.push(pair.lockedRanks[0]);
+      this.rows.push({
+        pair,
+        unit1: game.getUnit(pair.unit1Nid),
+        unit2: game.getUnit(pair.unit2Nid),
+        available,
+        ranks: viewable,
+      });
+    }
+    // Conversations ready to view first, then ones that can be replayed
+    this.rows.sort((a, b) =>
+      Number(b.available) - Number(a.available) || Number(b.ranks.length > 0) - Number(a.ranks.length > 0));
+    this.cursor = Math.min(this.cursor, Math.max(0, this.rows.length - 1));
+    this.resetRankIndex();
+  }
+
+  /** Highlight the newest rank of the current row. */
+  private resetRankIndex(): void {
+    this.rankIndex = Math.max(0, (this.rows[this.cursor]?.ranks.length ?? 0) - 1);
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    const game = getGame();
+    const input = effectiveInput(event);
+
+    switch (input) {
+      case 'UP':
+      case 'DOWN':
+        if (this.rows.length > 0) {
+          const delta = input === 'UP' ? -1 : 1;
+          this.cursor = (this.cursor + delta + this.rows.length) % this.rows.length;
+          this.scroll = scrollToCursor(this.cursor, this.scroll, visibleRows(42));
+          this.resetRankIndex();
+          game.audioManager?.playSfx?.('Select 6');
+        }
+        break;
+      case 'LEFT':
+      case 'RIGHT': {
+        const count = this.rows[this.cursor]?.ranks.length ?? 0;
+        if (count > 1) {
+          const delta = input === 'LEFT' ? -1 : 1;
+          this.rankIndex = (this.rankIndex + delta + count) % count;
+          game.audioManager?.playSfx?.('Select 6');
+        }
+        break;
+      }
+      case 'SELECT': {
+        const row = this.rows[this.cursor];
+        const rank = row?.ranks[this.rankIndex];
+        if (!rank) {
+          game.audioManager?.playSfx?.('Error');
+          break;
+        }
+        game.audioManager?.playSfx?.('Select 1');
+        this.playConversation(row, rank);
+        break;
+      }
+      case 'BACK':
+        game.audioManager?.playSfx?.('Select 4');
+        game.state.back();
+        break;
+    }
+  }
+
+  /**
+   * Play the on_support event for one of the pair's ranks, if any. A rank
+   * seen for the first time is unlocked (recorded as seen) beforehand;
+   * seen ranks are replayed without touching the pair.
+   */
+  private playConversation(row: SupportRow, rank: string): void {
+    const game = getGame();
+    if (!row.pair.unlockedRanks.includes(rank)) {
+      game.supports.unlockRank(row.pair.nid, rank);
+    }
+
+    const triggered = game.eventManager?.triggerNested(
+      {
+        type: 'on_support',
+        levelNid: game.currentLevel?.nid,
+        unitA: row.unit1.nid,
+        unitB: row.unit2.nid,
+        unit1: row.unit1,
+        unit2: row.unit2,
+      },
+      {
+        game,
+        unit1: row.unit1,
+        unit2: row.unit2,
+        gameVars: game.gameVars,
+        levelVars: game.levelVars,
+        localArgs: new Map([['support_rank_nid', rank]]),
+      },
+    );
+    if (triggered) {
+      game.state.change('event');
+    } else {
+      this.begin();
+    }
+  }
+
+  override draw(surf: Surface): Surface {
+    const game = getGame();
+    const vw = viewport.width;
+    surf.fillRect(0, 0, vw, viewport.height, 'rgba(0,0,0,0.4)');
+
+    const ranks: string[] = game.db.supportRanks;
+    const x = 8;
+    const w = vw - 16;
+    drawListPanel(surf, 'Supports', x, 28, w, visibleRows(42), this.rows.length, this.cursor, this.scroll, (i, y) => {
+      const row = this.rows[i];
+      const color = row.ranks.length > 0 ? TEXT_COLOR : DIM_COLOR;
+      surf.drawText(`${row.unit1.name} & ${row.unit2.name}`, x + 6, y, color, LIST_FONT);
+      // Seen ranks in white, the next viewable rank in gold, the rest as
+      // dashes; the rank SELECT would play is boxed on the current row
+      const selectedRank = i === this.cursor ? row.ranks[this.rankIndex] : undefined;
+      ranks.forEach((rank, r) => {
+        const rx = x + w - 14 - (ranks.length - r) * 10;
+        if (row.pair.unlockedRanks.includes(rank)) {
+          surf.drawText(rank, rx, y, TEXT_COLOR, LIST_FONT);
+        } else if (row.available && rank === row.pair.lockedRanks[0]) {
+          surf.drawText(rank, rx, y, TITLE_COLOR, LIST_FONT);
+        } else {
+          surf.drawText('-', rx, y, DIM_COLOR, LIST_FONT);
+        }
+        if (rank === selectedRank) {
+          surf.drawRect(rx - 2, y - 1, 9, LIST_ROW_HEIGHT - 1, TITLE_COLOR);
+        }
+      });
+    });
+    if (this.rows.length === 0) {
+      surf.drawText('No support pairs in the party.', x + 6, 46, DIM_COLOR, LIST_FONT);
+    }
+
+    drawHints(surf, 'SELECT: View  |  L/R: Rank  |  B: Back');
+    return surf;
+  }
+}
+
+// ============================================================================
+// BaseCodexState — Library / Sound Room / Achievements sub-menu
+// ============================================================================
+
+export class BaseCodexState extends State {
+  readonly name = 'base_codex';
+  override readonly transparent = true;
+  override readonly showMap = false;
+  override readonly inLevel = false;
+
+  private menu: ChoiceMenu | null = null;
+
+  override begin(): StateResult {
+    const game = getGame();
+    const options: MenuOption[] = [
+      { label: 'Library', value: 'library', enabled: game.unlockedLore.length > 0 },
+      { label: 'Sound Room', value: 'sound_room', enabled: true },
+      { label: 'Achievements', value: 'achievements', enabled: ACHIEVEMENTS?.getAll().length > 0 },
+    ];
+    const prevIndex = this.menu?.selectedIndex ?? 0;
+    this.menu = new ChoiceMenu(options, 80, 28);
+    if (options[prevIndex].enabled) this.menu.selectedIndex = prevIndex;
+  }
+
+  override draw(surf: Surface): Surface {
+    surf.fillRect(0, 0, viewport.width, viewport.height, 'rgba(0,0,0,0.2)');
+    surf.fillRect(76, 18, 90, 14, PANEL_COLOR);
+    surf.drawText('Codex', 80, 21, TITLE_COLOR, LIST_FONT);
+    this.menu?.draw(surf);
+    return surf;
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    if (!this.menu) return;
+    const game = getGame();
+
+    let result: { selected: string } | { back: true } | null = null;
+    if (game.input?.mouseClick) {
+      const [gx, gy] = game.input.getGameMousePos();
+      result = this.menu.handleClick(gx, gy, game.input.mouseClick as 'SELECT' | 'BACK');
+    }
+    if (game.input?.mouseMoved) {
+      const [gx, gy] = game.input.getGameMousePos();
+      this.menu.handleMouseHover(gx, gy);
+    }
+    if (!result && event !== null) {
+      result = this.menu.handleInput(event);
+    }
+    if (!result) return;
+
+    if ('back' in result) {
+      game.state.back();
+      return;
+    }
+    game.state.change(`base_${result.selected}`);
+  }
+}
+
+// ============================================================================
+// BaseLibraryState — Lore entries unlocked by add_lore
+// ============================================================================
+
+/** Left edge of the entry text panel, right of the entry list. */
+const LIBRARY_TEXT_X = 100;
+
+export class BaseLibraryState extends State {
+  readonly name = 'base_library';
+  override readonly transparent = true;
+  override readonly showMap = false;
+  override readonly inLevel = false;
+
+  private entries: LorePrefab[] = [];
+  private cursor: number = 0;
+  private scroll: number = 0;
+  /** First line of the entry text shown; LEFT/RIGHT page through it. */
+  private textScroll: number = 0;
+
+  override start(): StateResult {
+    const game = getGame();
+    this.entries = (game.unlockedLore as string[])
+      .map((nid) => game.db.lore.get(nid) as LorePrefab | undefined)
+      .filter((lore): lore is LorePrefab => !!lore)
+      .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+    this.cursor = 0;
+    this.scroll = 0;
+    this.textScroll = 0;
+    if (this.entries.length === 0) {
+      game.state.back();
+    }
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    const game = getGame();
+    const input = effectiveInput(event);
+    const textRows = visibleRows(42) - 1;
+
+    switch (input) {
+      case 'UP':
+      case 'DOWN': {
+        const delta = input === 'UP' ? -1 : 1;
+        this.cursor = (this.cursor + delta + this.entries.length) % this.entries.length;
+        this.scroll = scrollToCursor(this.cursor, this.scroll, visibleRows(42));
+        this.textScroll = 0;
+        game.audioManager?.playSfx?.('Select 6');
+        break;
+      }
+      case 'LEFT':
+        this.textScroll = Math.max(0, this.textScroll - textRows);
+        break;
+      case 'RIGHT':
+        if (this.textScroll + textRows < this.currentLines().length) {
+          this.textScroll += textRows;
+        }
+        break;
+      case 'BACK':
+        game.audioManager?.playSfx?.('Select 4');
+        game.state.back();
+        break;
+    }
+  }
+
+  private currentLines(): string[] {
+    const entry = this.entries[this.cursor];
+    if (!entry) return [];
+    const maxChars = Math.floor((viewport.width - LIBRARY_TEXT_X - 16) / 4);
+    return wrapLines(entry.text, maxChars);
+  }
+
+  override draw(surf: Surface): Surface {
+    const vw = viewport.width;
+    surf.fillRect(0, 0, vw, viewport.height, 'rgba(0,0,0,0.4)');
+
+    drawListPanel(surf, 'Library', 8, 28, 88, visibleRows(42), this.entries.length, this.cursor, this.scroll, (i, y) => {
+      surf.drawText(this.entries[i].name, 14, y, TEXT_COLOR, LIST_FONT);
+    });
+
+    const entry = this.entries[this.cursor];
+    if (entry) {
+      const x = LIBRARY_TEXT_X;
+      const w = vw - x - 8;
+      const rows = visibleRows(42);
+      surf.fillRect(x, 28, w, 14, PANEL_COLOR);
+      surf.drawText(entry.title || entry.name, x + 4, 31, TITLE_COLOR, LIST_FONT);
+      if (entry.category) {
+        const cw = entry.category.length * 4;
+        surf.drawText(entry.category, x + w - cw - 4, 31, DIM_COLOR, '6px monospace');
+      }
+      surf.fillRect(x, 42, w, rows * LIST_ROW_HEIGHT + 4, PANEL_COLOR);
+      const lines = this.currentLines();
+      const shown = lines.slice(this.textScroll, this.textScroll + rows - 1);
+      shown.forEach((line, i) => {
+        surf.drawText(line, x + 4, 46 + i * LIST_ROW_HEIGHT, TEXT_COLOR, '6px monospace');
+      });
+      if (this.textScroll + rows - 1 < lines.length) {
+        surf.drawText('>', x + w - 8, 42 + rows * LIST_ROW_HEIGHT - 8, DIM_COLOR, LIST_FONT);
+      }
+    }
+
+    drawHints(surf, 'LEFT/RIGHT: Page  |  B: Back');
+    return surf;
+  }
+}
+
+// ============================================================================
+// BaseSoundRoomState — Songs unlocked by unlock_song
+// ============================================================================
+
+export class BaseSoundRoomState extends State {
+  readonly name = 'base_sound_room';
+  override readonly transparent = true;
+  override readonly showMap = false;
+  override readonly inLevel = false;
+
+  private songs: string[] = [];
+  private loading: boolean = true;
+  private cursor: number = 0;
+  private scroll: number = 0;
+  private playingNid: string | null = null;
+
+  override start(): StateResult {
+    const game = getGame();
+    this.loading = true;
+    this.cursor = 0;
+    this.scroll = 0;
+    this.playingNid = null;
+    // music.json lists every song in the project, locked or not
+    game.resources.tryLoadJson('resources/music/music.json')
+      .then((data: Array<{ nid: string } | string> | null) => {
+        this.songs = (data ?? [])
+          .map((entry) => (typeof entry === 'string' ? entry : entry?.nid))
+          .filter((nid): nid is string => !!nid);
+        this.loading = false;
+      });
+  }
+
+  private isUnlocked(nid: string): boolean {
+    return !!RECORDS?.checkSongUnlocked(nid);
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    if (this.loading) return;
+    const game = getGame();
+    const input = effectiveInput(event);
+
+    switch (input) {
+      case 'UP':
+      case 'DOWN':
+        if (this.songs.length > 0) {
+          const delta = input === 'UP' ? -1 : 1;
+          this.cursor = (this.cursor + delta + this.songs.length) % this.songs.length;
+          this.scroll = scrollToCursor(this.cursor, this.scroll, visibleRows(42));
+          game.audioManager?.playSfx?.('Select 6');
+        }
+        break;
+      case 'SELECT': {
+        const nid = this.songs[this.cursor];
+        if (!nid || !this.isUnlocked(nid)) {
+          game.audioManager?.playSfx?.('Error');
+          break;
+        }
+        // Push once so leaving restores the base music
+        if (this.playingNid === null) {
+          void game.audioManager?.pushMusic(nid);
+        } else {
+          void game.audioManager?.playMusic(nid);
+        }
+        this.playingNid = nid;
+        break;
+      }
+      case 'BACK':
+        game.audioManager?.playSfx?.('Select 4');
+        game.state.back();
+        break;
+    }
+  }
+
+  override finish(): void {
+    if (this.playingNid !== null) {
+      void getGame().audioManager?.popMusic();
+      this.playingNid = null;
+    }
+  }
+
+  override draw(surf: Surface): Surface {
+    const vw = viewport.width;
+    surf.fillRect(0, 0, vw, viewport.height, 'rgba(0,0,0,0.4)');
+
+    if (this.loading) {
+      surf.drawText('Loading...', 14, 46, DIM_COLOR, LIST_FONT);
+      return surf;
+    }
+
+    drawListPanel(surf, 'Sound Room', 8, 28, vw - 16, visibleRows(42), this.songs.length, this.cursor, this.scroll, (i, y) => {
+      const nid = this.songs[i];
+      const unlocked = this.isUnlocked(nid);
+      const color = nid === this.playingNid ? TITLE_COLOR : unlocked ? TEXT_COLOR : DIM_COLOR;
+      surf.drawText(`${String(i + 1).padStart(2, '0')}  ${unlocked ? nid : '???'}`, 14, y, color, LIST_FONT);
+    });
+    if (this.songs.length === 0) {
+      surf.drawText('No music found.', 14, 46, DIM_COLOR, LIST_FONT);
+    }
+
+    drawHints(surf, this.playingNid ? `Now playing: ${this.playingNid}` : 'SELECT: Play  |  B: Back');
+    return surf;
+  }
+}
+
+// ============================================================================
+// BaseAchievementsState — Persistent achievement list
+// ============================================================================
+
+export class BaseAchievementsState extends State {
+  readonly name = 'base_achievements';
+  override readonly transparent = true;
+  override readonly showMap = false;
+  override readonly inLevel = false;
+
+  private cursor: number = 0;
+  private scroll: number = 0;
+
+  override start(): StateResult {
+    this.cursor = 0;
+    this.scroll = 0;
+  }
+
+  /** List rows, leaving room for the description box. */
+  private listRows(): number {
+    return visibleRows(42) - 2;
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    const game = getGame();
+    const input = effectiveInput(event);
+    const count = ACHIEVEMENTS?.getAll().length ?? 0;
+
+    switch (input) {
+      case 'UP':
+      case 'DOWN':
+        if (count > 0) {
+          const delta = input === 'UP' ? -1 : 1;
+          this.cursor = (this.cursor + delta + count) % count;
+          this.scroll = scrollToCursor(this.cursor, this.scroll, this.listRows());
+          game.audioManager?.playSfx?.('Select 6');
+        }
+        break;
+      case 'BACK':
+        game.audioManager?.playSfx?.('Select 4');
+        game.state.back();
+        break;
+    }
+  }
+
+  override draw(surf: Surface): Surface {
+    const vw = viewport.width;
+    const vh = viewport.height;
+    surf.fillRect(0, 0, vw, vh, 'rgba(0,0,0,0.4)');
+
+    const all = ACHIEVEMENTS?.getAll() ?? [];
+    const done = all.filter((a) => a.complete).length;
+    const x = 8;
+    const w = vw - 16;
+    drawListPanel(surf, `Achievements  ${done}/${all.length}`, x, 28, w, this.listRows(), all.length, this.cursor, this.scroll, (i, y) => {
+      const a = all[i];
+      // Hidden achievements stay secret until completed
+      const name = a.hidden && !a.complete ? '???' : a.name;
+      surf.drawText(a.complete ? '*' : ' ', x + 4, y, TITLE_COLOR, LIST_FONT);
+      surf.drawText(name, x + 12, y, a.complete ? TEXT_COLOR : DIM_COLOR, LIST_FONT);
+    });
+
+    // Description of the highlighted achievement above the hint bar
+    const current = all[this.cursor];
+    if (current) {
+      const desc = current.hidden && !current.complete ? 'Hidden achievement.' : current.desc;
+      surf.fillRect(x, vh - 32, w, 14, PANEL_COLOR);
+      surf.drawText(desc, x + 4, vh - 28, TEXT_COLOR, '6px monospace');
+    }
+
+    drawHints(surf, 'B: Back');
+    return surf;
+  }
+}
+
 // ============================================================================
 // Event Command Handler — base-related event commands
 // ============================================================================
@@ -0,0 +1,363 @@
+/**
+ * bexp-state.ts -- BexpState, spending the party's bonus EXP.
+ *
+ * Opened from the base and preparations menus while the party has BEXP
+ * banked (see give_bexp / GiveBexpAction). Lists the party with level
+ * and EXP; after picking a unit and an amount, the EXP bar fills and a
+ * level-up screen is shown for every level gained. Level-ups roll with
+ * the `bexp_growth_mode` constant, falling back to the session growth
+ * mode. Each distribution can be undone until the screen is closed.
+ *   UP/DOWN    -- choose a unit; while choosing an amount, +/-10 EXP
+ *   LEFT/RIGHT -- while choosing an amount, +/-1 EXP
+ *   SELECT     -- choose the unit / confirm the amount
+ *   AUX        -- undo the last distribution
+ *   BACK       -- cancel the amount / return to the menu
+ */
+
+import { State, type StateResult } from '../state';
+import type { Surface } from '../surface';
+import type { InputEvent } from '../input';
+import { viewport } from '../viewport';
+import type { UnitObject } from '../../objects/unit';
+import { GainExpAction, GiveBexpAction } from '../action';
+import { ExpBar, LevelUpScreen } from '../../ui/exp-display';
+
+// ---------------------------------------------------------------------------
+// Lazy game reference
+// ---------------------------------------------------------------------------
+
+let _game: any = null;
+export function setBexpGameRef(g: any): void {
+  _game = g;
+}
+function getGame(): any {
+  if (!_game) throw new Error('Game reference not set for bexp state.');
+  return _game;
+}
+
+const ROW_HEIGHT = 12;
+const FONT = '7px monospace';
+/** Bar fill speed, matching combat EXP: one point per frame. */
+const EXP_PER_MS = 60 / 1000;
+/** Pause on a full bar before it closes. */
+const FULL_BAR_WAIT_MS = 500;
+
+/** Highest level the unit's class allows. */
+function getMaxLevel(unit: UnitObject): number {
+  return getGame().db.classes.get(unit.klass)?.max_level ?? 20;
+}
+
+/** Most EXP the unit can still take before hitting its level cap. */
+function getExpRoom(unit: UnitObject): number {
+  return Math.max(0, (getMaxLevel(unit) - unit.level) * 100 - unit.exp);
+}
+
+/** One confirmed distribution; reversed as a pair on undo. */
+interface BexpSpend {
+  give: GiveBexpAction;
+  gain: GainExpAction;
+}
+
+type BexpStep = 'units' | 'amount' | 'fill' | 'bar_out' | 'level_screen';
+
+export class BexpState extends State {
+  readonly name = 'bexp';
+  override readonly transparent = true;
+  override readonly showMap = false;
+  override readonly inLevel = false;
+
+  private units: UnitObject[] = [];
+  private cursor: number = 0;
+  private scroll: number = 0;
+  private step: BexpStep = 'units';
+  private amount: number = 0;
+  private history: BexpSpend[] = [];
+
+  // EXP animation
+  private expBar: ExpBar | null = null;
+  private levelUpScreen: LevelUpScreen | null = null;
+  private portraitImg: HTMLImageElement | null = null;
+  /** Shown EXP, counting past 100 for each level still to be shown. */
+  private shownExp: number = 0;
+  private targetExp: number = 0;
+  private levelUps: Record<string, number>[] = [];
+  private levelsShown: number = 0;
+  private startLevel: number = 0;
+  private waitMs: number = 0;
+
+  override start(): StateResult {
+    this.units = getGame().getUnitsInParty()
+      .sort((a: UnitObject, b: UnitObject) => a.name.localeCompare(b.name));
+    this.cursor = 0;
+    this.scroll = 0;
+    this.step = 'units';
+    this.history = [];
+  }
+
+  override finish(): void {
+    getGame().audioManager?.stopSfx?.('Experience Gain');
+    this.history = [];
+    this.expBar = null;
+    this.levelUpScreen = null;
+  }
+
+  private visibleRows(): number {
+    return Math.max(1, Math.floor((viewport.height - 80) / ROW_HEIGHT));
+  }
+
+  private growthMode(): string {
+    const game = getGame();
+    const mode = game.db.getConstant('bexp_growth_mode', '') as string;
+    return mode ? mode.toLowerCase() : game.getGrowthMode();
+  }
+
+  /** Largest amount the unit can take from the current pool. */
+  private maxAmount(unit: UnitObject): number {
+    return Math.min(getGame().getBexp(), getExpRoom(unit));
+  }
+
+  // -------------------------------------------------------------------------
+  // Input
+  // -------------------------------------------------------------------------
+
+  override takeInput(event: InputEvent): StateResult {
+    const game = getGame();
+    let effective = event;
+    if (game.input?.mouseClick === 'SELECT' && !effective) effective = 'SELECT';
+    else if (game.input?.mouseClick === 'BACK' && !effective) effective = 'BACK';
+
+    if (this.step === 'units') {
+      this.takeUnitInput(effective);
+    } else if (this.step === 'amount') {
+      this.takeAmountInput(effective);
+    }
+  }
+
+  private takeUnitInput(event: InputEvent): void {
+    const game = getGame();
+    switch (event) {
+      case 'UP':
+      case 'DOWN': {
+        if (this.units.length === 0) break;
+        const delta = event === 'UP' ? -1 : 1;
+        this.cursor = (this.cursor + delta + this.units.length) % this.units.length;
+        const visible = this.visibleRows();
+        if (this.cursor < this.scroll) this.scroll = this.cursor;
+        if (this.cursor >= this.scroll + visible) this.scroll = this.cursor - visible + 1;
+        game.audioManager?.playSfx?.('Select 6');
+        break;
+      }
+      case 'SELECT': {
+        const unit = this.units[this.cursor];
+        if (!unit || this.maxAmount(unit) <= 0) {
+          game.audioManager?.playSfx?.('Error');
+          break;
+        }
+        // Default to just enough for the next level
+        this.amount = Math.min(100 - unit.exp, this.maxAmount(unit));
+        this.step = 'amount';
+        game.audioManager?.playSfx?.('Select 1');
+        break;
+      }
+      case 'AUX':
+        this.undo();
+        break;
+      case 'BACK':
+        game.audioManager?.playSfx?.('Select 4');
+        game.state.back();
+        break;
+    }
+  }
+
+  private takeAmountInput(event: InputEvent): void {
+    const game = getGame();
+    const unit = this.units[this.cursor];
+    const max = this.maxAmount(unit);
+    const deltas: Partial<Record<string, number>> = { UP: 10, DOWN: -10, RIGHT: 1, LEFT: -1 };
+
+    if (event && deltas[event] !== undefined) {
+      const next = Math.max(1, Math.min(max, this.amount + deltas[event]!));
+      if (next !== this.amount) {
+        this.amount = next;
+        game.audioManager?.playSfx?.('Select 6');
+      }
+    } else if (event === 'SELECT') {
+      this.spend(unit, this.amount);
+    } else if (event === 'BACK') {
+      game.audioManager?.playSfx?.('Select 4');
+      this.step = 'units';
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Spending / undo
+  // -------------------------------------------------------------------------
+
+  private spend(unit: UnitObject, amount: number): void {
+    const game = getGame();
+    const oldExp = unit.exp;
+    this.startLevel = unit.level;
+
+    const give = new GiveBexpAction(-amount);
+    const gain = new GainExpAction(unit, amount, this.growthMode());
+    game.actionLog.doAction(give);
+    game.actionLog.doAction(gain);
+    this.history.push({ give, gain });
+
+    this.levelUps = gain.getLevelUps();
+    this.levelsShown = 0;
+    this.shownExp = oldExp;
+    this.targetExp = oldExp + amount;
+    this.waitMs = 0;
+    this.expBar = new ExpBar(oldExp);
+    this.step = 'fill';
+    game.audioManager?.playSfxLoop?.('Experience Gain');
+
+    this.portraitImg = null;
+    if (this.levelUps.length > 0) {
+      game.resources?.loadPortrait?.(unit.portraitNid || unit.nid)?.then?.((img: HTMLImageElement) => {
+        this.portraitImg = img;
+      });
+    }
+  }
+
+  /** Reverse the most recent distribution, returning its BEXP to the pool. */
+  private undo(): void {
+    const game = getGame();
+    const last = this.history.pop();
+    if (!last) {
+      game.audioManager?.playSfx?.('Error');
+      return;
+    }
+    // hardRemove reverses both actions when they were logged; otherwise
+    // (recording paused) reverse them here.
+    const logged = game.actionLog.getLength();
+    game.actionLog.hardRemove(last.give);
+    if (game.actionLog.getLength() === logged) {
+      last.gain.reverse();
+      last.give.reverse();
+    }
+    game.audioManager?.playSfx?.('Select 4');
+  }
+
+  // -------------------------------------------------------------------------
+  // Animation
+  // -------------------------------------------------------------------------
+
+  override update(): StateResult {
+    const game = getGame();
+    const delta = game.frameDeltaMs ?? 16;
+
+    switch (this.step) {
+      case 'fill': {
+        const levelPending = this.levelsShown < this.levelUps.length;
+        const stop = levelPending ? 100 : this.targetExp;
+        this.shownExp = Math.min(stop, this.shownExp + delta * EXP_PER_MS);
+        this.expBar?.update(this.shownExp);
+        if (this.shownExp >= stop) {
+          game.audioManager?.stopSfx?.('Experience Gain');
+          this.waitMs += delta;
+          if (this.waitMs >= FULL_BAR_WAIT_MS) {
+            this.expBar?.fadeOut();
+            this.step = 'bar_out';
+          }
+        }
+        break;
+      }
+      case 'bar_out': {
+        if (this.expBar && !this.expBar.update()) break;
+        this.expBar = null;
+        if (this.levelsShown < this.levelUps.length) {
+          const unit = this.units[this.cursor];
+          const level = this.startLevel + this.levelsShown;
+          game.audioManager?.playSfx?.('Level Up');
+          this.levelUpScreen = new LevelUpScreen(
+            unit,
+            this.levelUps[this.levelsShown],
+            level,
+            level + 1,
+            game.db.stats ?? [],
+            game.audioManager,
+            this.portraitImg,
+          );
+          this.step = 'level_screen';
+        } else {
+          this.step = 'units';
+        }
+        break;
+      }
+      case 'level_screen': {
+        if (this.levelUpScreen && !this.levelUpScreen.update(performance.now())) break;
+        this.levelUpScreen = null;
+        this.levelsShown++;
+        // Carry the rest of the EXP over into the next bar
+        this.shownExp = 0;
+        this.targetExp -= 100;
+        this.waitMs = 0;
+        if (this.targetExp > 0) {
+          this.expBar = new ExpBar(0);
+          this.step = 'fill';
+          game.audioManager?.playSfxLoop?.('Experience Gain');
+        } else {
+          this.step = 'units';
+        }
+        break;
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Drawing
+  // -------------------------------------------------------------------------
+
+  override draw(surf: Surface): Surface {
+    const game = getGame();
+    const vw = viewport.width;
+    const vh = viewport.height;
+    surf.fillRect(0, 0, vw, vh, 'rgba(0,0,0,0.4)');
+
+    // Header with the remaining pool
+    surf.fillRect(8, 24, vw - 16, 14, 'rgba(16,16,48,0.9)');
+    surf.drawText('Bonus EXP', 12, 27, 'rgba(220,200,128,1)', FONT);
+    const poolText = `Pool: ${game.getBexp()}`;
+    surf.drawText(poolText, vw - 12 - poolText.length * 4, 27, 'white', FONT);
+
+    // Unit list
+    const visible = this.visibleRows();
+    const listY = 38;
+    surf.fillRect(8, listY, vw - 16, visible * ROW_HEIGHT + 4, 'rgba(16,16,48,0.9)');
+    const end = Math.min(this.units.length, this.scroll + visible);
+    for (let i = this.scroll; i < end; i++) {
+      const unit = this.units[i];
+      const y = listY + 2 + (i - this.scroll) * ROW_HEIGHT;
+      if (i === this.cursor) {
+        surf.fillRect(9, y, vw - 18, ROW_HEIGHT, 'rgba(80,80,140,0.7)');
+      }
+      const maxed = getExpRoom(unit) <= 0;
+      const color = maxed ? 'rgba(128,128,160,1)' : 'white';
+      surf.drawText(unit.name, 14, y + 2, color, FONT);
+      surf.drawText(`Lv ${unit.level}`, vw - 90, y + 2, color, FONT);
+      surf.drawText(maxed ? 'Exp --' : `Exp ${unit.exp}`, vw - 56, y + 2, color, FONT);
+    }
+
+    // Amount picker beside the highlighted unit
+    if (this.step === 'amount') {
+      const unit = this.units[this.cursor];
+      const y = listY + 2 + (this.cursor - this.scroll) * ROW_HEIGHT;
+      const levels = Math.floor((unit.exp + this.amount) / 100);
+      const text = levels > 0 ? `< +${this.amount} (Lv +${levels}) >` : `< +${this.amount} >`;
+      const w = text.length * 4 + 8;
+      surf.fillRect(vw - 100 - w, y, w, ROW_HEIGHT, 'rgba(48,48,112,0.95)');
+      surf.drawText(text, vw - 96 - w, y + 2, 'rgba(248,216,96,1)', FONT);
+    }
+
+    let hints = 'SELECT: Choose unit  |  AUX: Undo  |  B: Back';
+    if (this.step === 'amount') hints = 'LEFT/RIGHT: 1  UP/DOWN: 10  |  SELECT: Give';
+    surf.fillRect(0, vh - 16, vw, 16, 'rgba(16,16,48,0.8)');
+    surf.drawText(hints, 4, vh - 12, 'rgba(140,140,180,0.8)', '6px monospace');
+
+    this.expBar?.draw(surf);
+    this.levelUpScreen?.draw(surf, performance.now());
+    return surf;
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * difficulty-state.ts -- DifficultySelectState for choosing a difficulty at New Game.
+ *
+ * Mirrors LT's title_mode / title_permadeath / title_growths flow:
+ *   1. Pick a difficulty mode from the DB (modes with `start_locked` stay
+ *      disabled until unlocked via the `unlock_difficulty` event command).
+ *   2. If the mode's permadeath_choice is "Player Choice", pick Casual/Classic.
+ *   3. If the mode's growths_choice is "Player Choice", pick Random/Fixed/Dynamic.
+ *
+ * The resulting DifficultyModeObject is installed on game.currentMode before
+ * moving on to level selection.
+ */
+
+import { State, type StateResult } from '../state';
+import type { Surface } from '../surface';
+import type { InputEvent } from '../input';
+import { viewport } from '../viewport';
+import { ChoiceMenu, type MenuOption } from '../../ui/menu';
+import type { DifficultyMode } from '../../data/types';
+import { DifficultyModeObject } from '../difficulty';
+import { RECORDS } from '../records';
+
+// ---------------------------------------------------------------------------
+// Lazy game reference
+// ---------------------------------------------------------------------------
+
+let _game: any = null;
+export function setDifficultyGameRef(g: any): void {
+  _game = g;
+}
+function getGame(): any {
+  if (!_game) throw new Error('Game reference not set for difficulty state.');
+  return _game;
+}
+
+/** LT's marker for settings the player picks instead of the mode. */
+const PLAYER_CHOICE = 'Player Choice';
+
+const GROWTH_OPTIONS: { value: string; label: string; description: string }[] = [
+  { value: 'Random', label: 'Random', description: 'Stats grow randomly based on growth rates.' },
+  { value: 'Fixed', label: 'Fixed', description: 'Stats grow at fixed intervals set by growth rates.' },
+  { value: 'Dynamic', label: 'Dynamic', description: 'Random growths that correct bad luck over time.' },
+];
+
+/**
+ * Whether a difficulty mode can be picked right now.
+ * Modes that start locked must be unlocked in persistent records.
+ */
+export function isDifficultyUnlocked(mode: DifficultyMode): boolean {
+  if (!mode.start_locked) return true;
+  return !!RECORDS?.checkDifficultyUnlocked(mode.nid);
+}
+
+/**
+ * Whether New Game needs to show the difficulty picker at all.
+ * Skipped when there is a single mode with nothing left for the player to choose.
+ */
+export function needsDifficultySelect(modes: DifficultyMode[]): boolean {
+  if (modes.length > 1) return true;
+  const only = modes[0];
+  if (!only) return false;
+  return only.permadeath_choice === PLAYER_CHOICE || only.growths_choice === PLAYER_CHOICE;
+}
+
+type DifficultyStep = 'mode' | 'permadeath' | 'growths';
+
+// ---------------------------------------------------------------------------
+// DifficultySelectState
+// ---------------------------------------------------------------------------
+
+export class DifficultySelectState extends State {
+  readonly name = 'difficulty_select';
+  override readonly showMap = false;
+  override readonly inLevel = false;
+
+  private step: DifficultyStep = 'mode';
+  private menu: ChoiceMenu | null = null;
+  private modes: DifficultyMode[] = [];
+  private selectedMode: DifficultyMode | null = null;
+  private permadeath: boolean = false;
+
+  override begin(): StateResult {
+    const game = getGame();
+    this.modes = game.db.difficultyModes ?? [];
+    this.selectedMode = null;
+    this.permadeath = false;
+
+    if (this.modes.length === 0) {
+      // Nothing to choose from -- let initDifficulty() handle defaults
+      game.state.change('level_select');
+      return;
+    }
+    this.showModes();
+  }
+
+  private showModes(): void {
+    this.step = 'mode';
+    const options: MenuOption[] = this.modes.map((mode) => {
+      const unlocked = isDifficultyUnlocked(mode);
+      return {
+        label: unlocked ? mode.name : '???',
+        value: mode.nid,
+        enabled: unlocked,
+        description: unlocked ? this.describeMode(mode) : 'Locked.',
+      };
+    });
+    this.menu = new ChoiceMenu(options, 24, 32);
+    // Keep the previously chosen mode highlighted when backing out of a sub-step
+    if (this.selectedMode) {
+      const idx = this.modes.indexOf(this.selectedMode);
+      if (idx >= 0) this.menu.selectedIndex = idx;
+    }
+  }
+
+  private showPermadeath(): void {
+    this.step = 'permadeath';
+    this.menu = new ChoiceMenu([
+      { label: 'Casual', value: 'casual', enabled: true, description: 'Fallen units return after each chapter.' },
+      { label: 'Classic', value: 'classic', enabled: true, description: 'Fallen units are lost forever.' },
+    ], 24, 32);
+  }
+
+  private showGrowths(): void {
+    this.step = 'growths';
+    this.menu = new ChoiceMenu(
+      GROWTH_OPTIONS.map((g) => ({ label: g.label, value: g.value, enabled: true, description: g.description })),
+      24, 32,
+    );
+  }
+
+  private describeMode(mode: DifficultyMode): string {
+    const permadeath = mode.permadeath_choice === PLAYER_CHOICE
+      ? 'Choose'
+      : mode.permadeath_choice;
+    const growths = mode.growths_choice === PLAYER_CHOICE ? 'Choose' : mode.growths_choice;
+    return `${permadeath} / ${growths} growths / ${mode.rng_choice}`;
+  }
+
+  /** Advance past the permadeath step (or skip it if the mode fixes it). */
+  private afterMode(): void {
+    const mode = this.selectedMode!;
+    if (mode.permadeath_choice === PLAYER_CHOICE) {
+      this.showPermadeath();
+    } else {
+      this.permadeath = mode.permadeath_choice === 'Classic';
+      this.afterPermadeath();
+    }
+  }
+
+  private afterPermadeath(): void {
+    const mode = this.selectedMode!;
+    if (mode.growths_choice === PLAYER_CHOICE) {
+      this.showGrowths();
+    } else {
+      this.finishSelection(mode.growths_choice);
+    }
+  }
+
+  private finishSelection(growths: string): void {
+    const game = getGame();
+    const mode = this.selectedMode!;
+    game.currentMode = DifficultyModeObject.fromPrefab(mode, {
+      permadeath: this.permadeath,
+      growths,
+    });
+    this.menu = null;
+    game.state.change('level_select');
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    if (!this.menu) return;
+    const game = getGame();
+
+    let result: { selected: string } | { back: true } | null = null;
+    if (game.input?.mouseClick) {
+      const [gx, gy] = game.input.getGameMousePos();
+      result = this.menu.handleClick(gx, gy, game.input.mouseClick as 'SELECT' | 'BACK');
+    }
+    if (game.input?.mouseMoved) {
+      const [gx, gy] = game.input.getGameMousePos();
+      this.menu.handleMouseHover(gx, gy);
+    }
+    if (!result && event !== null) {
+      result = this.menu.handleInput(event);
+    }
+    if (!result) return;
+
+    if ('back' in result) {
+      if (this.step === 'mode') {
+        this.menu = null;
+        game.state.back();
+      } else if (this.step === 'growths' && this.selectedMode?.permadeath_choice === PLAYER_CHOICE) {
+        this.showPermadeath();
+      } else {
+        this.showModes();
+      }
+      return;
+    }
+
+    const value = result.selected;
+    switch (this.step) {
+      case 'mode':
+        this.selectedMode = this.modes.find((m) => m.nid === value) ?? null;
+        if (this.selectedMode) this.afterMode();
+        break;
+      case 'permadeath':
+        this.permadeath = value === 'classic';
+        this.afterPermadeath();
+        break;
+      case 'growths':
+        this.finishSelection(value);
+        break;
+    }
+  }
+
+  override draw(surf: Surface): Surface {
+    surf.fill(16, 16, 32);
+
+    const vw = viewport.width;
+    const vh = viewport.height;
+    const title = this.step === 'mode'
+      ? 'Select Difficulty'
+      : this.step === 'permadeath'
+        ? 'Select Mode'
+        : 'Select Growths';
+    const titleW = title.length * 7;
+    surf.drawText(title, Math.floor((vw - titleW) / 2), 10, 'white', '12px monospace');
+
+    if (this.menu) {
+      this.menu.draw(surf);
+
+      // Description of the highlighted option along the bottom
+      const desc = this.menu.getCurrentOption()?.description ?? '';
+      if (desc) {
+        surf.fillRect(0, vh - 20, vw, 20, 'rgba(0,0,0,0.6)');
+        surf.drawText(desc, 8, vh - 14, 'rgb(200,200,220)', '8px monospace');
+      }
+
+      // Chosen mode name in its DB color while picking sub-options
+      if (this.step !== 'mode' && this.selectedMode) {
+        surf.drawText(
+          this.selectedMode.name,
+          Math.floor(vw / 2),
+          36,
+          this.selectedMode.color || 'white',
+          '10px monospace',
+        );
+      }
+    }
+
+    return surf;
+  }
+
+  override end(): StateResult {
+    this.menu = null;
+  }
+}
@@ -32,28 +32,65 @@ import {
   MarkPhase,
   LockTurnwheel,
   MessageAction,
-  PromoteAction,
-  ClassChangeAction,
+  SetSkillChargeAction,
+  ActivateCombatArtAction,
+  EndCombatArtsAction,
+  AddSkillAction,
+  RemoveSkillAction,
+  SetSkillTurnsAction,
+  DamageAction,
+  HealAction,
+  MoveAction,
+  RescueAction,
+  DropAction,
+  DeathAction,
+  ArriveAction,
+  SyncAurasAction,
 } from '../action';
+import {
+  combatArts,
+  activeCombatArtSkills,
+  maxCharge,
+  currentCharge,
+  isCharged,
+  chargeTriggers,
+  turnsRemaining,
+  upkeepHpChange,
+  statusesOnHit,
+  statusesAfterCombat,
+  type ChargeTrigger,
+} from '../../combat/skill-system';
+import { statusOnHit, statusAfterCombat, mapCastAnim } from '../../combat/item-system';
+import type { CombatStrike } from '../../combat/combat-solver';
 
 import { ChoiceMenu, type MenuOption } from '../../ui/menu';
 export { InfoMenuState, setInfoMenuGameRef } from './info-menu-state';
 import { Banner } from '../../ui/banner';
+import { drawSkillBanners } from '../../ui/skill-banner';
 import { Dialog } from '../../ui/dialog';
 import { ExpBar as ExpBarClass, LevelUpScreen as LevelUpScreenClass } from '../../ui/exp-display';
 import { EventPortrait } from '../../events/event-portrait';
 import { parseScreenPosition } from '../../events/screen-positions';
 import { MapCombat, type CombatResults } from '../../combat/map-combat';
 import { MapAnimation } from '../../rendering/map-animation';
+import { MovementArrow } from '../../rendering/movement-arrow';
+import { getUnitMapIcons, type UnitMapIcons } from '../../rendering/unit-renderer';
 import type { FogRenderConfig } from '../../rendering/map-view';
 import { drawItemIcon } from '../../ui/icons';
 import { AnimationCombat, type AnimationCombatRenderState, type AnimationCombatOwner } from '../../combat/animation-combat';
 import { BattleAnimation as RealBattleAnimation, type BattleAnimDrawData } from '../../combat/battle-animation';
 import { getEquippedWeapon, isMagic } from '../../combat/combat-calcs';
+import { getCombatForecast, getAoeForecast } from '../../combat/combat-forecast';
+import { drawCombatForecast, drawAoeForecast, COMBAT_FORECAST_WIDTH } from '../../ui/combat-forecast';
+import { isAoe, getAoeTiles, getAoeTargets, getAoeAimTiles, getBestAoeAim } from '../../combat/aoe';
+import { AoeCombat } from '../../combat/aoe-combat';
 import { loadBattlePlatforms, loadAndConvertWeaponAnim, selectPalette, selectWeaponAnim } from '../../combat/sprite-loader';
 import { handleBaseEventCommand } from './base-state';
 import { RECORDS, ACHIEVEMENTS } from '../records';
 import { saveGame as doSaveGame, suspendGame as doSuspendGame, hasSuspend, loadSaveSlots } from '../save';
+import { needsDifficultySelect } from './difficulty-state';
+import { canAccessConvoy } from './supply-state';
+import { applyClassChoice, getItemClassChoices, type ClassChoiceRequest } from './promotion-state';
 
 // ---------------------------------------------------------------------------
 // Lazy game reference — set once at bootstrap to break circular deps.
@@ -121,11 +158,14 @@ function collectVisibleUnits(): {
   finished: boolean;
   currentHp: number;
   maxHp: number;
+  icons: UnitMapIcons | null;
 }[] {
   const game = getGame();
   if (!game.board) return [];
   const allUnits: UnitObject[] = game.board.getAllUnits();
   const currentTeam = game.phase.getCurrent();
+  // 'Unit Icons' setting; on unless switched off
+  const showIcons = game.gameVars.get('_setting_unit_icons') !== 'OFF';
   const result: {
     x: number;
     y: number;
@@ -136,6 +176,7 @@ function collectVisibleUnits(): {
     finished: boolean;
     currentHp: number;
     maxHp: number;
+    icons: UnitMapIcons | null;
   }[] = [];
 
   for (const u of allUnits) {
@@ -189,13 +230,14 @@ function collectVisibleUnits(): {
       finished: u.finished && u.team === currentTeam,
       currentHp: u.currentHp,
       maxHp: u.maxHp,
+      icons: showIcons ? getUnitMapIcons(u) : null,
     });
   }
   return result;
 }
 
 /** Render the map through MapView and blit onto `surf`. */
-function drawMap(surf: Surface, showHighlights: boolean = true): Surface {
+export function drawMap(surf: Surface, showHighlights: boolean = true, arrow: MovementArrow | null = null): Surface {
   const game = getGame();
   if (!game.board || !game.tilemap) return surf; // No level loaded
   game.camera.update();
@@ -206,6 +248,9 @@ function drawMap(surf: Surface, showHighlights: boolean = true): Surface {
   const highlights: Map<string, string> | null = showHighlights
     ? game.highlight.getHighlights()
     : null;
+  const auraTiles: Set<string> | null = showHighlights
+    ? game.highlight.getAuraHighlights()
+    : null;
 
   const cursorInfo = {
     x: game.cursor.getHover().x,
@@ -237,6 +282,8 @@ function drawMap(surf: Surface, showHighlights: boolean = true): Surface {
     false, // showGrid
     surf.scale,
     fogConfig,
+    arrow,
+    auraTiles,
   );
 
   surf.blit(mapSurf);
@@ -269,6 +316,19 @@ function getTargetsInRange(
   const game = getGame();
   const weapon = getEquippedWeapon(unit);
   if (!weapon) return [];
+
+  // Area weapons reach every enemy some aimable tile's area catches
+  // (aimed from the unit's current position)
+  if (isAoe(weapon)) {
+    const caught = new Set<UnitObject>();
+    for (const aim of getAoeAimTiles(unit, weapon, getBoard(), game.db)) {
+      for (const other of getAoeTargets(unit, weapon, aim, getBoard(), game.db)) {
+        if (!game.db.areAllied(unit.team, other.team)) caught.add(other);
+      }
+    }
+    return [...caught];
+  }
+
   const minRange = weapon.getMinRange();
   const maxRange = weapon.getMaxRange();
   const allUnits: UnitObject[] = getBoard().getAllUnits();
@@ -633,7 +693,13 @@ export class TitleMainState extends State {
     } else if (event === 'SELECT' || game.input?.mouseClick === 'SELECT') {
       const selected = this.options[this.cursor];
       if (selected === 'New Game') {
-        game.state.change('level_select');
+        // Fresh run: drop any mode left over from a previous session
+        game.currentMode = null;
+        if (needsDifficultySelect(game.db.difficultyModes)) {
+          game.state.change('difficulty_select');
+        } else {
+          game.state.change('level_select');
+        }
       } else if (selected === 'Continue') {
         // Load the most recent save (highest realtime)
         game.state.change('load_menu');
@@ -817,6 +883,7 @@ export class LevelSelectState extends State {
     const game = getGame();
 
     this.loading = true;
+    game.initRandomSeed();
 
     // Load the level, then clear the stack and start gameplay.
     // Keep LevelSelectState on the stack during loading so the
@@ -862,6 +929,11 @@ export class OptionMenuState extends State {
       options.push({ label: 'Turnwheel', value: 'turnwheel', enabled: true });
     }
     options.push({ label: 'Minimap', value: 'minimap', enabled: hasMinimap });
+    options.push({
+      label: game.dangerZone.enabled ? 'Hide Danger' : 'Danger Zone',
+      value: 'danger_zone',
+      enabled: hasMinimap,
+    });
     options.push({ label: 'Save', value: 'save', enabled: true });
     options.push({ label: 'Suspend', value: 'suspend', enabled: true });
     options.push({ label: 'Options', value: 'options', enabled: true });
@@ -930,6 +1002,12 @@ export class OptionMenuState extends State {
           game.state.change('minimap');
           break;
         }
+        case 'danger_zone': {
+          game.dangerZone.toggle();
+          this.menu = null;
+          game.state.back();
+          break;
+        }
         case 'save': {
           this.menu = null;
           game.state.back();
@@ -973,12 +1051,17 @@ export class OptionMenuState extends State {
 export class FreeState extends MapState {
   readonly name = 'free';
 
+  /** Danger zone tiles last copied into the highlights. */
+  private shownDangerZone: [number, number][] | null = null;
+
   override begin(): StateResult {
     const game = getGame();
     const board = getBoard();
 
     // Clear any stale highlights from previous states (matching Python's FreeState.begin)
     game.highlight.clear();
+    this.shownDangerZone = null;
+    this.refreshDangerZone();
 
     // Check for free roam mode
     const roamInfo = game.roamInfo;
@@ -1062,23 +1145,11 @@ export class FreeState extends MapState {
           game.selectedUnit = unit;
           game.state.change('move');
         } else if (unit && unit.team !== 'player' && unit.position) {
-          // SELECT on enemy: toggle individual enemy range display
-          const key = `${unit.position[0]},${unit.position[1]}`;
-          const existing = game.highlight.getHighlights().get(key);
-          if (existing === 'selected') {
-            game.highlight.clearType('selected');
-            game.highlight.clearType('move');
-            game.highlight.clearType('attack');
-          } else {
-            game.highlight.clearType('selected');
-            game.highlight.clearType('move');
-            game.highlight.clearType('attack');
-            const validMoves = game.pathSystem!.getValidMoves(unit, game.board);
-            const attackPos = game.pathSystem!.getAttackPositions(unit, game.board, validMoves);
-            game.highlight.setMoveHighlights(validMoves);
-            game.highlight.setAttackHighlights(attackPos);
-            game.highlight.addHighlight(unit.position[0], unit.position[1], 'selected');
-          }
+          // SELECT on enemy: mark / unmark it; marked enemies restrict
+          // the danger zone to their combined threat
+          game.dangerZone.toggleMark(unit.nid);
+          game.audioManager?.playSfx?.('Select 3');
+          this.refreshDangerZone();
         } else {
           // No actionable unit — open option menu
           game.state.change('option_menu');
@@ -1095,12 +1166,9 @@ export class FreeState extends MapState {
       case 'INFO': {
         const unit = getUnitUnderCursor();
         if (!unit) {
-          // Empty tile: toggle ALL enemy threat zone overlay
-          if (game.highlight.hasType('threat')) {
-            game.highlight.clearType('threat');
-          } else {
-            this.showAllEnemyThreat(game);
-          }
+          // Empty tile: toggle the danger zone
+          game.dangerZone.toggle();
+          this.refreshDangerZone();
         } else {
           // Any unit: open info menu
           game.infoMenuUnit = unit;
@@ -1136,9 +1204,9 @@ export class FreeState extends MapState {
       }
 
       case 'START':
-        // In initiative mode, START toggles the initiative bar display
+        // In initiative mode, START opens the scrollable initiative bar
         if (game.initiative) {
-          game.initiative.toggleDraw();
+          game.state.change('initiative_bar');
         } else {
           game.state.change('option_menu');
         }
@@ -1163,6 +1231,9 @@ export class FreeState extends MapState {
     const [tDef, tAvo] = getTerrainBonuses(terrainDef, game.db);
     game.hud.setHover(unit, terrainDef?.name ?? '', tDef, tAvo);
 
+    // Pick up board changes (and marked enemies dying) in the danger zone
+    this.refreshDangerZone();
+
     // Auto end-turn logic
     if (game.initiative) {
       // Initiative mode: auto-end when the current initiative unit is finished
@@ -1194,50 +1265,27 @@ export class FreeState extends MapState {
   }
 
   /**
-   * Compute and display the union of all enemy units' attack ranges.
-   * This iterates every enemy unit, computes their valid moves and
-   * attack positions, and combines them into a single 'threat' overlay.
+   * Show the danger zone as 'threat' highlights, with the marked enemies
+   * highlighted as 'selected'. DangerZone only recomputes the tiles
+   * after the board or action log changes, so this is cheap to call
+   * every frame.
    */
-  private showAllEnemyThreat(game: any): void {
-    const board = game.board;
-    const pathSystem = game.pathSystem;
-    if (!board || !pathSystem) return;
-
-    const allThreatPositions = new Set<string>();
-
-    // Gather all teams that are hostile to the player
-    const enemyTeams = ['enemy', 'enemy2'];
-    for (const team of enemyTeams) {
-      const enemies: UnitObject[] = board.getTeamUnits(team);
-      for (const enemy of enemies) {
-        if (!enemy.position || enemy.isDead()) continue;
-
-        try {
-          const validMoves = pathSystem.getValidMoves(enemy, board);
-          const attackPos = pathSystem.getAttackPositions(enemy, board, validMoves);
-
-          // Both move positions (they can attack from there) and attack positions are threats
-          for (const [x, y] of validMoves) {
-            allThreatPositions.add(`${x},${y}`);
-          }
-          for (const [x, y] of attackPos) {
-            allThreatPositions.add(`${x},${y}`);
-          }
-        } catch (e) {
-          // Skip units that fail (e.g. missing movement group data)
-          continue;
-        }
-      }
+  private refreshDangerZone(): void {
+    const game = getGame();
+    game.highlight.clearType('selected');
+    if (!game.dangerZone.isVisible()) {
+      game.highlight.clearType('threat');
+      this.shownDangerZone = null;
+      return;
     }
-
-    // Convert to position array
-    const positions: [number, number][] = [];
-    for (const key of allThreatPositions) {
-      const [x, y] = key.split(',').map(Number);
-      positions.push([x, y]);
+    const positions: [number, number][] = game.dangerZone.getPositions(game);
+    if (positions !== this.shownDangerZone) {
+      game.highlight.setThreatHighlights(positions);
+      this.shownDangerZone = positions;
+    }
+    for (const unit of game.dangerZone.getMarkedUnits(game) as UnitObject[]) {
+      game.highlight.addHighlight(unit.position![0], unit.position![1], 'selected');
     }
-
-    game.highlight.setThreatHighlights(positions);
   }
 }
 
@@ -1251,6 +1299,8 @@ export class MoveState extends MapState {
   private validMoves: [number, number][] = [];
   private attackPositions: [number, number][] = [];
   private previousPosition: [number, number] | null = null;
+  /** Route the unit will take; bent by walking the cursor through tiles. */
+  private arrow: MovementArrow = new MovementArrow();
 
   override begin(): StateResult {
     const game = getGame();
@@ -1273,6 +1323,7 @@ export class MoveState extends MapState {
     this.previousPosition = [unit.position[0], unit.position[1]];
     // Save origin so MenuState can undo the move
     game._moveOrigin = [unit.position[0], unit.position[1]];
+    game.memory.delete('move_action');
 
     // Compute valid moves + attack positions
     this.validMoves = game.pathSystem.getValidMoves(unit, game.board);
@@ -1286,6 +1337,44 @@ export class MoveState extends MapState {
     game.highlight.clear();
     game.highlight.setMoveHighlights(this.validMoves);
     game.highlight.setAttackHighlights(this.attackPositions);
+    game.highlight.setAuraHighlights(game.auras.getAuraPositions(unit, game.board));
+
+    this.arrow.setPath([this.previousPosition]);
+    this.followCursor();
+  }
+
+  override update(): StateResult {
+    this.followCursor();
+  }
+
+  /**
+   * Keep the arrow ending under the cursor. Stepping onto a tile next to
+   * the arrow's end extends the route through it while movement allows;
+   * stepping back onto the route trims it. Anything else (mouse jumps,
+   * running out of movement) falls back to the shortest path.
+   */
+  private followCursor(): void {
+    const game = getGame();
+    const unit: UnitObject = game.selectedUnit;
+    if (!unit || !this.previousPosition) return;
+    const pos = game.cursor.getHover();
+    if (this.arrow.endsAt(pos.x, pos.y)) return;
+
+    const idx = this.arrow.indexOf(pos.x, pos.y);
+    if (idx >= 0) {
+      this.arrow.setPath(this.arrow.getPath().slice(0, idx + 1));
+      return;
+    }
+    const extended = game.pathSystem.extendPath(unit, this.arrow.getPath(), pos.x, pos.y, game.board);
+    if (extended) {
+      this.arrow.setPath(extended);
+      return;
+    }
+    const isValid = this.validMoves.some(([x, y]) => x === pos.x && y === pos.y);
+    if (isValid) {
+      const path = game.pathSystem.getPath(unit, pos.x, pos.y, game.board);
+      if (path) this.arrow.setPath(path);
+    }
   }
 
   override takeInput(event: InputEvent): StateResult {
@@ -1319,17 +1408,16 @@ export class MoveState extends MapState {
         if (isValid) {
           const unit: UnitObject = game.selectedUnit;
 
-          // Compute path from the unit's current position (before moving on the board)
-          const path = game.pathSystem.getPath(
-            unit,
-            pos.x,
-            pos.y,
-            game.board,
-          );
+          // Walk the route shown by the arrow; compute one if it ends
+          // elsewhere (e.g. a click that landed before the arrow caught up)
+          const path = this.arrow.endsAt(pos.x, pos.y)
+            ? this.arrow.getPath()
+            : game.pathSystem.getPath(unit, pos.x, pos.y, game.board);
 
-          // Move unit on the board
-          game.board.moveUnit(unit, pos.x, pos.y);
-          unit.hasMoved = true;
+          // Move unit on the board; MenuState undoes this action on cancel
+          const move = new MoveAction(unit, [unit.position![0], unit.position![1]], [pos.x, pos.y], game.board);
+          game.actionLog.doAction(move);
+          game.memory.set('move_action', move);
 
           // Check if this movement triggers AI group activation
           if (game.aiController && unit.team === 'player') {
@@ -1363,39 +1451,12 @@ export class MoveState extends MapState {
   override draw(surf: Surface): Surface {
     const game = getGame();
     game.highlight.update();
-    surf = drawMap(surf, true);
 
-    // Draw path preview from unit to cursor
-    const unit: UnitObject = game.selectedUnit;
-    if (unit && unit.position) {
-      const cursorPos = game.cursor.getHover();
-      const isValid = this.validMoves.some(
-        ([x, y]) => x === cursorPos.x && y === cursorPos.y,
-      );
-      if (isValid) {
-        const cameraOffset = game.camera.getOffset();
-        const path = game.pathSystem.getPath(
-          unit,
-          cursorPos.x,
-          cursorPos.y,
-          game.board,
-        );
-        if (path && path.length > 1) {
-          for (const [px, py] of path) {
-            const screenX = px * TILEWIDTH - cameraOffset[0];
-            const screenY = py * TILEHEIGHT - cameraOffset[1];
-            surf.fillRect(
-              screenX + 4,
-              screenY + 4,
-              TILEWIDTH - 8,
-              TILEHEIGHT - 8,
-              'rgba(255,255,255,0.35)',
-            );
-          }
-        }
-      }
-    }
-    return surf;
+    // Movement arrow from the unit to the cursor, hidden while the
+    // cursor is somewhere the route cannot reach
+    const cursorPos = game.cursor.getHover();
+    const showArrow = this.arrow.endsAt(cursorPos.x, cursorPos.y);
+    return drawMap(surf, true, showArrow ? this.arrow : null);
   }
 
   override end(): StateResult {
@@ -1444,6 +1505,12 @@ export class MenuState extends State {
       options.push({ label: 'Attack', value: 'attack', enabled: true });
     }
 
+    // Arts option — combat arts usable against those same targets
+    const arts = combatArts(unit);
+    if (targets.length > 0 && arts.length > 0) {
+      options.push({ label: 'Arts', value: 'arts', enabled: arts.some(isCharged) });
+    }
+
     // Item option — if unit has usable healing/consumable items
     if (unit.hasUsableItems()) {
       options.push({ label: 'Item', value: 'item', enabled: true });
@@ -1457,6 +1524,11 @@ export class MenuState extends State {
       }
     }
 
+    // Supply option — if the unit holds the convoy or is next to whoever does
+    if (canAccessConvoy(unit, getAdjacentAllies(unit, ux, uy))) {
+      options.push({ label: 'Supply', value: 'supply', enabled: unit.canTrade() });
+    }
+
     // Rescue option — if adjacent allied unit that can be rescued
     const rescuableUnits = getAdjacentAllies(unit, ux, uy).filter(
       (ally) => !ally.isRescued() && !ally.isRescuing(),
@@ -1558,14 +1630,10 @@ export class MenuState extends State {
 
     if ('back' in result) {
       // Undo move — put unit back at original position
-      const unit: UnitObject = game.selectedUnit;
-      if (unit && game._moveOrigin) {
-        game.board.moveUnit(
-          unit,
-          game._moveOrigin[0],
-          game._moveOrigin[1],
-        );
-        unit.hasMoved = false;
+      const move = game.memory.get('move_action');
+      if (move) {
+        game.actionLog.hardRemove(move);
+        game.memory.delete('move_action');
       }
       this.menu = null;
       game.state.back();
@@ -1579,12 +1647,20 @@ export class MenuState extends State {
       if (value === 'attack') {
         this.menu = null;
         game.state.change('weapon_choice');
+      } else if (value === 'arts') {
+        this.menu = null;
+        game.state.change('combat_art_choice');
       } else if (value === 'item') {
         this.menu = null;
         game.state.change('item_use');
       } else if (value === 'trade') {
         this.menu = null;
         game.state.change('trade');
+      } else if (value === 'supply') {
+        this.menu = null;
+        game.memory.set('supply_unit', unit);
+        game.memory.set('supply_from_menu', true);
+        game.state.change('supply');
       } else if (value === 'rescue') {
         this.menu = null;
         game.state.change('rescue');
@@ -1723,7 +1799,7 @@ export class ItemUseState extends State {
     const options: MenuOption[] = this.usableItems.map((item, i) => ({
       label: item.name,
       value: `item_${i}`,
-      enabled: true,
+      enabled: !item.isPromotionItem() || getItemClassChoices(unit, item).length > 0,
     }));
 
     // Position near the unit
@@ -1759,6 +1835,21 @@ export class ItemUseState extends State {
       const item = this.usableItems[idx];
       const unit: UnitObject = game.selectedUnit;
 
+      if (item && unit && item.isPromotionItem()) {
+        // Promotion items open the class choice; the item is used on confirm
+        const request: ClassChoiceRequest = {
+          unit,
+          klasses: getItemClassChoices(unit, item),
+          mode: item.hasComponent('promote') ? 'promote' : 'class_change',
+          item,
+        };
+        game.memory.set('class_choice', request);
+        this.menu = null;
+        game.state.back();
+        game.state.change('promotion_choice');
+        return;
+      }
+
       if (item && unit) {
         // Apply item effect
         if (item.isHealing()) {
@@ -2022,11 +2113,8 @@ export class RescueState extends State {
       const unit: UnitObject = game.selectedUnit;
 
       if (target && unit) {
-        // Remove target from board
-        game.board.removeUnit(target);
-        // Set rescue references
-        unit.rescuing = target;
-        target.rescuedBy = unit;
+        // Take the target off the board and into the rescuer's care
+        game.actionLog.doAction(new RescueAction(unit, target, game.board));
         // Finish the unit's turn
         unit.finished = true;
       }
@@ -2109,9 +2197,7 @@ export class DropState extends MapState {
           const target = unit?.rescuing;
           if (unit && target) {
             // Drop the rescued unit
-            unit.rescuing = null;
-            target.rescuedBy = null;
-            game.board.setUnit(pos.x, pos.y, target);
+            game.actionLog.doAction(new DropAction(unit, target, game.board, [pos.x, pos.y]));
             // Finish unit's turn
             unit.finished = true;
           }
@@ -2140,6 +2226,201 @@ export class DropState extends MapState {
   }
 }
 
+// ============================================================================
+// 5. CombatArtChoiceState — Activate a charged combat art, then attack
+// ============================================================================
+
+export class CombatArtChoiceState extends State {
+  readonly name = 'combat_art_choice';
+  override readonly transparent = true;
+
+  private menu: ChoiceMenu | null = null;
+  private arts: SkillObject[] = [];
+  /** Activation of the art picked last; taken back if the attack is cancelled. */
+  private activation: ActivateCombatArtAction | null = null;
+
+  override begin(): StateResult {
+    const game = getGame();
+    const unit: UnitObject = game.selectedUnit;
+    if (!unit || !unit.position) {
+      game.state.back();
+      return 'repeat';
+    }
+
+    // If the unit already finished (returned from combat), pop back.
+    if (unit.finished || !unit.canStillAct()) {
+      this.activation = null;
+      this.menu = null;
+      game.state.back();
+      return 'repeat';
+    }
+
+    // Backed out of weapon choice / targeting: the art was not used
+    if (this.activation) {
+      game.actionLog.hardRemove(this.activation);
+      this.activation = null;
+    }
+
+    this.arts = combatArts(unit);
+    if (this.arts.length === 0) {
+      game.state.back();
+      return;
+    }
+
+    const options: MenuOption[] = this.arts.map((art, i) => {
+      const max = maxCharge(art);
+      const charge = max !== null ? ` ${Math.min(currentCharge(art), max)}/${max}` : '';
+      return { label: `${art.name}${charge}`, value: `art_${i}`, enabled: isCharged(art) };
+    });
+
+    const cameraOffset = game.camera.getOffset();
+    const menuX = unit.position[0] * TILEWIDTH - cameraOffset[0] + TILEWIDTH + 4;
+    const menuY = unit.position[1] * TILEHEIGHT - cameraOffset[1];
+    const clampedX = Math.min(menuX, viewport.width - 90);
+    const clampedY = Math.min(menuY, viewport.height - options.length * 16 - 8);
+    this.menu = new ChoiceMenu(options, clampedX, Math.max(0, clampedY));
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    if (!this.menu) return;
+    const game = getGame();
+
+    let result: { selected: string } | { back: true } | null = null;
+    if (game.input?.mouseClick) {
+      const [gx, gy] = game.input.getGameMousePos();
+      result = this.menu.handleClick(gx, gy, game.input.mouseClick as 'SELECT' | 'BACK');
+    }
+    if (game.input?.mouseMoved) {
+      const [gx, gy] = game.input.getGameMousePos();
+      this.menu.handleMouseHover(gx, gy);
+    }
+    if (!result && event !== null) {
+      result = this.menu.handleInput(event);
+    }
+    if (!result) return;
+
+    if ('back' in result) {
+      this.menu = null;
+      game.state.back();
+      return;
+    }
+
+    const art = this.arts[parseInt(result.selected.replace('art_', ''), 10)];
+    if (!art || !isCharged(art)) return;
+    this.activation = new ActivateCombatArtAction(game.selectedUnit, art);
+    game.actionLog.doAction(this.activation);
+    this.menu = null;
+    game.state.change('weapon_choice');
+  }
+
+  override draw(surf: Surface): Surface {
+    if (this.menu) {
+      this.menu.draw(surf);
+    }
+    return surf;
+  }
+}
+
+/** Add one charge to each of the unit's skills that fill on `trigger`. */
+function gainSkillCharge(unit: UnitObject, trigger: ChargeTrigger): void {
+  const game = getGame();
+  for (const skill of unit.skills) {
+    const max = maxCharge(skill);
+    if (max === null || !chargeTriggers(skill).includes(trigger)) continue;
+    const charge = currentCharge(skill);
+    if (charge < max) {
+      game.actionLog.doAction(new SetSkillChargeAction(skill, charge + 1));
+    }
+  }
+}
+
+/**
+ * After a combat: charge both sides' skills that fill on combat or on a
+ * kill, then spend the combat arts each side activated for it (the art
+ * goes back to zero charge and its child skill is removed).
+ */
+function updateSkillChargesAfterCombat(attacker: UnitObject, defender: UnitObject, results: CombatResults): void {
+  const game = getGame();
+  gainSkillCharge(attacker, 'combat');
+  if (attacker !== defender) gainSkillCharge(defender, 'combat');
+  if (results.defenderDead || results.splashDead?.length) gainSkillCharge(attacker, 'kill');
+  if (results.attackerDead) gainSkillCharge(defender, 'kill');
+
+  for (const unit of attacker === defender ? [attacker] : [attacker, defender]) {
+    const children = activeCombatArtSkills(unit);
+    if (children.length === 0) continue;
+    for (const child of children) {
+      const art = combatArts(unit).find((s) => s.nid === child.data.get('combat_art_parent'));
+      if (art && maxCharge(art) !== null) {
+        game.actionLog.doAction(new SetSkillChargeAction(art, 0));
+      }
+    }
+    game.actionLog.doAction(new EndCombatArtsAction(unit));
+  }
+}
+
+/**
+ * Give out the statuses from a finished combat: for each striker and
+ * target, the striker's on-hit statuses (from its weapon and skills) if
+ * any of its strikes on that target landed, and its after-combat
+ * statuses since it struck at all. Dead targets get nothing.
+ */
+function applyCombatStatuses(strikes: CombatStrike[]): void {
+  const game = getGame();
+  const pairs = new Map<string, CombatStrike[]>();
+  for (const strike of strikes) {
+    const key = `${strike.attacker.nid}>${strike.defender.nid}`;
+    pairs.set(key, [...(pairs.get(key) ?? []), strike]);
+  }
+  for (const own of pairs.values()) {
+    const { attacker: unit, defender: target, item } = own[0];
+    if (unit === target || target.isDead()) continue;
+
+    const nids: string[] = [];
+    if (own.some((s) => s.hit)) {
+      const fromItem = statusOnHit(unit, item);
+      if (fromItem) nids.push(fromItem);
+      nids.push(...statusesOnHit(unit));
+    }
+    const afterItem = statusAfterCombat(unit, item);
+    if (afterItem) nids.push(afterItem);
+    nids.push(...statusesAfterCombat(unit));
+
+    for (const nid of new Set(nids)) {
+      game.actionLog.doAction(new AddSkillAction(target, nid));
+    }
+  }
+}
+
+/**
+ * Phase-start upkeep for a unit's skills: upkeep damage (never lethal,
+ * like poison) or regeneration, then timed skills count down and the
+ * ones that run out are removed. Statuses are skills, so this is the
+ * only per-phase status step.
+ */
+function processSkillUpkeep(unit: UnitObject): void {
+  const game = getGame();
+  for (const skill of unit.skills) {
+    const change = upkeepHpChange(unit, skill);
+    if (change > 0) {
+      const amount = Math.min(change, unit.currentHp - 1);
+      if (amount > 0) game.actionLog.doAction(new DamageAction(unit, amount));
+    } else if (change < 0) {
+      const amount = Math.min(-change, unit.maxHp - unit.currentHp);
+      if (amount > 0) game.actionLog.doAction(new HealAction(unit, amount));
+    }
+  }
+  for (const skill of [...unit.skills]) {
+    const turns = turnsRemaining(skill);
+    if (turns === null) continue;
+    if (turns <= 1) {
+      game.actionLog.doAction(new RemoveSkillAction(unit, skill));
+    } else {
+      game.actionLog.doAction(new SetSkillTurnsAction(skill, turns - 1));
+    }
+  }
+}
+
 // ============================================================================
 // 5a. WeaponChoiceState — Select which weapon to use before attacking
 // ============================================================================
@@ -2325,6 +2606,11 @@ export class TargetingState extends MapState {
 
   private targets: UnitObject[] = [];
   private targetIndex: number = 0;
+  /** Inventory order when targeting began, used to cycle weapons. */
+  private weaponOrder: ItemObject[] = [];
+  /** Tiles an area weapon can be aimed at; empty when targeting units. */
+  private aimTiles: [number, number][] = [];
+  private aimIndex: number = 0;
 
   override begin(): StateResult {
     const game = getGame();
@@ -2341,6 +2627,8 @@ export class TargetingState extends MapState {
       return 'repeat';
     }
 
+    this.weaponOrder = [...unit.items];
+
     // Get valid targets
     this.targets = getTargetsInRange(
       unit,
@@ -2354,32 +2642,80 @@ export class TargetingState extends MapState {
       return;
     }
 
-    // Show attack range highlights
+    // Area weapons aim at a tile instead of a unit
+    const weapon = getEquippedWeapon(unit);
+    this.aimTiles = weapon && isAoe(weapon) ? getAoeAimTiles(unit, weapon, game.board, game.db) : [];
+    this.aimIndex = 0;
+    if (this.aimTiles.length > 0) {
+      this.focusAim();
+      return;
+    }
+
+    this.showAttackRange(unit);
+
+    // Position cursor on first target
+    this.focusTarget();
+  }
+
+  /** Show attack range highlights for the equipped weapon. */
+  private showAttackRange(unit: UnitObject): void {
+    const game = getGame();
     game.highlight.clear();
     const weapon = getEquippedWeapon(unit);
-    if (weapon) {
-      const minRange = weapon.getMinRange();
-      const maxRange = weapon.getMaxRange();
-      const attackTiles: [number, number][] = [];
-      const ux = unit.position[0];
-      const uy = unit.position[1];
-      for (let dx = -maxRange; dx <= maxRange; dx++) {
-        for (let dy = -maxRange; dy <= maxRange; dy++) {
-          const dist = Math.abs(dx) + Math.abs(dy);
-          if (dist >= minRange && dist <= maxRange) {
-            const tx = ux + dx;
-            const ty = uy + dy;
-            if (game.board.inBounds(tx, ty)) {
-              attackTiles.push([tx, ty]);
-            }
+    if (!weapon || !unit.position) return;
+    const minRange = weapon.getMinRange();
+    const maxRange = weapon.getMaxRange();
+    const attackTiles: [number, number][] = [];
+    const ux = unit.position[0];
+    const uy = unit.position[1];
+    for (let dx = -maxRange; dx <= maxRange; dx++) {
+      for (let dy = -maxRange; dy <= maxRange; dy++) {
+        const dist = Math.abs(dx) + Math.abs(dy);
+        if (dist >= minRange && dist <= maxRange) {
+          const tx = ux + dx;
+          const ty = uy + dy;
+          if (game.board.inBounds(tx, ty)) {
+            attackTiles.push([tx, ty]);
           }
         }
       }
-      game.highlight.setAttackHighlights(attackTiles);
     }
+    game.highlight.setAttackHighlights(attackTiles);
+  }
 
-    // Position cursor on first target
-    this.focusTarget();
+  /**
+   * Equip the next (or previous) usable weapon that still reaches the
+   * current target, so the forecast can be compared across weapons.
+   */
+  private cycleWeapon(step: number): void {
+    const game = getGame();
+    const unit: UnitObject = game.selectedUnit;
+    const target = this.targets[this.targetIndex];
+    const current = getEquippedWeapon(unit);
+    if (!unit?.position || !target?.position || !current) return;
+    const dist =
+      Math.abs(target.position[0] - unit.position[0]) +
+      Math.abs(target.position[1] - unit.position[1]);
+    // Keep inventory order stable while cycling by sorting on the
+    // order the weapons had when targeting began. Area weapons aim at
+    // tiles rather than units, so they stay out of the cycle.
+    const weapons = unit.items.filter(
+      (item) => item.isWeapon() && item.hasUsesRemaining() && !isAoe(item) &&
+        dist >= item.getMinRange() && dist <= item.getMaxRange(),
+    );
+    if (weapons.length < 2) return;
+    weapons.sort((a, b) => this.weaponOrder.indexOf(a) - this.weaponOrder.indexOf(b));
+
+    const idx = weapons.indexOf(current);
+    const next = weapons[(idx + step + weapons.length) % weapons.length];
+    // Move the weapon to the front of inventory (equip it)
+    unit.items.splice(unit.items.indexOf(next), 1);
+    unit.items.unshift(next);
+
+    this.targets = getTargetsInRange(unit, unit.position[0], unit.position[1]);
+    this.targetIndex = Math.max(0, this.targets.indexOf(target));
+    this.showAttackRange(unit);
+    game.audioManager?.playSfx?.('Select 6');
   }
 
   private focusTarget(): void {
@@ -2394,9 +2730,108 @@ export class TargetingState extends MapState {
     }
   }
 
+  /** Center the cursor on the current aim tile and preview its area. */
+  private focusAim(): void {
+    const game = getGame();
+    const unit: UnitObject = game.selectedUnit;
+    const weapon = getEquippedWeapon(unit);
+    const aim = this.aimTiles[this.aimIndex];
+    if (!weapon || !aim || !unit.position) return;
+    this.showAttackRange(unit);
+    game.highlight.setSplashHighlights(getAoeTiles(weapon, unit.position, aim, game.board));
+    game.cursor.setPos(aim[0], aim[1]);
+    if (isSmallScreen()) {
+      game.camera.focusTile(aim[0], aim[1]);
+    }
+  }
+
+  /**
+   * Move the aim to the nearest aimable tile in the given direction,
+   * preferring tiles straight ahead over ones off to the side.
+   */
+  private stepAim(dx: number, dy: number): void {
+    const [cx, cy] = this.aimTiles[this.aimIndex];
+    let best = -1;
+    let bestScore = Infinity;
+    this.aimTiles.forEach(([x, y], i) => {
+      const ahead = (x - cx) * dx + (y - cy) * dy;
+      if (ahead <= 0) return;
+      const side = Math.abs((x - cx) * dy - (y - cy) * dx);
+      const score = ahead + side * 2;
+      if (score < bestScore) {
+        bestScore = score;
+        best = i;
+      }
+    });
+    if (best >= 0) {
+      this.aimIndex = best;
+      this.focusAim();
+    }
+  }
+
+  /** Aim the area weapon at the current tile and start the combat. */
+  private confirmAim(): void {
+    const game = getGame();
+    const unit: UnitObject = game.selectedUnit;
+    const weapon = getEquippedWeapon(unit);
+    const aim = this.aimTiles[this.aimIndex];
+    if (!weapon || !aim) return;
+    const caught = getAoeTargets(unit, weapon, aim, game.board, game.db);
+    if (caught.length === 0) return;
+    game.aoeAim = aim;
+    game.combatTarget = caught[0];
+    game.highlight.clear();
+    game.state.change('combat');
+  }
+
+  /** Input while aiming an area weapon. */
+  private takeAimInput(event: InputEvent): StateResult {
+    const game = getGame();
+
+    // Mouse: clicking an aimable tile fires at it
+    if (game.input?.mouseClick === 'SELECT') {
+      const tile = getMouseTile();
+      const idx = tile ? this.aimTiles.findIndex(([x, y]) => x === tile[0] && y === tile[1]) : -1;
+      if (idx >= 0) {
+        this.aimIndex = idx;
+        this.confirmAim();
+        return;
+      }
+    }
+    if (game.input?.mouseClick === 'BACK') {
+      game.highlight.clear();
+      game.state.back();
+      return;
+    }
+
+    switch (event) {
+      case 'UP':
+        this.stepAim(0, -1);
+        break;
+      case 'DOWN':
+        this.stepAim(0, 1);
+        break;
+      case 'LEFT':
+        this.stepAim(-1, 0);
+        break;
+      case 'RIGHT':
+        this.stepAim(1, 0);
+        break;
+      case 'SELECT':
+        this.confirmAim();
+        break;
+      case 'BACK':
+        game.highlight.clear();
+        game.state.back();
+        break;
+    }
+  }
+
   override takeInput(event: InputEvent): StateResult {
     const game = getGame();
 
+    if (this.aimTiles.length > 0) return this.takeAimInput(event);
+
     // Mouse: clicking directly on a valid target selects it
     if (game.input?.mouseClick === 'SELECT') {
       const tile = getMouseTile();
@@ -2443,6 +2878,10 @@ export class TargetingState extends MapState {
         }
         break;
 
+      case 'AUX':
+        this.cycleWeapon(1);
+        break;
+
       case 'SELECT': {
         const target = this.targets[this.targetIndex];
         if (target) {
@@ -2465,6 +2904,11 @@ export class TargetingState extends MapState {
     game.highlight.update();
     surf = drawMap(surf, true);
 
+    if (this.aimTiles.length > 0) {
+      this.drawAimPreview(surf);
+      return surf;
+    }
+
     // Draw target info overlay
     const target = this.targets[this.targetIndex];
     if (target) {
@@ -2478,26 +2922,45 @@ export class TargetingState extends MapState {
         // Highlight target tile
         surf.fillRect(tx, ty, TILEWIDTH, TILEHEIGHT, 'rgba(255,0,0,0.3)');
 
-        // Show target name/HP at top of screen
-        surf.fillRect(0, 0, viewport.width, 16, 'rgba(0,0,0,0.7)');
-        surf.drawText(
-          `${target.name}  HP: ${target.currentHp}/${target.maxHp}`,
-          4,
-          4,
-          'white',
-          '8px monospace',
-        );
+        // Forecast window in the top corner away from the target
+        const forecast = getCombatForecast(unit, weapon, target, game);
+        const onLeft = tx + TILEWIDTH / 2 >= viewport.width / 2;
+        const fx = onLeft ? 4 : viewport.width - COMBAT_FORECAST_WIDTH - 4;
+        drawCombatForecast(surf, forecast, fx, 4);
       }
     }
     return surf;
   }
 
+  /** Mark every unit the current aim catches and show their forecasts. */
+  private drawAimPreview(surf: Surface): void {
+    const game = getGame();
+    const unit: UnitObject = game.selectedUnit;
+    const weapon = getEquippedWeapon(unit);
+    const aim = this.aimTiles[this.aimIndex];
+    if (!weapon || !aim) return;
+    const cameraOffset = game.camera.getOffset();
+    const caught = getAoeTargets(unit, weapon, aim, game.board, game.db);
+    for (const other of caught) {
+      const tx = other.position![0] * TILEWIDTH - cameraOffset[0];
+      const ty = other.position![1] * TILEHEIGHT - cameraOffset[1];
+      surf.fillRect(tx, ty, TILEWIDTH, TILEHEIGHT, 'rgba(255,0,0,0.3)');
+    }
+
+    // Forecast window in the top corner away from the aimed tile
+    const ax = aim[0] * TILEWIDTH - cameraOffset[0];
+    const onLeft = ax + TILEWIDTH / 2 >= viewport.width / 2;
+    const fx = onLeft ? 4 : viewport.width - COMBAT_FORECAST_WIDTH - 4;
+    drawAoeForecast(surf, unit.name, weapon.name, getAoeForecast(unit, weapon, caught, game), fx, 4);
+  }
+
   override end(): StateResult {
     const game = getGame();
     game.highlight.clear();
     // Clear targets to prevent stale draw (red rectangle) when CombatState
     // draws on top of this transparent state
     this.targets = [];
+    this.aimTiles = [];
   }
 }
 
@@ -2522,6 +2985,8 @@ export class CombatState extends State {
   private combat: MapCombat | null = null;
   private animCombat: AnimationCombat | null = null;
   private isAnimationCombat: boolean = false;
+  /** Area-of-effect attack; when set it takes the place of the other two. */
+  private aoeCombat: AoeCombat | null = null;
   private results: CombatResults | null = null;
   private phase: CombatPhase = 'combat';
   private phaseTimer: number = 0;
@@ -2563,8 +3028,9 @@ export class CombatState extends State {
   // Battle background panorama image
   private battleBackgroundImg: HTMLImageElement | null = null;
 
-  /** Get whichever combat controller is active (AnimationCombat or MapCombat). */
-  private getActiveCombat(): MapCombat | AnimationCombat | null {
+  /** Get whichever combat controller is active (AoeCombat, AnimationCombat or MapCombat). */
+  private getActiveCombat(): MapCombat | AnimationCombat | AoeCombat | null {
+    if (this.aoeCombat) return this.aoeCombat;
     return this.isAnimationCombat ? this.animCombat : this.combat;
   }
 
@@ -2585,18 +3051,37 @@ export class CombatState extends State {
     }
 
     const defenseItem = getEquippedWeapon(defender);
-    const rngMode = game.db.getConstant('rng_mode', 'true_hit') as any;
+    const rngMode = game.getRngMode();
 
     // Read and consume the combat script (set by interact_unit)
     const script = game.combatScript;
     game.combatScript = null;
 
-    // Check if both units have battle animations available
-    const canAnimate = this.tryCreateAnimationCombat(
+    // Read and consume the area aim (set by TargetingState)
+    const aim: [number, number] | null = game.aoeAim;
+    game.aoeAim = null;
+    const aoeTargets = aim && isAoe(attackItem)
+      ? getAoeTargets(attacker, attackItem, aim, game.board, game.db)
+      : [];
+
+    // Area attacks always play on the map, as a single cast
+    const canAnimate = aoeTargets.length === 0 && this.tryCreateAnimationCombat(
       attacker, attackItem, defender, defenseItem, rngMode, game, script,
     );
 
-    if (canAnimate) {
+    this.aoeCombat = null;
+    if (aim && aoeTargets.length > 0) {
+      this.isAnimationCombat = false;
+      this.combat = null;
+      this.animCombat = null;
+      this.aoeCombat = new AoeCombat(attacker, attackItem, aoeTargets, aim, game.db, rngMode, game.board);
+      if (game.audioManager) {
+        this.aoeCombat.audioManager = game.audioManager;
+      }
+      this.aoeCombat.growthMode = game.getGrowthMode();
+      this.playCastAnimation(this.aoeCombat);
+      console.log(`CombatState: using AoeCombat (${attacker.name}, ${aoeTargets.length} targets)`);
+    } else if (canAnimate) {
       this.isAnimationCombat = true;
       this.combat = null;
       console.log(`CombatState: using AnimationCombat (${attacker.name} vs ${defender.name})`);
@@ -2618,6 +3103,7 @@ export class CombatState extends State {
       if (game.audioManager) {
         this.combat.audioManager = game.audioManager;
       }
+      this.combat.growthMode = game.getGrowthMode();
       console.log(`CombatState: using MapCombat (${attacker.name} vs ${defender.name})`);
     }
 
@@ -2737,6 +3223,7 @@ export class CombatState extends State {
       if (game.audioManager) {
         this.animCombat.audioManager = game.audioManager;
       }
+      this.animCombat.growthMode = game.getGrowthMode();
 
       // Load platform images asynchronously (they'll appear once loaded)
       const isMelee = this.animCombat.combatRange <= 1;
@@ -2774,6 +3261,29 @@ export class CombatState extends State {
     }
   }
 
+  /**
+   * Play the attack item's cast animation once over the aimed tile, and
+   * stretch the cast phase to match it so the damage lands as it ends.
+   */
+  private playCastAnimation(aoe: AoeCombat): void {
+    const game = getGame();
+    const animNid = mapCastAnim(aoe.attacker, aoe.attackItem);
+    if (!animNid) return;
+    const prefab = game.db?.mapAnimations?.get(animNid);
+    if (!prefab || !game.tilemap) {
+      console.warn(`CombatState: cast animation "${animNid}" not found`);
+      return;
+    }
+    const mapAnim = new MapAnimation(prefab, aoe.aim[0], aoe.aim[1]);
+    void game.resources.loadImage(`resources/animations/${animNid}.png`).then((img: HTMLImageElement) => {
+      if (img) mapAnim.setImage(img);
+    }).catch(() => {
+      console.warn(`CombatState: failed to load sprite sheet for "${animNid}"`);
+    });
+    game.tilemap.highAnimations.push(mapAnim);
+    aoe.castDurationMs = Math.max(aoe.castDurationMs, mapAnim.getDuration());
+  }
+
   /** Look up the terrain definition for a unit's map position. */
   private getUnitTerrain(unit: UnitObject, db: any): any | null {
     if (!unit.position) return null;
@@ -2862,7 +3372,7 @@ export class CombatState extends State {
       if (this.phase === 'combat') {
         // Skip the combat animation entirely — results will be applied
         // by the normal 'done' handling in update()
-        const activeCombat = this.isAnimationCombat ? this.animCombat : this.combat;
+        const activeCombat = this.getActiveCombat();
         if (activeCombat) {
           activeCombat.skipToEnd();
         }
@@ -2883,7 +3393,7 @@ export class CombatState extends State {
   }
 
   override update(): StateResult {
-    const activeCombat = this.isAnimationCombat ? this.animCombat : this.combat;
+    const activeCombat = this.getActiveCombat();
     if (!activeCombat) return;
     const game = getGame();
 
@@ -2896,6 +3406,8 @@ export class CombatState extends State {
         const done = activeCombat.update(realDelta);
         if (done) {
           this.results = activeCombat.applyResults();
+          updateSkillChargesAfterCombat(activeCombat.attacker, activeCombat.defender, this.results);
+          applyCombatStatuses(activeCombat.strikes);
           // Record combat message for turnwheel
           const atkName = activeCombat.attacker.name;
           const defName = activeCombat.defender.name;
@@ -2903,12 +3415,12 @@ export class CombatState extends State {
           const isHeal = activeCombat.attackItem?.targetsAllies?.();
           if (isHeal) {
             game.actionLog.doAction(new MessageAction(`${atkName} helped ${defName}`));
-          } else if (isSpell) {
+          } else if (isSpell || this.aoeCombat) {
             game.actionLog.doAction(new MessageAction(`${atkName} used ${activeCombat.attackItem?.name ?? 'spell'}`));
           } else {
             game.actionLog.doAction(new MessageAction(`${atkName} attacked ${defName}`));
           }
-          if (this.results.attackerDead || this.results.defenderDead) {
+          if (this.results.attackerDead || this.results.defenderDead || this.results.splashDead?.length) {
             this.phase = 'death';
             this.phaseTimer = 0;
             this.deathFadeProgress = 0;
@@ -2930,11 +3442,15 @@ export class CombatState extends State {
           // Remove dead units from board and initiative tracker
           if (this.results!.defenderDead) {
             if (game.initiative) game.initiative.removeUnit(activeCombat!.defender);
-            game.board.removeUnit(activeCombat!.defender);
+            game.actionLog.doAction(new DeathAction(activeCombat!.defender, game.board));
           }
           if (this.results!.attackerDead) {
             if (game.initiative) game.initiative.removeUnit(activeCombat!.attacker);
-            game.board.removeUnit(activeCombat!.attacker);
+            game.actionLog.doAction(new DeathAction(activeCombat!.attacker, game.board));
+          }
+          for (const unit of this.results!.splashDead ?? []) {
+            if (game.initiative) game.initiative.removeUnit(unit);
+            game.actionLog.doAction(new DeathAction(unit, game.board));
           }
 
           // Check if attacker earned EXP
@@ -3150,6 +3666,12 @@ export class CombatState extends State {
               { ...ctx, unit1: attacker, unit2: defender },
             );
           }
+          for (const unit of this.results?.splashDead ?? []) {
+            game.eventManager.trigger(
+              { type: 'combat_death', unit1: unit, unit2: attacker, unitNid: unit.nid, position: unit.position, levelNid },
+              { ...ctx, unit1: unit, unit2: attacker },
+            );
+          }
 
           // combat_end fires after every combat
           game.eventManager.trigger(
@@ -3161,7 +3683,10 @@ export class CombatState extends State {
         // Activate AI groups if an enemy was involved in combat
         if (game.aiController) {
           game.aiController.activateGroupOnCombat(activeCombat!.attacker, game);
-          game.aiController.activateGroupOnCombat(activeCombat!.defender, game);
+          const struck = this.aoeCombat ? this.aoeCombat.defenders : [activeCombat!.defender];
+          for (const unit of struck) {
+            game.aiController.activateGroupOnCombat(unit, game);
+          }
         }
 
         // Check win/loss conditions
@@ -3192,6 +3717,7 @@ export class CombatState extends State {
 
         this.combat = null;
         this.animCombat = null;
+        this.aoeCombat = null;
         this.isAnimationCombat = false;
         this.results = null;
         this.leftPlatformImg = null;
@@ -3272,6 +3798,9 @@ export class CombatState extends State {
 
   override draw(surf: Surface): Surface {
     // Route to the appropriate renderer
+    if (this.aoeCombat) {
+      return this.drawAoeCombat(surf);
+    }
     if (this.isAnimationCombat && this.animCombat) {
       return this.drawAnimationCombat(surf);
     }
@@ -3338,6 +3867,9 @@ export class CombatState extends State {
     // Floating damage numbers
     this.drawDamagePopupsMap(surf, rs.damagePopups, cameraOffset);
 
+    // Proc skill names
+    drawSkillBanners(surf, rs.skillBanners, 4);
+
     // Death fade-out: dim the dying unit's tile with white overlay
     if (this.phase === 'death') {
       const alpha = this.deathFadeProgress * 0.85;
@@ -3359,6 +3891,58 @@ export class CombatState extends State {
     return surf;
   }
 
+  /** Render an area attack: the struck area, then HP bars over every unit involved. */
+  private drawAoeCombat(surf: Surface): Surface {
+    const rs = this.aoeCombat!.getRenderState();
+    const game = getGame();
+    const cameraOffset = game.camera.getOffset();
+
+    // The area glows brighter as the cast builds, then fades once it lands
+    if (rs.state === 'cast' || rs.state === 'hp_change') {
+      const alpha = rs.state === 'cast' ? 0.15 + rs.castProgress * 0.25 : 0.2;
+      for (const [x, y] of rs.tiles) {
+        surf.fillRect(
+          x * TILEWIDTH - cameraOffset[0], y * TILEHEIGHT - cameraOffset[1],
+          TILEWIDTH, TILEHEIGHT, `rgba(200,100,255,${alpha.toFixed(2)})`,
+        );
+      }
+    }
+
+    for (const u of rs.units) {
+      const pos = u.unit.position;
+      if (!pos) continue;
+      const ux = pos[0] * TILEWIDTH - cameraOffset[0];
+      const uy = pos[1] * TILEHEIGHT - cameraOffset[1];
+      if (u.flashAlpha > 0) {
+        surf.fillRect(ux - 4, uy - 4, TILEWIDTH + 8, TILEHEIGHT + 8, `rgba(255,255,255,${u.flashAlpha.toFixed(2)})`);
+      }
+      this.drawHpBar(surf, ux + u.shakeX, uy - 6, u.hp, u.maxHp);
+    }
+
+    // Floating damage numbers
+    this.drawDamagePopupsMap(surf, rs.damagePopups, cameraOffset);
+
+    // Proc skill names
+    drawSkillBanners(surf, rs.skillBanners, 4);
+
+    // Death fade-out over every unit the cast killed
+    if (this.phase === 'death' && this.results) {
+      const alpha = this.deathFadeProgress * 0.85;
+      const dead = [...(this.results.splashDead ?? [])];
+      if (this.results.defenderDead) dead.push(this.aoeCombat!.defender);
+      for (const unit of dead) {
+        if (!unit.position) continue;
+        const dx = unit.position[0] * TILEWIDTH - cameraOffset[0];
+        const dy = unit.position[1] * TILEHEIGHT - cameraOffset[1];
+        surf.fillRect(dx - 24, dy - 32, 64, 48, `rgba(255,255,255,${alpha.toFixed(2)})`);
+      }
+    }
+
+    this.drawExpAndLevelUp(surf);
+
+    return surf;
+  }
+
   // ================================================================
   // Animation Combat Renderer — GBA-style full-screen battle scene
   // ================================================================
@@ -3731,6 +4315,9 @@ export class CombatState extends State {
       }
     }
 
+    // --- Proc skill names (below the name tags) ---
+    drawSkillBanners(surf, rs.skillBanners, 20);
+
     // --- Screen blend overlay ---
     if (rs.screenBlend) {
       const [r, g, b] = rs.screenBlend.color;
@@ -4082,11 +4669,7 @@ export class AIState extends MapState {
               action.targetPosition[1] !== prevPos[1])
           ) {
             // Animate movement
-            game.board.moveUnit(
-              unit,
-              action.targetPosition[0],
-              action.targetPosition[1],
-            );
+            this.moveUnit(unit, action.targetPosition);
             game.camera.focusTile(
               action.targetPosition[0],
               action.targetPosition[1],
@@ -4107,11 +4690,7 @@ export class AIState extends MapState {
           } else {
             // Already at position, attack directly
             if (action.targetPosition) {
-              game.board.moveUnit(
-                unit,
-                action.targetPosition[0],
-                action.targetPosition[1],
-              );
+              this.moveUnit(unit, action.targetPosition);
             }
             this.beginAICombat(
               unit,
@@ -4132,11 +4711,7 @@ export class AIState extends MapState {
             ? [unit.position[0], unit.position[1]]
             : null;
 
-          game.board.moveUnit(
-            unit,
-            action.targetPosition[0],
-            action.targetPosition[1],
-          );
+          this.moveUnit(unit, action.targetPosition);
           game.camera.focusTile(
             action.targetPosition[0],
             action.targetPosition[1],
@@ -4193,11 +4768,7 @@ export class AIState extends MapState {
             (action.targetPosition[0] !== prevPos[0] ||
               action.targetPosition[1] !== prevPos[1])
           ) {
-            game.board.moveUnit(
-              unit,
-              action.targetPosition[0],
-              action.targetPosition[1],
-            );
+            this.moveUnit(unit, action.targetPosition);
             game.camera.focusTile(
               action.targetPosition[0],
               action.targetPosition[1],
@@ -4209,11 +4780,7 @@ export class AIState extends MapState {
             });
           } else {
             if (action.targetPosition) {
-              game.board.moveUnit(
-                unit,
-                action.targetPosition[0],
-                action.targetPosition[1],
-              );
+              this.moveUnit(unit, action.targetPosition);
             }
             applyItem();
           }
@@ -4299,11 +4866,7 @@ export class AIState extends MapState {
               action.targetPosition[1] !== prevPos[1])
           ) {
             // Move first, then interact
-            game.board.moveUnit(
-              unit,
-              action.targetPosition[0],
-              action.targetPosition[1],
-            );
+            this.moveUnit(unit, action.targetPosition);
             game.camera.focusTile(
               action.targetPosition[0],
               action.targetPosition[1],
@@ -4315,11 +4878,7 @@ export class AIState extends MapState {
             });
           } else {
             if (action.targetPosition) {
-              game.board.moveUnit(
-                unit,
-                action.targetPosition[0],
-                action.targetPosition[1],
-              );
+              this.moveUnit(unit, action.targetPosition);
             }
             triggerInteract();
           }
@@ -4365,6 +4924,10 @@ export class AIState extends MapState {
     // CombatState.begin() reads these to set up the MapCombat instance
     game.selectedUnit = attacker;
     game.combatTarget = defender;
+    // Area weapons are aimed at a tile rather than at the defender
+    if (isAoe(weapon)) {
+      game.aoeAim = getBestAoeAim(attacker, weapon, defender, game.board, game.db);
+    }
 
     this.waitingForCombat = true;
     this.waitingForMovement = false;
@@ -4374,6 +4937,13 @@ export class AIState extends MapState {
     game.state.change('combat');
   }
 
+  /** Move the acting unit through the action log, so auras and the turnwheel follow. */
+  private moveUnit(unit: UnitObject, pos: [number, number]): void {
+    const game = getGame();
+    const from: [number, number] = unit.position ? [unit.position[0], unit.position[1]] : pos;
+    game.actionLog.doAction(new MoveAction(unit, from, pos, game.board));
+  }
+
   private advanceToNextUnit(): void {
     const game = getGame();
     // Mark end of AI unit's action group (turnwheel marker)
@@ -4656,7 +5226,7 @@ export class PhaseChangeState extends State {
 
     this.banner = new Banner(bannerText, subText);
 
-    // Reset units for the new phase and process status effects
+    // Reset units for the new phase and run their skill upkeep (statuses)
     if (game.initiative) {
       // Initiative mode: only reset the current initiative unit
       const unitNid = game.initiative.getCurrentUnitNid();
@@ -4664,11 +5234,8 @@ export class PhaseChangeState extends State {
         const unit = game.getUnit(unitNid);
         if (unit && !unit.isDead()) {
           unit.resetTurnState();
-          const dotDamage = unit.processStatusEffects();
-          if (dotDamage > 0 && unit.currentHp <= 0) {
-            unit.dead = true;
-            game.board.removeUnit(unit);
-          }
+          gainSkillCharge(unit, 'turn_start');
+          processSkillUpkeep(unit);
         }
       }
       // Move cursor to initiative unit's position
@@ -4683,15 +5250,8 @@ export class PhaseChangeState extends State {
       const teamUnits: UnitObject[] = game.board.getTeamUnits(currentTeam);
       for (const unit of teamUnits) {
         unit.resetTurnState();
-        // Process status effects (DOT damage, duration tick-down)
-        const dotDamage = unit.processStatusEffects();
-        if (dotDamage > 0) {
-          // Unit took status damage — check if they died from it
-          if (unit.currentHp <= 0) {
-            unit.dead = true;
-            game.board.removeUnit(unit);
-          }
-        }
+        gainSkillCharge(unit, 'turn_start');
+        processSkillUpkeep(unit);
       }
     }
   }
@@ -5126,66 +5686,140 @@ const BLOCKING_COMMANDS: Set<string> = new Set([
 /** Maximum instant commands processed per frame to prevent infinite loops. */
 const MAX_BURST = 100;
 
-export class EventState extends State {
-  readonly name = 'event';
-  override readonly transparent = true;
+/** Flags accepted by the event movement commands (move_unit, move_group, spawn_group). */
+const EVENT_MOVEMENT_FLAGS = new Set(['no_block', 'no_follow']);
 
-  // Active event pulled from the EventManager queue
-  private currentEvent: GameEvent | null = null;
-
-  // Level transition lock: set when levelEnd() kicks off an async loadLevel.
-  // Prevents update() from processing commands while the load is in progress.
-  private levelTransitionInProgress: boolean = false;
+/**
+ * Separate trailing flags from the positional args of a movement command.
+ * Flags may appear anywhere after the required args in LT event scripts.
+ */
+function splitMovementFlags(args: string[]): [string[], Set<string>] {
+  const positional: string[] = [];
+  const flags = new Set<string>();
+  for (const arg of args) {
+    const key = arg.toLowerCase().trim();
+    if (EVENT_MOVEMENT_FLAGS.has(key)) flags.add(key);
+    else positional.push(arg);
+  }
+  return [positional, flags];
+}
 
-  // When true, begin() starts with a black screen (transitionAlpha = 1)
-  // instead of clearing it. Set by levelEnd() so that chapter_title +
-  // transition;Open work correctly after level transitions.
-  private startWithBlackScreen: boolean = false;
+/**
+ * Per-event state of EventState. A nested event gets a fresh run while
+ * the one it interrupted is set aside whole, and restored when it ends.
+ */
+interface EventRun {
+  // Active event pulled from the EventManager queue
+  currentEvent: GameEvent | null;
 
   // Blocking-command state
-  private dialog: Dialog | null = null;
-  private banner: Banner | null = null;
-  private bannerIsAlert: boolean = false;  // true if banner is from 'alert' command (allows early dismiss)
-  private waitTimer: number = 0;
-  private waiting: boolean = false;
+  dialog: Dialog | null;
+  banner: Banner | null;
+  bannerIsAlert: boolean;  // true if banner is from 'alert' command (allows early dismiss)
+  waitTimer: number;
+  waiting: boolean;
+
+  // Event unit movement (move_unit / move_group / spawn_group)
+  movingUnits: UnitObject[];
+  followMovement: boolean;
+  blockOnMovement: boolean;
 
   // Transition fade state
-  private transitionAlpha: number = 0;
-  private transitionFadingIn: boolean = false;  // true = fading to black
-  private transitionFadingOut: boolean = false; // true = fading from black
-  private transitionHoldBlack: boolean = false; // true = holding black between open/close
-  private transitionDurationMs: number = 500;   // fade duration in ms
-  private transitionColor: string = '0,0,0';    // fade color as "r,g,b"
+  transitionAlpha: number;
+  transitionFadingIn: boolean;   // true = fading to black
+  transitionFadingOut: boolean;  // true = fading from black
+  transitionHoldBlack: boolean;  // true = holding black between open/close
+  transitionDurationMs: number;  // fade duration in ms
+  transitionColor: string;       // fade color as "r,g,b"
 
   // Choice menu state
-  private choiceMenu: ChoiceMenu | null = null;
-  private choiceResult: string | null = null;
+  choiceMenu: ChoiceMenu | null;
+  choiceResult: string | null;
 
   // For-loop state: stack of { varName, values[], currentIndex, loopStartPointer }
-  private forLoopStack: { varName: string; values: string[]; currentIndex: number; startPointer: number }[] = [];
+  forLoopStack: { varName: string; values: string[]; currentIndex: number; startPointer: number }[];
 
   // Skip mode: when true, all speak/narrate commands are auto-advanced
-  private skipMode: boolean = false;
+  skipMode: boolean;
 
   // Portrait state
-  private portraits: Map<string, EventPortrait> = new Map();
-  private portraitPriorityCounter: number = 1;
+  portraits: Map<string, EventPortrait>;
+  portraitPriorityCounter: number;
   /** Count of portrait image loads in flight — blocks command processing until 0. */
-  private pendingPortraitLoads: number = 0;
+  pendingPortraitLoads: number;
 
   // Currently speaking portrait (for talk animation)
-  private speakingPortrait: EventPortrait | null = null;
+  speakingPortrait: EventPortrait | null;
 
   // Background panorama image (drawn behind portraits, on top of map)
-  private background: HTMLImageElement | null = null;
+  background: HTMLImageElement | null;
 
   // Chapter title overlay state
-  private chapterTitlePhase: 'none' | 'fade_in' | 'hold' | 'fade_out' = 'none';
-  private chapterTitleTimer: number = 0;
-  private chapterTitleText: string = '';
+  chapterTitlePhase: 'none' | 'fade_in' | 'hold' | 'fade_out';
+  chapterTitleTimer: number;
+  chapterTitleText: string;
 
   // Location card state
-  private locationCard: { text: string; timer: number; phase: 'fade_in' | 'hold' | 'fade_out'; alpha: number } | null = null;
+  locationCard: { text: string; timer: number; phase: 'fade_in' | 'hold' | 'fade_out'; alpha: number } | null;
+}
+
+/** A run with nothing shown and nothing pending. */
+function newEventRun(currentEvent: GameEvent | null = null): EventRun {
+  return {
+    currentEvent,
+    dialog: null,
+    banner: null,
+    bannerIsAlert: false,
+    waitTimer: 0,
+    waiting: false,
+    movingUnits: [],
+    followMovement: false,
+    blockOnMovement: false,
+    transitionAlpha: 0,
+    transitionFadingIn: false,
+    transitionFadingOut: false,
+    transitionHoldBlack: false,
+    transitionDurationMs: 500,
+    transitionColor: '0,0,0',
+    choiceMenu: null,
+    choiceResult: null,
+    forLoopStack: [],
+    skipMode: false,
+    portraits: new Map(),
+    portraitPriorityCounter: 1,
+    pendingPortraitLoads: 0,
+    speakingPortrait: null,
+    background: null,
+    chapterTitlePhase: 'none',
+    chapterTitleTimer: 0,
+    chapterTitleText: '',
+    locationCard: null,
+  };
+}
+
+export class EventState extends State {
+  readonly name = 'event';
+  override readonly transparent = true;
+
+  // State of the running event; see EventRun
+  private run: EventRun = newEventRun();
+
+  // Level transition lock: set when levelEnd() kicks off an async loadLevel.
+  // Prevents update() from processing commands while the load is in progress.
+  private levelTransitionInProgress: boolean = false;
+
+  // When true, begin() starts with a black screen (transitionAlpha = 1)
+  // instead of clearing it. Set by levelEnd() so that chapter_title +
+  // transition;Open work correctly after level transitions.
+  private startWithBlackScreen: boolean = false;
+
+  /**
+   * Runs of events interrupted by a nested event (e.g. the event that
+   * opened the base while a support conversation plays). There is a
+   * single EventState, so the nested event would otherwise run on — and
+   * reset — the interrupted event's portraits, loops, etc.
+   */
+  private suspendedRuns: EventRun[] = [];
 
   // -----------------------------------------------------------------------
   // Lifecycle
@@ -5204,39 +5838,19 @@ export class EventState extends State {
     // Only do a full reset when starting a genuinely NEW event.
     // When EventState is re-activated after another state pops (e.g.,
     // movement, shop, combat), we keep skipMode and other state intact.
-    const isNewEvent = nextEvent !== this.currentEvent;
-    this.currentEvent = nextEvent;
+    const isNewEvent = nextEvent !== this.run.currentEvent;
     if (isNewEvent) {
-      // Full reset for a new event
-      this.dialog = null;
-      this.banner = null;
-      this.bannerIsAlert = false;
-      this.waitTimer = 0;
-      this.waiting = false;
+      // Full reset for a new event; a nested one sets the interrupted run aside
+      if (nextEvent.nested && this.run.currentEvent && !this.run.currentEvent.nested) {
+        this.suspendedRuns.push(this.run);
+      }
+      this.run = newEventRun(nextEvent);
       // If starting from a level transition, keep the screen black so
-      // chapter_title + transition;Open work as expected. Otherwise reset.
-      if (!this.startWithBlackScreen) {
-        this.transitionAlpha = 0;
-      } else {
-        this.transitionAlpha = 1;
+      // chapter_title + transition;Open work as expected.
+      if (this.startWithBlackScreen) {
+        this.run.transitionAlpha = 1;
         this.startWithBlackScreen = false;
       }
-      this.transitionFadingIn = false;
-      this.transitionFadingOut = false;
-      this.transitionHoldBlack = false;
-      this.choiceMenu = null;
-      this.choiceResult = null;
-      this.forLoopStack = [];
-      this.skipMode = false;
-      this.portraits.clear();
-      this.portraitPriorityCounter = 1;
-      this.pendingPortraitLoads = 0;
-      this.speakingPortrait = null;
-      this.background = null;
-      this.chapterTitlePhase = 'none';
-      this.chapterTitleTimer = 0;
-      this.chapterTitleText = '';
-      this.locationCard = null;
       this.isHandlingLevelEnd = false;
       this.levelTransitionInProgress = false;
     }
@@ -5257,25 +5871,25 @@ export class EventState extends State {
     }
 
     // Forward input to dialog if active
-    if (this.dialog) {
+    if (this.run.dialog) {
       if (effective === 'BACK') {
         // Enable skip mode — dismiss this dialog and auto-skip all
         // remaining speak/narrate commands in the current event
-        this.skipMode = true;
-        this.dialog = null;
-        if (this.speakingPortrait) {
-          this.speakingPortrait.stopTalking();
-          this.speakingPortrait = null;
+        this.run.skipMode = true;
+        this.run.dialog = null;
+        if (this.run.speakingPortrait) {
+          this.run.speakingPortrait.stopTalking();
+          this.run.speakingPortrait = null;
         }
         this.advancePointer();
         return;
       }
-      const done = this.dialog.handleInput(effective);
+      const done = this.run.dialog.handleInput(effective);
       if (done) {
-        this.dialog = null;
-        if (this.speakingPortrait) {
-          this.speakingPortrait.stopTalking();
-          this.speakingPortrait = null;
+        this.run.dialog = null;
+        if (this.run.speakingPortrait) {
+          this.run.speakingPortrait.stopTalking();
+          this.run.speakingPortrait = null;
         }
         this.advancePointer();
       }
@@ -5283,36 +5897,36 @@ export class EventState extends State {
     }
 
     // Allow skipping chapter title
-    if (this.chapterTitlePhase !== 'none') {
+    if (this.run.chapterTitlePhase !== 'none') {
       if (effective === 'SELECT' || effective === 'BACK') {
-        this.chapterTitlePhase = 'none';
-        this.chapterTitleTimer = 0;
+        this.run.chapterTitlePhase = 'none';
+        this.run.chapterTitleTimer = 0;
         this.advancePointer();
       }
       return;
     }
 
     // Allow early dismiss of alert banners after 300ms
-    if (this.banner && this.bannerIsAlert) {
-      if (effective && this.banner.getElapsed() > 300) {
-        this.banner = null;
-        this.bannerIsAlert = false;
+    if (this.run.banner && this.run.bannerIsAlert) {
+      if (effective && this.run.banner.getElapsed() > 300) {
+        this.run.banner = null;
+        this.run.bannerIsAlert = false;
         this.advancePointer();
       }
       return;
     }
 
     // Forward input to choice menu if active
-    if (this.choiceMenu) {
-      const result = this.choiceMenu.handleInput(effective);
+    if (this.run.choiceMenu) {
+      const result = this.run.choiceMenu.handleInput(effective);
       if (result !== null) {
         if ('selected' in result) {
-          this.choiceResult = result.selected;
+          this.run.choiceResult = result.selected;
         } else {
           // BACK — pick first option as default
-          this.choiceResult = this.choiceMenu.options[0]?.value ?? '';
+          this.run.choiceResult = this.run.choiceMenu.options[0]?.value ?? '';
         }
-        this.choiceMenu = null;
+        this.run.choiceMenu = null;
         this.advancePointer();
       }
       return;
@@ -5322,20 +5936,20 @@ export class EventState extends State {
     // This handles the case where the user presses Escape during wait,
     // transition, screen_shake, or between instant commands.
     if (effective === 'BACK') {
-      this.skipMode = true;
+      this.run.skipMode = true;
       // If we're in a wait, transition, or other blockable state, resolve it
-      if (this.waiting) {
-        this.waiting = false;
-        this.waitTimer = 0;
+      if (this.run.waiting) {
+        this.run.waiting = false;
+        this.run.waitTimer = 0;
         this.advancePointer();
       }
-      if (this.banner) {
-        this.banner = null;
-        this.bannerIsAlert = false;
+      if (this.run.banner) {
+        this.run.banner = null;
+        this.run.bannerIsAlert = false;
         this.advancePointer();
       }
-      if (this.locationCard) {
-        this.locationCard = null;
+      if (this.run.locationCard) {
+        this.run.locationCard = null;
         this.advancePointer();
       }
     }
@@ -5356,32 +5970,32 @@ export class EventState extends State {
     // --- Handle active blocking UI elements first ---
 
     // Dialog typewriter
-    if (this.dialog) {
-      if (this.skipMode) {
+    if (this.run.dialog) {
+      if (this.run.skipMode) {
         // Skip mode: instantly dismiss dialog
-        this.dialog = null;
-        if (this.speakingPortrait) {
-          this.speakingPortrait.stopTalking();
-          this.speakingPortrait = null;
+        this.run.dialog = null;
+        if (this.run.speakingPortrait) {
+          this.run.speakingPortrait.stopTalking();
+          this.run.speakingPortrait = null;
         }
         this.advancePointer();
       } else {
-        this.dialog.update();
+        this.run.dialog.update();
         return;
       }
     }
 
     // Banner timer
-    if (this.banner) {
-      if (this.skipMode) {
-        this.banner = null;
-        this.bannerIsAlert = false;
+    if (this.run.banner) {
+      if (this.run.skipMode) {
+        this.run.banner = null;
+        this.run.bannerIsAlert = false;
         this.advancePointer();
       } else {
-        const done = this.banner.update(FRAMETIME);
+        const done = this.run.banner.update(FRAMETIME);
         if (done) {
-          this.banner = null;
-          this.bannerIsAlert = false;
+          this.run.banner = null;
+          this.run.bannerIsAlert = false;
           this.advancePointer();
         } else {
           return; // still showing banner
@@ -5390,15 +6004,15 @@ export class EventState extends State {
     }
 
     // Wait timer
-    if (this.waiting) {
-      if (this.skipMode) {
-        this.waiting = false;
-        this.waitTimer = 0;
+    if (this.run.waiting) {
+      if (this.run.skipMode) {
+        this.run.waiting = false;
+        this.run.waitTimer = 0;
         this.advancePointer();
       } else {
-        this.waitTimer -= FRAMETIME;
-        if (this.waitTimer <= 0) {
-          this.waiting = false;
+        this.run.waitTimer -= FRAMETIME;
+        if (this.run.waitTimer <= 0) {
+          this.run.waiting = false;
           this.advancePointer();
         }
         return;
@@ -5406,17 +6020,17 @@ export class EventState extends State {
     }
 
     // Transition fade animation
-    if (this.transitionFadingIn) {
-      if (this.skipMode) {
-        this.transitionAlpha = 1;
-        this.transitionFadingIn = false;
-        this.transitionHoldBlack = true;
+    if (this.run.transitionFadingIn) {
+      if (this.run.skipMode) {
+        this.run.transitionAlpha = 1;
+        this.run.transitionFadingIn = false;
+        this.run.transitionHoldBlack = true;
         this.advancePointer();
       } else {
-        this.transitionAlpha = Math.min(1, this.transitionAlpha + FRAMETIME / this.transitionDurationMs);
-        if (this.transitionAlpha >= 1) {
-          this.transitionFadingIn = false;
-          this.transitionHoldBlack = true;
+        this.run.transitionAlpha = Math.min(1, this.run.transitionAlpha + FRAMETIME / this.run.transitionDurationMs);
+        if (this.run.transitionAlpha >= 1) {
+          this.run.transitionFadingIn = false;
+          this.run.transitionHoldBlack = true;
           this.advancePointer();
           // Don't return — allow burst to continue while holding black
         } else {
@@ -5424,17 +6038,17 @@ export class EventState extends State {
         }
       }
     }
-    if (this.transitionFadingOut) {
-      if (this.skipMode) {
-        this.transitionAlpha = 0;
-        this.transitionFadingOut = false;
-        this.transitionHoldBlack = false;
+    if (this.run.transitionFadingOut) {
+      if (this.run.skipMode) {
+        this.run.transitionAlpha = 0;
+        this.run.transitionFadingOut = false;
+        this.run.transitionHoldBlack = false;
         this.advancePointer();
       } else {
-        this.transitionAlpha = Math.max(0, this.transitionAlpha - FRAMETIME / this.transitionDurationMs);
-        if (this.transitionAlpha <= 0) {
-          this.transitionFadingOut = false;
-          this.transitionHoldBlack = false;
+        this.run.transitionAlpha = Math.max(0, this.run.transitionAlpha - FRAMETIME / this.run.transitionDurationMs);
+        if (this.run.transitionAlpha <= 0) {
+          this.run.transitionFadingOut = false;
+          this.run.transitionHoldBlack = false;
           this.advancePointer();
         }
         return;
@@ -5442,7 +6056,7 @@ export class EventState extends State {
     }
 
     // Choice menu — block while active
-    if (this.choiceMenu) {
+    if (this.run.choiceMenu) {
       return;
     }
 
@@ -5452,31 +6066,52 @@ export class EventState extends State {
       return;
     }
 
+    // Event unit movement — camera follows the walkers; blocks unless no_block
+    if (this.run.movingUnits.length > 0) {
+      if (this.run.skipMode) {
+        for (const unit of this.run.movingUnits) game.movementSystem.finishUnit(unit);
+      }
+      const stillMoving = this.run.movingUnits.filter((u) => game.movementSystem.isUnitMoving(u));
+      if (stillMoving.length > 0) {
+        const lead = game.movementSystem.getVisualTile(stillMoving[0]);
+        if (this.run.followMovement && lead) {
+          game.camera?.focusTile(lead[0], lead[1]);
+        }
+        if (this.run.blockOnMovement) return;
+      } else {
+        this.run.movingUnits = [];
+        if (this.run.blockOnMovement) {
+          this.run.blockOnMovement = false;
+          this.advancePointer();
+        }
+      }
+    }
+
     // Chapter title overlay animation
-    if (this.chapterTitlePhase !== 'none') {
-      if (this.skipMode) {
-        this.chapterTitlePhase = 'none';
-        this.chapterTitleTimer = 0;
+    if (this.run.chapterTitlePhase !== 'none') {
+      if (this.run.skipMode) {
+        this.run.chapterTitlePhase = 'none';
+        this.run.chapterTitleTimer = 0;
         this.advancePointer();
       } else {
-        this.chapterTitleTimer += FRAMETIME;
-        switch (this.chapterTitlePhase) {
+        this.run.chapterTitleTimer += FRAMETIME;
+        switch (this.run.chapterTitlePhase) {
           case 'fade_in':
-            if (this.chapterTitleTimer >= 1000) {
-              this.chapterTitlePhase = 'hold';
-              this.chapterTitleTimer = 0;
+            if (this.run.chapterTitleTimer >= 1000) {
+              this.run.chapterTitlePhase = 'hold';
+              this.run.chapterTitleTimer = 0;
             }
             break;
           case 'hold':
-            if (this.chapterTitleTimer >= 3000) {
-              this.chapterTitlePhase = 'fade_out';
-              this.chapterTitleTimer = 0;
+            if (this.run.chapterTitleTimer >= 3000) {
+              this.run.chapterTitlePhase = 'fade_out';
+              this.run.chapterTitleTimer = 0;
             }
             break;
           case 'fade_out':
-            if (this.chapterTitleTimer >= 1000) {
-              this.chapterTitlePhase = 'none';
-              this.chapterTitleTimer = 0;
+            if (this.run.chapterTitleTimer >= 1000) {
+              this.run.chapterTitlePhase = 'none';
+              this.run.chapterTitleTimer = 0;
               this.advancePointer();
             }
             break;
@@ -5486,27 +6121,27 @@ export class EventState extends State {
     }
 
     // Location card timer (non-blocking: just updates alpha, doesn't stop command processing)
-    if (this.locationCard) {
-      this.locationCard.timer += FRAMETIME;
-      switch (this.locationCard.phase) {
+    if (this.run.locationCard) {
+      this.run.locationCard.timer += FRAMETIME;
+      switch (this.run.locationCard.phase) {
         case 'fade_in':
-          this.locationCard.alpha = Math.min(0.9, this.locationCard.timer / 200);
-          if (this.locationCard.timer >= 200) {
-            this.locationCard.phase = 'hold';
-            this.locationCard.timer = 0;
+          this.run.locationCard.alpha = Math.min(0.9, this.run.locationCard.timer / 200);
+          if (this.run.locationCard.timer >= 200) {
+            this.run.locationCard.phase = 'hold';
+            this.run.locationCard.timer = 0;
           }
           break;
         case 'hold':
-          this.locationCard.alpha = 0.9;
-          if (this.locationCard.timer >= 2000) {
-            this.locationCard.phase = 'fade_out';
-            this.locationCard.timer = 0;
+          this.run.locationCard.alpha = 0.9;
+          if (this.run.locationCard.timer >= 2000) {
+            this.run.locationCard.phase = 'fade_out';
+            this.run.locationCard.timer = 0;
           }
           break;
         case 'fade_out':
-          this.locationCard.alpha = Math.max(0, 0.9 - (this.locationCard.timer / 200) * 0.9);
-          if (this.locationCard.timer >= 200) {
-            this.locationCard = null;
+          this.run.locationCard.alpha = Math.max(0, 0.9 - (this.run.locationCard.timer / 200) * 0.9);
+          if (this.run.locationCard.timer >= 200) {
+            this.run.locationCard = null;
           }
           break;
       }
@@ -5518,7 +6153,7 @@ export class EventState extends State {
     // are always available when the next command (e.g. speak) executes.
     // In skip mode, we still need to wait — the portrait must exist in the
     // portraits map for subsequent commands that reference it by name.
-    if (this.pendingPortraitLoads > 0) {
+    if (this.run.pendingPortraitLoads > 0) {
       return;
     }
 
@@ -5528,12 +6163,12 @@ export class EventState extends State {
       burst++;
 
       // Ensure we have an event to process
-      if (!this.currentEvent) {
+      if (!this.run.currentEvent) {
         this.finishAndDequeue();
         return;
       }
 
-      const ev = this.currentEvent;
+      const ev = this.run.currentEvent;
       const commands = ev.commands;
 
       // Check if event is complete
@@ -5564,33 +6199,33 @@ export class EventState extends State {
 
   override draw(surf: Surface): Surface {
     // Background panorama (drawn on top of map, behind portraits)
-    if (this.background) {
+    if (this.run.background) {
       // Center the background image on the 240x160 surface
-      const bx = Math.floor((surf.width - this.background.width) / 2);
-      const by = Math.floor((surf.height - this.background.height) / 2);
-      surf.blitImage(this.background, 0, 0, this.background.width, this.background.height, bx, by);
+      const bx = Math.floor((surf.width - this.run.background.width) / 2);
+      const by = Math.floor((surf.height - this.run.background.height) / 2);
+      surf.blitImage(this.run.background, 0, 0, this.run.background.width, this.run.background.height, bx, by);
     }
 
     // Transition fade overlay
-    if (this.transitionAlpha > 0) {
-      surf.fillRect(0, 0, surf.width, surf.height, `rgba(${this.transitionColor},${this.transitionAlpha})`);
+    if (this.run.transitionAlpha > 0) {
+      surf.fillRect(0, 0, surf.width, surf.height, `rgba(${this.run.transitionColor},${this.run.transitionAlpha})`);
     }
 
     // Update and draw portraits (sorted by priority, ascending)
     const dt = FRAMETIME; // ~16.67ms per frame
     const toRemove: string[] = [];
-    for (const [name, portrait] of this.portraits) {
+    for (const [name, portrait] of this.run.portraits) {
       const finished = portrait.update(dt);
       if (finished) {
         toRemove.push(name);
       }
     }
     for (const name of toRemove) {
-      this.portraits.delete(name);
+      this.run.portraits.delete(name);
     }
 
     // Draw portraits sorted by priority (lowest first = drawn behind)
-    const sortedPortraits = [...this.portraits.values()].sort(
+    const sortedPortraits = [...this.run.portraits.values()].sort(
       (a, b) => a.priority - b.priority,
     );
     for (const portrait of sortedPortraits) {
@@ -5598,23 +6233,23 @@ export class EventState extends State {
     }
 
     // UI on top of portraits
-    if (this.dialog) {
-      this.dialog.draw(surf);
+    if (this.run.dialog) {
+      this.run.dialog.draw(surf);
     }
-    if (this.banner) {
-      this.banner.draw(surf);
+    if (this.run.banner) {
+      this.run.banner.draw(surf);
     }
-    if (this.choiceMenu) {
-      this.choiceMenu.draw(surf);
+    if (this.run.choiceMenu) {
+      this.run.choiceMenu.draw(surf);
     }
 
     // Chapter title overlay (drawn on top of everything)
-    if (this.chapterTitlePhase !== 'none') {
+    if (this.run.chapterTitlePhase !== 'none') {
       let ctAlpha = 1;
-      if (this.chapterTitlePhase === 'fade_in') {
-        ctAlpha = Math.min(1, this.chapterTitleTimer / 1000);
-      } else if (this.chapterTitlePhase === 'fade_out') {
-        ctAlpha = Math.max(0, 1 - this.chapterTitleTimer / 1000);
+      if (this.run.chapterTitlePhase === 'fade_in') {
+        ctAlpha = Math.min(1, this.run.chapterTitleTimer / 1000);
+      } else if (this.run.chapterTitlePhase === 'fade_out') {
+        ctAlpha = Math.max(0, 1 - this.run.chapterTitleTimer / 1000);
       }
 
       // Black background
@@ -5633,16 +6268,16 @@ export class EventState extends State {
         const titleColor = `rgba(255,230,120,${ctAlpha})`;
         const titleFont = '10px monospace';
         // Approximate centering
-        const textW = this.chapterTitleText.length * 6; // ~6px per char at 10px mono
+        const textW = this.run.chapterTitleText.length * 6; // ~6px per char at 10px mono
         const tx = Math.floor((surf.width - textW) / 2);
         const ty = bannerY + Math.floor((bannerH - 10) / 2);
-        surf.drawText(this.chapterTitleText, tx, ty, titleColor, titleFont);
+        surf.drawText(this.run.chapterTitleText, tx, ty, titleColor, titleFont);
       }
     }
 
     // Location card overlay (upper-left corner)
-    if (this.locationCard && this.locationCard.alpha > 0) {
-      const lc = this.locationCard;
+    if (this.run.locationCard && this.run.locationCard.alpha > 0) {
+      const lc = this.run.locationCard;
       const lcPad = 8;
       const lcFont = '8px monospace';
       const lcTextW = lc.text.length * 5; // ~5px per char at 8px mono
@@ -5668,8 +6303,8 @@ export class EventState extends State {
 
   /** Advance the command pointer of the current event by 1. */
   private advancePointer(): void {
-    if (this.currentEvent) {
-      this.currentEvent.commandPointer++;
+    if (this.run.currentEvent) {
+      this.run.currentEvent.commandPointer++;
     }
   }
 
@@ -5685,15 +6320,15 @@ export class EventState extends State {
    */
   private finishAndDequeue(): void {
     const game = getGame();
-    if (this.currentEvent) {
-      this.currentEvent.finish();
+    if (this.run.currentEvent) {
+      this.run.currentEvent.finish();
     }
     game.eventManager?.dequeueCurrentEvent();
 
     // Clean up portraits and talking state
-    if (this.speakingPortrait) {
-      this.speakingPortrait.stopTalking();
-      this.speakingPortrait = null;
+    if (this.run.speakingPortrait) {
+      this.run.speakingPortrait.stopTalking();
+      this.run.speakingPortrait = null;
     }
 
     // --- Check win/lose flags (matches Python end_event logic) ---
@@ -5743,30 +6378,38 @@ export class EventState extends State {
 
   /**
    * Try to load the next queued event, or pop the state if none remain.
+   * A nested event pops back to the menu that started it rather than
+   * running on into the event it interrupted.
    */
   private loadNextEvent(game: any): void {
     const next = game.eventManager?.getCurrentEvent() ?? null;
-    if (next) {
-      this.currentEvent = next;
-      this.dialog = null;
-      this.banner = null;
-      this.waitTimer = 0;
-      this.waiting = false;
-      this.portraits.clear();
-      this.portraitPriorityCounter = 1;
-      this.pendingPortraitLoads = 0;
-      this.background = null;
-      this.chapterTitleTimer = 0;
-      this.chapterTitlePhase = 'none';
-      this.locationCard = null;
+    const returnToCaller = !!this.run.currentEvent?.nested && !next?.nested;
+    if (next && !returnToCaller) {
+      this.run.currentEvent = next;
+      this.run.dialog = null;
+      this.run.banner = null;
+      this.run.waitTimer = 0;
+      this.run.waiting = false;
+      this.run.portraits.clear();
+      this.run.portraitPriorityCounter = 1;
+      this.run.pendingPortraitLoads = 0;
+      this.run.background = null;
+      this.run.chapterTitleTimer = 0;
+      this.run.chapterTitlePhase = 'none';
+      this.run.locationCard = null;
+    } else if (returnToCaller && this.suspendedRuns.length > 0) {
+      // Put back the interrupted event, so begin() resumes it untouched
+      // once the menu that started the nested event closes
+      this.run = this.suspendedRuns.pop()!;
+      game.state.back();
     } else {
-      this.currentEvent = null;
-      this.portraits.clear();
-      this.pendingPortraitLoads = 0;
-      this.background = null;
-      this.chapterTitleTimer = 0;
-      this.chapterTitlePhase = 'none';
-      this.locationCard = null;
+      this.run.currentEvent = null;
+      this.run.portraits.clear();
+      this.run.pendingPortraitLoads = 0;
+      this.run.background = null;
+      this.run.chapterTitleTimer = 0;
+      this.run.chapterTitlePhase = 'none';
+      this.run.locationCard = null;
       game.state.back();
     }
   }
@@ -5836,7 +6479,7 @@ export class EventState extends State {
     // finishAndDequeue the old event (which would dequeue the new
     // level's events from the new EventManager's queue).
     this.levelTransitionInProgress = true;
-    this.currentEvent = null;
+    this.run.currentEvent = null;
 
     // Load the next level and transition to gameplay
     game.loadLevel(nextLevelNid).then(() => {
@@ -5895,7 +6538,7 @@ export class EventState extends State {
    */
   private buildConditionContext(): ConditionContext {
     const game = getGame();
-    const trigger = this.currentEvent?.trigger;
+    const trigger = this.run.currentEvent?.trigger;
     return {
       game,
       unit1: trigger?.unit1,
@@ -5918,7 +6561,7 @@ export class EventState extends State {
    * Returns the index to jump to (the elif/else/end command itself).
    */
   private jumpToNextBranch(fromIndex: number): number {
-    const commands = this.currentEvent!.commands;
+    const commands = this.run.currentEvent!.commands;
     let depth = 0;
     for (let i = fromIndex + 1; i < commands.length; i++) {
       const t = commands[i].type;
@@ -5940,7 +6583,7 @@ export class EventState extends State {
    * fall-through to the matching `end`, skipping nested if blocks.
    */
   private jumpToEnd(fromIndex: number): number {
-    const commands = this.currentEvent!.commands;
+    const commands = this.run.currentEvent!.commands;
     let depth = 0;
     for (let i = fromIndex + 1; i < commands.length; i++) {
       const t = commands[i].type;
@@ -5964,7 +6607,7 @@ export class EventState extends State {
     // Substitute template variables in all args:
     // {unit} -> the unit that triggered this event (from trigger.unitNid or unit1.nid)
     // {unit2} -> the secondary unit (from trigger.unit2.nid)
-    const trigger = this.currentEvent?.trigger;
+    const trigger = this.run.currentEvent?.trigger;
     const unitNid = trigger?.unitNid ?? trigger?.unit1?.nid ?? '';
     const unit2Nid = trigger?.unitB ?? trigger?.unit2?.nid ?? '';
     const args = rawArgs.map(a =>
@@ -5982,8 +6625,8 @@ export class EventState extends State {
           this.advancePointer();
         } else {
           // Condition false — jump to matching elif/else/end
-          const target = this.jumpToNextBranch(this.currentEvent!.commandPointer);
-          this.currentEvent!.commandPointer = target;
+          const target = this.jumpToNextBranch(this.run.currentEvent!.commandPointer);
+          this.run.currentEvent!.commandPointer = target;
           this._jumpedToBranch = true;
           // Don't advance — we land ON the elif/else/end and it will be
           // processed next iteration.
@@ -6065,14 +6708,14 @@ export class EventState extends State {
             this.advancePointer();
           } else {
             // Still false — jump to next elif/else/end
-            const target = this.jumpToNextBranch(this.currentEvent!.commandPointer);
-            this.currentEvent!.commandPointer = target;
+            const target = this.jumpToNextBranch(this.run.currentEvent!.commandPointer);
+            this.run.currentEvent!.commandPointer = target;
             this._jumpedToBranch = true;
           }
         } else {
           // Fell through from a true branch — skip to matching end
-          const target = this.jumpToEnd(this.currentEvent!.commandPointer);
-          this.currentEvent!.commandPointer = target;
+          const target = this.jumpToEnd(this.run.currentEvent!.commandPointer);
+          this.run.currentEvent!.commandPointer = target;
           // Landing on `end`, which will just advance
         }
         return false;
@@ -6085,8 +6728,8 @@ export class EventState extends State {
           this.advancePointer();
         } else {
           // Fell through from a true branch — skip to end
-          const target = this.jumpToEnd(this.currentEvent!.commandPointer);
-          this.currentEvent!.commandPointer = target;
+          const target = this.jumpToEnd(this.run.currentEvent!.commandPointer);
+          this.run.currentEvent!.commandPointer = target;
         }
         return false;
       }
@@ -6100,7 +6743,7 @@ export class EventState extends State {
 
       case 'finish': {
         // Immediately end the event
-        this.currentEvent!.finish();
+        this.run.currentEvent!.finish();
         return false;
       }
 
@@ -6116,7 +6759,7 @@ export class EventState extends State {
       case 'speak':
       case 'narrate': {
         // In skip mode, auto-advance past all dialogue without showing it
-        if (this.skipMode) {
+        if (this.run.skipMode) {
           this.advancePointer();
           return false;
         }
@@ -6124,13 +6767,13 @@ export class EventState extends State {
         const text = args[1] ?? '';
 
         // Stop previous speaking portrait
-        if (this.speakingPortrait) {
-          this.speakingPortrait.stopTalking();
-          this.speakingPortrait = null;
+        if (this.run.speakingPortrait) {
+          this.run.speakingPortrait.stopTalking();
+          this.run.speakingPortrait = null;
         }
 
         // Look up portrait for the speaker
-        const portrait = this.portraits.get(speaker) ?? null;
+        const portrait = this.run.portraits.get(speaker) ?? null;
 
         // Check flags (flags are extra args like 'no_talk', 'low_priority', 'hold')
         const flagArgs = args.slice(2).map(s => s.toLowerCase());
@@ -6138,28 +6781,28 @@ export class EventState extends State {
 
         if (portrait && !noTalk && cmd.type !== 'narrate') {
           portrait.startTalking();
-          this.speakingPortrait = portrait;
+          this.run.speakingPortrait = portrait;
 
           // Raise portrait priority (bring to front) unless low_priority
           if (!flagArgs.includes('low_priority')) {
-            portrait.priority = this.portraitPriorityCounter++;
+            portrait.priority = this.run.portraitPriorityCounter++;
           }
         }
 
         // Create dialog with optional portrait reference for positioning
-        this.dialog = new Dialog(text, speaker || undefined, portrait ?? undefined);
+        this.run.dialog = new Dialog(text, speaker || undefined, portrait ?? undefined);
 
         // Don't advance pointer — it's advanced when dialog finishes (in takeInput)
         return true;
       }
 
       case 'wait': {
-        if (this.skipMode) {
+        if (this.run.skipMode) {
           this.advancePointer();
           return false;
         }
-        this.waiting = true;
-        this.waitTimer = parseInt(args[0], 10) || 1000;
+        this.run.waiting = true;
+        this.run.waitTimer = parseInt(args[0], 10) || 1000;
         return true;
       }
 
@@ -6170,50 +6813,50 @@ export class EventState extends State {
         // Parse optional duration (ms) and color
         const durationArg = parseInt(args[1], 10);
         if (!isNaN(durationArg) && durationArg > 0) {
-          this.transitionDurationMs = durationArg;
+          this.run.transitionDurationMs = durationArg;
         } else {
-          this.transitionDurationMs = 500; // default
+          this.run.transitionDurationMs = 500; // default
         }
         // Parse optional color (r,g,b)
         if (args[2]) {
           const colorParts = args[2].split(',');
           if (colorParts.length >= 3) {
-            this.transitionColor = `${colorParts[0].trim()},${colorParts[1].trim()},${colorParts[2].trim()}`;
+            this.run.transitionColor = `${colorParts[0].trim()},${colorParts[1].trim()},${colorParts[2].trim()}`;
           }
         } else {
-          this.transitionColor = '0,0,0'; // default black
+          this.run.transitionColor = '0,0,0'; // default black
         }
 
-        if (this.skipMode) {
+        if (this.run.skipMode) {
           // In skip mode, apply transitions instantly
           const dir = (args[0] ?? 'close').toLowerCase();
-          this.transitionAlpha = dir === 'open' ? 0 : 1;
-          this.transitionFadingIn = false;
-          this.transitionFadingOut = false;
-          this.transitionHoldBlack = dir !== 'open';
+          this.run.transitionAlpha = dir === 'open' ? 0 : 1;
+          this.run.transitionFadingIn = false;
+          this.run.transitionFadingOut = false;
+          this.run.transitionHoldBlack = dir !== 'open';
           this.advancePointer();
           return false;
         }
         const direction = (args[0] ?? 'close').toLowerCase();
         if (direction === 'open') {
-          this.transitionFadingOut = true;
-          this.transitionAlpha = 1;
+          this.run.transitionFadingOut = true;
+          this.run.transitionAlpha = 1;
         } else {
           // 'close' — fade to black
-          this.transitionFadingIn = true;
-          this.transitionAlpha = 0;
+          this.run.transitionFadingIn = true;
+          this.run.transitionAlpha = 0;
         }
         return true;
       }
 
       case 'alert': {
-        if (this.skipMode) {
+        if (this.run.skipMode) {
           this.advancePointer();
           return false;
         }
         const text = args[0] ?? '';
-        this.banner = new Banner(text, undefined, 3000);
-        this.bannerIsAlert = true;
+        this.run.banner = new Banner(text, undefined, 3000);
+        this.run.bannerIsAlert = true;
         // Don't advance — advanced when banner finishes (in update) or early dismissed via input
         return true;
       }
@@ -6221,13 +6864,18 @@ export class EventState extends State {
       // ----- Unit commands (instant) -----
 
       case 'move_unit': {
-        // move_unit;UnitNid;x,y  or  move_unit;UnitNid (uses starting_position)
-        const unitNid = args[0] ?? '';
+        // move_unit;UnitNid;x,y;MovementType;Placement  or  move_unit;UnitNid (uses starting_position)
+        // flags: no_block, no_follow
+        const [muArgs, muFlags] = splitMovementFlags(args);
+        const unitNid = muArgs[0] ?? '';
         const unit = this.findUnit(unitNid);
+        const movementType = (muArgs[2] || 'normal').toLowerCase().trim();
+        const placement = (muArgs[3] ?? 'giveup').toLowerCase().trim();
+        let blocking = false;
         if (unit && game.board) {
           let targetPos: [number, number] | null = null;
           // Try parsing explicit position
-          const posStr = args[1] ?? '';
+          const posStr = muArgs[1] ?? '';
           if (posStr) {
             const posParts = posStr.split(',').map((s: string) => parseInt(s.trim(), 10));
             if (posParts.length >= 2 && !isNaN(posParts[0]) && !isNaN(posParts[1])) {
@@ -6238,10 +6886,12 @@ export class EventState extends State {
           if (!targetPos && unit.startingPosition) {
             targetPos = [unit.startingPosition[0], unit.startingPosition[1]];
           }
-          if (targetPos) {
-            game.board.moveUnit(unit, targetPos[0], targetPos[1]);
+          const finalPos = targetPos ? this._checkPlacement(targetPos, placement, game) : null;
+          if (finalPos) {
+            blocking = this.beginEventMovement([[unit, finalPos]], movementType, muFlags, game);
           }
         }
+        if (blocking) return true;
         this.advancePointer();
         return false;
       }
@@ -6293,6 +6943,7 @@ export class EventState extends State {
           }
           game.board.removeUnit(unit);
           game.units.delete(unitNid);
+          game.actionLog.doAction(new SyncAurasAction());
         }
         this.advancePointer();
         return false;
@@ -6306,10 +6957,11 @@ export class EventState extends State {
           if (game.initiative) {
             game.initiative.removeUnit(unit);
           }
-          unit.dead = true;
           unit.currentHp = 0;
           if (game.board) {
-            game.board.removeUnit(unit);
+            game.actionLog.doAction(new DeathAction(unit, game.board));
+          } else {
+            unit.dead = true;
           }
         }
         this.advancePointer();
@@ -6365,7 +7017,7 @@ export class EventState extends State {
           } else {
             // Unit exists but not on map — place them
             if (game.board) {
-              game.board.moveUnit(existing, finalPos[0], finalPos[1]);
+              game.actionLog.doAction(new ArriveAction(existing, finalPos, game.board));
             }
           }
         }
@@ -6375,12 +7027,14 @@ export class EventState extends State {
 
       case 'spawn_group': {
         // spawn_group;GroupNid;CardinalDirection;StartingGroup;MovementType;Placement
+        // flags: no_block, no_follow
         // Units appear at map edge, then walk to their destination position.
-        const groupNid = args[0] ?? '';
-        const direction = (args[1] ?? 'south').toLowerCase().trim();
-        const startingGroup = args[2] ?? '';
-        // args[3] = movement type (normal/immediate/warp/fade; all treated as immediate for now)
-        const placement = (args[4] ?? 'giveup').toLowerCase().trim();
+        const [sgArgs, sgFlags] = splitMovementFlags(args);
+        const groupNid = sgArgs[0] ?? '';
+        const direction = (sgArgs[1] ?? 'south').toLowerCase().trim();
+        const startingGroup = sgArgs[2] ?? '';
+        const movementType = (sgArgs[3] || 'normal').toLowerCase().trim();
+        const placement = (sgArgs[4] ?? 'giveup').toLowerCase().trim();
         const groups: any[] = game.currentLevel?.unit_groups ?? [];
         const group = groups.find((g: any) => g.nid === groupNid);
         if (!group) {
@@ -6394,6 +7048,7 @@ export class EventState extends State {
         const tilemap = game.tilemap;
         const mapW = tilemap?.width ?? 20;
         const mapH = tilemap?.height ?? 20;
+        const sgMoves: [UnitObject, [number, number]][] = [];
 
         for (const uNid of unitNids) {
           const existing = this.findUnit(uNid);
@@ -6431,18 +7086,19 @@ export class EventState extends State {
             this.spawnUnitFromLevelData(unitData, edgePos, game);
           } else {
             if (game.board) {
-              game.board.moveUnit(existing, edgePos[0], edgePos[1]);
+              game.actionLog.doAction(new ArriveAction(existing, edgePos, game.board));
             }
           }
 
           // Now move the unit from edge to destination
           const spawnedUnit = this.findUnit(uNid);
-          if (spawnedUnit && game.board) {
-            game.board.moveUnit(spawnedUnit, finalDest[0], finalDest[1]);
+          if (spawnedUnit?.position && game.board) {
+            sgMoves.push([spawnedUnit, finalDest]);
           }
         }
-        // TODO: In Python, spawn_group pauses for movement animation unless no_block.
-        // For now, units teleport instantly. Movement animation can be added later.
+        if (game.board && this.beginEventMovement(sgMoves, movementType, sgFlags, game)) {
+          return true;
+        }
         this.advancePointer();
         return false;
       }
@@ -6460,6 +7116,7 @@ export class EventState extends State {
               game.units.delete(uNid);
             }
           }
+          game.actionLog.doAction(new SyncAurasAction());
         }
         this.advancePointer();
         return false;
@@ -6467,12 +7124,15 @@ export class EventState extends State {
 
       case 'move_group': {
         // move_group;GroupNid;StartingGroup;MovementType;Placement
-        const groupNid = args[0] ?? '';
-        const startingGroup = args[1] ?? '';
-        // args[2] = movement type (ignored — all teleport for now)
-        const placement = (args[3] ?? 'giveup').toLowerCase().trim();
+        // flags: no_block, no_follow
+        const [mgArgs, mgFlags] = splitMovementFlags(args);
+        const groupNid = mgArgs[0] ?? '';
+        const startingGroup = mgArgs[1] ?? '';
+        const movementType = (mgArgs[2] || 'normal').toLowerCase().trim();
+        const placement = (mgArgs[3] ?? 'giveup').toLowerCase().trim();
         const groups: any[] = game.currentLevel?.unit_groups ?? [];
         const group = groups.find((g: any) => g.nid === groupNid);
+        const mgMoves: [UnitObject, [number, number]][] = [];
         if (group && game.board) {
           const unitNids: string[] = group.units ?? [];
           for (const uNid of unitNids) {
@@ -6482,9 +7142,12 @@ export class EventState extends State {
             if (!destPos) continue;
             const finalPos = this._checkPlacement(destPos, placement, game);
             if (!finalPos) continue;
-            game.board.moveUnit(unit, finalPos[0], finalPos[1]);
+            mgMoves.push([unit, finalPos]);
           }
         }
+        if (this.beginEventMovement(mgMoves, movementType, mgFlags, game)) {
+          return true;
+        }
         this.advancePointer();
         return false;
       }
@@ -6586,7 +7249,7 @@ export class EventState extends State {
           // Level up if exp >= 100
           while (unit.exp >= 100) {
             unit.exp -= 100;
-            unit.levelUp();
+            unit.levelUp(game.getGrowthMode());
           }
         }
         this.advancePointer();
@@ -6742,8 +7405,8 @@ export class EventState extends State {
         }
         this.advancePointer();
         // Music is treated as blocking briefly to let the transition feel natural
-        this.waiting = true;
-        this.waitTimer = 100;
+        this.run.waiting = true;
+        this.run.waitTimer = 100;
         return true;
       }
 
@@ -6859,13 +7522,13 @@ export class EventState extends State {
         if (game.camera) {
           game.camera.setShake(shakeType, durationMs);
         }
-        if (noBlock || this.skipMode) {
+        if (noBlock || this.run.skipMode) {
           this.advancePointer();
           return false;
         }
         // Block for the shake duration
-        this.waitTimer = durationMs;
-        this.waiting = true;
+        this.run.waitTimer = durationMs;
+        this.run.waiting = true;
         return true;
       }
 
@@ -6979,11 +7642,16 @@ export class EventState extends State {
       }
 
       case 'open_convoy': {
-        // open_convoy — opens the convoy/supply UI (stub for now)
-        // This would push a supply_items state; currently just skip
-        console.warn('open_convoy: convoy UI not yet implemented');
+        // open_convoy;[unit_nid] — opens the supply screen, for the given
+        // unit or with a unit picker. The event resumes once it closes.
+        const ocUnit = args[0] ? this.findUnit(args[0]) : undefined;
+        if (args[0] && !ocUnit) {
+          console.warn(`open_convoy: unit "${args[0]}" not found`);
+        }
+        game.memory.set('supply_unit', ocUnit ?? null);
         this.advancePointer();
-        return false;
+        game.state.change('supply');
+        return true;
       }
 
       // ----- Talk management -----
@@ -7016,9 +7684,9 @@ export class EventState extends State {
 
       case 'end_turn': {
         // Finish this event, then trigger a turn change
-        if (this.currentEvent) this.currentEvent.finish();
+        if (this.run.currentEvent) this.run.currentEvent.finish();
         game.eventManager?.dequeueCurrentEvent();
-        this.currentEvent = null;
+        this.run.currentEvent = null;
         game.state.back();
         game.state.change('turn_change');
         return true;
@@ -7103,8 +7771,8 @@ export class EventState extends State {
 
       case 'promote': {
         // promote;unit_nid;[class_nid1,class_nid2,...];[silent]
-        // If silent + single class: apply immediately with stat changes
-        // If not silent or multiple classes: for now, treat as silent with first class
+        // Silent: apply the first class immediately.
+        // Otherwise: open the promotion choice screen (skips the choice with one class).
         const promoUnitNid = args[0] ?? '';
         const promoUnit = this.findUnit(promoUnitNid);
         if (promoUnit) {
@@ -7122,30 +7790,16 @@ export class EventState extends State {
             }
           }
 
-          if (klassList.length > 0) {
-            // Use the first class (for multi-class, a choice UI would be needed)
-            const newKlass = klassList[0];
-            const promoAction = new PromoteAction(promoUnit, newKlass);
-            game.actionLog.doAction(promoAction);
-
-            // Grant new class skills
-            this.grantClassSkills(promoUnit, game);
-
-            // Apply new weapon experience
-            const { newWexp } = promoAction.getData();
-            if (newWexp) {
-              for (const [weaponNid, value] of Object.entries(newWexp)) {
-                if (value > 0) {
-                  const current = promoUnit.wexp[weaponNid] ?? 0;
-                  promoUnit.wexp[weaponNid] = Math.max(current, value);
-                }
-              }
-            }
-
-            // Reload map sprite for new class
-            this.loadMapSpriteForUnit(promoUnit, game);
-          } else {
+          if (klassList.length === 0) {
             console.warn(`promote: no promotion classes available for unit "${promoUnitNid}"`);
+          } else if (isSilent || this.run.skipMode) {
+            applyClassChoice(promoUnit, klassList[0], 'promote');
+          } else {
+            const request: ClassChoiceRequest = { unit: promoUnit, klasses: klassList, mode: 'promote' };
+            game.memory.set('class_choice', request);
+            this.advancePointer();
+            game.state.change('promotion_choice');
+            return true;
           }
         }
         this.advancePointer();
@@ -7154,8 +7808,8 @@ export class EventState extends State {
 
       case 'change_class': {
         // change_class;unit_nid;[class_nid1,class_nid2,...];[silent]
-        // If silent + single class: apply immediately with stat changes
-        // If not silent or multiple classes: for now, treat as silent with first class
+        // Silent: apply the first class immediately.
+        // Otherwise: open the class choice screen (skips the choice with one class).
         const ccUnitNid = args[0] ?? '';
         const ccUnit = this.findUnit(ccUnitNid);
         if (ccUnit) {
@@ -7172,32 +7826,18 @@ export class EventState extends State {
               ccKlassList = [...currentKlass.turns_into];
             }
           }
+          ccKlassList = ccKlassList.filter((k: string) => k !== ccUnit.klass);
 
-          if (ccKlassList.length > 0) {
-            const newKlass = ccKlassList[0];
-            if (newKlass !== ccUnit.klass) {
-              const ccAction = new ClassChangeAction(ccUnit, newKlass);
-              game.actionLog.doAction(ccAction);
-
-              // Grant new class skills
-              this.grantClassSkills(ccUnit, game);
-
-              // Apply new weapon experience
-              const { newWexp } = ccAction.getData();
-              if (newWexp) {
-                for (const [weaponNid, value] of Object.entries(newWexp)) {
-                  if (value > 0) {
-                    const current = ccUnit.wexp[weaponNid] ?? 0;
-                    ccUnit.wexp[weaponNid] = Math.max(current, value);
-                  }
-                }
-              }
-
-              // Reload map sprite for new class
-              this.loadMapSpriteForUnit(ccUnit, game);
-            }
-          } else {
+          if (ccKlassList.length === 0) {
             console.warn(`change_class: no class options available for unit "${ccUnitNid}"`);
+          } else if (ccIsSilent || this.run.skipMode) {
+            applyClassChoice(ccUnit, ccKlassList[0], 'class_change');
+          } else {
+            const request: ClassChoiceRequest = { unit: ccUnit, klasses: ccKlassList, mode: 'class_change' };
+            game.memory.set('class_choice', request);
+            this.advancePointer();
+            game.state.change('promotion_choice');
+            return true;
           }
         }
         this.advancePointer();
@@ -7219,7 +7859,7 @@ export class EventState extends State {
           // Center the menu on screen
           const menuX = 80;
           const menuY = 40;
-          this.choiceMenu = new ChoiceMenu(menuOptions, menuX, menuY);
+          this.run.choiceMenu = new ChoiceMenu(menuOptions, menuX, menuY);
           return true; // block until user picks
         }
         this.advancePointer();
@@ -7227,7 +7867,7 @@ export class EventState extends State {
       }
 
       case 'unchoice': {
-        this.choiceResult = null;
+        this.run.choiceResult = null;
         this.advancePointer();
         return false;
       }
@@ -7412,8 +8052,8 @@ export class EventState extends State {
           return false;
         }
         // Block for animation duration
-        this.waiting = true;
-        this.waitTimer = mapAnim.getDuration();
+        this.run.waiting = true;
+        this.run.waitTimer = mapAnim.getDuration();
         return true;
       }
 
@@ -7435,9 +8075,9 @@ export class EventState extends State {
         const tmNid = args[0] ?? '';
         if (tmNid) {
           // Async: block the event until the tilemap is loaded
-          this.waiting = true;
+          this.run.waiting = true;
           game.changeTilemap(tmNid).then(() => {
-            this.waiting = false;
+            this.run.waiting = false;
             this.advancePointer();
           });
           return true;
@@ -7450,6 +8090,8 @@ export class EventState extends State {
         const layerNid = args[0] ?? '';
         if (game.tilemap) {
           game.tilemap.showLayer(layerNid);
+          // Layers can change terrain; keep movement (and the danger zone) in step
+          game.board?.initFromTilemap(game.tilemap);
         }
         this.advancePointer();
         return false;
@@ -7459,6 +8101,7 @@ export class EventState extends State {
         const layerNid2 = args[0] ?? '';
         if (game.tilemap) {
           game.tilemap.hideLayer(layerNid2);
+          game.board?.initFromTilemap(game.tilemap);
         }
         this.advancePointer();
         return false;
@@ -7467,10 +8110,18 @@ export class EventState extends State {
       // ----- Weather -----
 
       case 'add_weather': {
-        // add_weather;nid
+        // add_weather;nid;intensity;wind
+        // intensity: particle/overlay multiplier (default 1)
+        // wind: extra horizontal pixels per frame (default 0)
+        // Re-adding an active weather just changes its intensity/wind.
         const weatherNid = (args[0] ?? '').toLowerCase();
         if (weatherNid && game.tilemap) {
-          game.tilemap.addWeather(weatherNid);
+          const intensity = parseFloat(args[1]);
+          const wind = parseFloat(args[2]);
+          game.tilemap.addWeather(weatherNid, {
+            intensity: Number.isFinite(intensity) ? intensity : undefined,
+            wind: Number.isFinite(wind) ? wind : undefined,
+          });
         }
         this.advancePointer();
         return false;
@@ -7519,27 +8170,27 @@ export class EventState extends State {
         const forValues = (args[1] ?? '').split(',').map((s: string) => s.trim()).filter((s: string) => s.length > 0);
         if (forValues.length === 0) {
           // Empty loop — skip to matching endf
-          const commands = this.currentEvent!.commands;
+          const commands = this.run.currentEvent!.commands;
           let depth = 0;
-          for (let i = this.currentEvent!.commandPointer + 1; i < commands.length; i++) {
+          for (let i = this.run.currentEvent!.commandPointer + 1; i < commands.length; i++) {
             if (commands[i].type === 'for') depth++;
             if (commands[i].type === 'endf') {
               if (depth === 0) {
-                this.currentEvent!.commandPointer = i + 1;
+                this.run.currentEvent!.commandPointer = i + 1;
                 return false;
               }
               depth--;
             }
           }
-          this.currentEvent!.commandPointer = this.currentEvent!.commands.length;
+          this.run.currentEvent!.commandPointer = this.run.currentEvent!.commands.length;
           return false;
         }
         // Push loop context and set first value
-        this.forLoopStack.push({
+        this.run.forLoopStack.push({
           varName: forVar,
           values: forValues,
           currentIndex: 0,
-          startPointer: this.currentEvent!.commandPointer + 1,
+          startPointer: this.run.currentEvent!.commandPointer + 1,
         });
         game.gameVars.set(forVar, forValues[0]);
         this.advancePointer();
@@ -7547,17 +8198,17 @@ export class EventState extends State {
       }
 
       case 'endf': {
-        const loopCtx = this.forLoopStack[this.forLoopStack.length - 1];
+        const loopCtx = this.run.forLoopStack[this.run.forLoopStack.length - 1];
         if (loopCtx) {
           loopCtx.currentIndex++;
           if (loopCtx.currentIndex < loopCtx.values.length) {
             // Set next value and jump back to loop start
             game.gameVars.set(loopCtx.varName, loopCtx.values[loopCtx.currentIndex]);
-            this.currentEvent!.commandPointer = loopCtx.startPointer;
+            this.run.currentEvent!.commandPointer = loopCtx.startPointer;
             return false;
           } else {
             // Loop complete — pop and advance past endf
-            this.forLoopStack.pop();
+            this.run.forLoopStack.pop();
             this.advancePointer();
             return false;
           }
@@ -7619,13 +8270,13 @@ export class EventState extends State {
         const immediate = pFlags.includes('immediate');
         const lowPriority = pFlags.includes('low_priority');
 
-        const priority = lowPriority ? 0 : this.portraitPriorityCounter++;
+        const priority = lowPriority ? 0 : this.run.portraitPriorityCounter++;
 
         // Load portrait image asynchronously. Block command processing until
         // the image is ready — in the original Python engine, image loads are
         // synchronous, so the portrait is always available when subsequent
         // commands (e.g. speak) execute.
-        this.pendingPortraitLoads++;
+        this.run.pendingPortraitLoads++;
         game.resources.loadPortrait(resolvedNid).then((image: HTMLImageElement) => {
           const portrait = new EventPortrait(
             image,
@@ -7642,11 +8293,11 @@ export class EventState extends State {
               speedMult: 1,
             },
           );
-          this.portraits.set(portraitNid, portrait);
-          this.pendingPortraitLoads--;
+          this.run.portraits.set(portraitNid, portrait);
+          this.run.pendingPortraitLoads--;
         }).catch(() => {
           console.warn(`EventState: failed to load portrait "${resolvedNid}"`);
-          this.pendingPortraitLoads--;
+          this.run.pendingPortraitLoads--;
         });
 
         this.advancePointer();
@@ -7673,19 +8324,19 @@ export class EventState extends State {
           const blinkOffset: [number, number] = portraitMeta?.blinking_offset ?? [24, 32];
           const smileOffset: [number, number] = portraitMeta?.smiling_offset ?? [16, 48];
           const { position: pos, mirror: autoMirror } = parseScreenPosition(pPos);
-          const priority = this.portraitPriorityCounter++;
+          const priority = this.run.portraitPriorityCounter++;
 
-          this.pendingPortraitLoads++;
+          this.run.pendingPortraitLoads++;
           game.resources.loadPortrait(resolvedNid).then((image: HTMLImageElement) => {
             const portrait = new EventPortrait(
               image, blinkOffset, smileOffset, pos, priority, pNid,
               { transition: true, mirror: autoMirror },
             );
-            this.portraits.set(pNid, portrait);
-            this.pendingPortraitLoads--;
+            this.run.portraits.set(pNid, portrait);
+            this.run.pendingPortraitLoads--;
           }).catch(() => {
             console.warn(`EventState: failed to load portrait "${resolvedNid}"`);
-            this.pendingPortraitLoads--;
+            this.run.pendingPortraitLoads--;
           });
         }
         this.advancePointer();
@@ -7701,10 +8352,10 @@ export class EventState extends State {
         const speedMult = speedMultStr ? parseFloat(speedMultStr) : 1;
         const removeSlide = removeExtraArgs.find(a => a === 'left' || a === 'right') as 'left' | 'right' | undefined;
 
-        const portrait = this.portraits.get(removeNid);
+        const portrait = this.run.portraits.get(removeNid);
         if (portrait) {
           if (removeImmediate) {
-            this.portraits.delete(removeNid);
+            this.run.portraits.delete(removeNid);
           } else {
             portrait.end(speedMult, removeSlide);
           }
@@ -7719,10 +8370,10 @@ export class EventState extends State {
         const mrImmediate = mrExtraArgs.includes('immediate');
         const mrNids = args.filter(a => a.toLowerCase().trim() !== 'immediate');
         for (const nid of mrNids) {
-          const portrait = this.portraits.get(nid);
+          const portrait = this.run.portraits.get(nid);
           if (portrait) {
             if (mrImmediate) {
-              this.portraits.delete(nid);
+              this.run.portraits.delete(nid);
             } else {
               portrait.end();
             }
@@ -7735,9 +8386,9 @@ export class EventState extends State {
       case 'remove_all_portraits': {
         const rapImmediate = args.some(a => a.toLowerCase().trim() === 'immediate');
         if (rapImmediate) {
-          this.portraits.clear();
+          this.run.portraits.clear();
         } else {
-          for (const portrait of this.portraits.values()) {
+          for (const portrait of this.run.portraits.values()) {
             portrait.end();
           }
         }
@@ -7751,7 +8402,7 @@ export class EventState extends State {
         const movePos = args[1] ?? 'Left';
         const moveImmediate = args.slice(2).some(a => a.toLowerCase().trim() === 'immediate');
 
-        const portrait = this.portraits.get(moveNid);
+        const portrait = this.run.portraits.get(moveNid);
         if (portrait) {
           const { position: newPos } = parseScreenPosition(movePos);
           if (moveImmediate) {
@@ -7771,7 +8422,7 @@ export class EventState extends State {
         const numBops = parseInt(args[1], 10) || 2;
         const bopTime = parseInt(args[2], 10) || undefined;
 
-        const portrait = this.portraits.get(bopNid);
+        const portrait = this.run.portraits.get(bopNid);
         if (portrait) {
           portrait.bop(numBops, 2, bopTime);
         }
@@ -7782,7 +8433,7 @@ export class EventState extends State {
       case 'mirror_portrait': {
         // mirror_portrait;PortraitNid
         const mirrorNid = args[0] ?? '';
-        const portrait = this.portraits.get(mirrorNid);
+        const portrait = this.run.portraits.get(mirrorNid);
         if (portrait) {
           portrait.mirror = !portrait.mirror;
         }
@@ -7794,7 +8445,7 @@ export class EventState extends State {
         // expression;PortraitNid;ExpressionList (comma-separated)
         const exprNid = args[0] ?? '';
         const exprList = args[1] ?? '';
-        const portrait = this.portraits.get(exprNid);
+        const portrait = this.run.portraits.get(exprNid);
         if (portrait) {
           const exprs = exprList.split(',').map(s => s.trim()).filter(Boolean);
           portrait.setExpressions(exprs);
@@ -7822,13 +8473,13 @@ export class EventState extends State {
 
         if (!bgNid) {
           // Remove background
-          this.background = null;
+          this.run.background = null;
         } else {
           // Load panorama image asynchronously
           const game = getGame();
           const panoramaNid = bgNid;
           game.resourceManager?.loadPanorama(panoramaNid).then((img: HTMLImageElement) => {
-            this.background = img;
+            this.run.background = img;
           }).catch(() => {
             console.warn(`EventState: panorama "${panoramaNid}" not found`);
           });
@@ -7836,7 +8487,7 @@ export class EventState extends State {
 
         // By default, change_background clears all portraits
         if (!bgFlagSet.has('keep_portraits')) {
-          this.portraits.clear();
+          this.run.portraits.clear();
         }
 
         this.advancePointer();
@@ -7857,12 +8508,12 @@ export class EventState extends State {
 
         // Determine title text
         const game2 = getGame();
-        this.chapterTitleText = ctTitle || game2.currentLevel?.name || 'Chapter';
-        this.chapterTitlePhase = 'fade_in';
-        this.chapterTitleTimer = 0;
+        this.run.chapterTitleText = ctTitle || game2.currentLevel?.name || 'Chapter';
+        this.run.chapterTitlePhase = 'fade_in';
+        this.run.chapterTitleTimer = 0;
 
         // Disable skip mode (player must watch or manually skip)
-        this.skipMode = false;
+        this.run.skipMode = false;
 
         // Blocking — don't advance pointer; the update loop handles it
         return true;
@@ -7872,7 +8523,7 @@ export class EventState extends State {
       case 'location_card': {
         // location_card;Text
         const lcText = args[0]?.trim() || '';
-        this.locationCard = {
+        this.run.locationCard = {
           text: lcText,
           timer: 0,
           phase: 'fade_in',
@@ -7880,8 +8531,8 @@ export class EventState extends State {
         };
         // Block for the fade_in + hold duration. The wait timer mechanism
         // will advance the pointer when done.
-        this.waiting = true;
-        this.waitTimer = 2200; // 200ms fade in + 2000ms hold
+        this.run.waiting = true;
+        this.run.waitTimer = 2200; // 200ms fade in + 2000ms hold
         return true;
       }
 
@@ -8016,7 +8667,7 @@ export class EventState extends State {
           const attackItem = iuAttacker.items.find((i: ItemObject) => i.isWeapon());
           const defItem = iuDefender.items.find((i: ItemObject) => i.isWeapon()) ?? null;
           if (attackItem) {
-            const rngMode2 = game.db.getConstant('rng_mode', 'true_hit') as any;
+            const rngMode2 = game.getRngMode();
             const mc = new MapCombat(
               iuAttacker, attackItem, iuDefender, defItem,
               game.db, rngMode2, game.board, iuScript,
@@ -8029,12 +8680,12 @@ export class EventState extends State {
             // Handle deaths
             if (results.defenderDead && iuDefender.position && game.board) {
               if (game.initiative) game.initiative.removeUnit(iuDefender);
-              game.board.removeUnit(iuDefender.position[0], iuDefender.position[1]);
+              game.actionLog.doAction(new DeathAction(iuDefender, game.board));
               game.units.delete(iuDefender.nid);
             }
             if (results.attackerDead && iuAttacker.position && game.board) {
               if (game.initiative) game.initiative.removeUnit(iuAttacker);
-              game.board.removeUnit(iuAttacker.position[0], iuAttacker.position[1]);
+              game.actionLog.doAction(new DeathAction(iuAttacker, game.board));
               game.units.delete(iuAttacker.nid);
             }
           }
@@ -8080,7 +8731,7 @@ export class EventState extends State {
         const mgLevel = parseInt(args[2], 10) || 1;
         const mgTeam = args[3] || 'player';
         const mgAi = args[4] || 'None';
-        // args[5] = faction (ignored for now)
+        // args[5] = faction
         const mgVariant = args[6] || '';
         // args[7] = comma-separated item list
         const mgItemStr = args[7] ?? '';
@@ -8547,13 +9198,24 @@ export class EventState extends State {
       case 'textbox':
       case 'set_wexp':
       case 'resurrect':
-      case 'autolevel_to':
-      case 'add_lore': {
+      case 'autolevel_to': {
         // Advanced features not yet implemented — skip
         this.advancePointer();
         return false;
       }
 
+      case 'add_lore': {
+        // add_lore;lore_nid — unlock a codex entry for the base Library
+        const loreNid = args[0] ?? '';
+        if (!game.db.lore.has(loreNid)) {
+          console.warn(`add_lore: unknown lore "${loreNid}"`);
+        } else if (!game.unlockedLore.includes(loreNid)) {
+          game.unlockedLore.push(loreNid);
+        }
+        this.advancePointer();
+        return false;
+      }
+
       case 'enable_fog_of_war': {
         const fogEnableStr = args[0]?.toLowerCase?.() ?? 'true';
         const fogEnable = fogEnableStr === 'true' || fogEnableStr === '1';
@@ -8792,6 +9454,60 @@ export class EventState extends State {
   // Group position lookup: mirrors Python's Event._get_position()
   // -----------------------------------------------------------------------
 
+  // -----------------------------------------------------------------------
+  // Event movement: shared by move_unit, move_group and spawn_group
+  // -----------------------------------------------------------------------
+
+  /**
+   * Move units to their destinations on the board. With the 'normal'
+   * movement type each unit walks a path from its current tile through the
+   * MovementSystem; other types (immediate, warp, fade, swoosh) and units
+   * with no walkable path are placed instantly.
+   *
+   * @returns true if the command should block until the walk finishes
+   *          (i.e. something is walking and no_block was not given).
+   */
+  private beginEventMovement(
+    moves: [UnitObject, [number, number]][],
+    movementType: string,
+    flags: Set<string>,
+    game: any,
+  ): boolean {
+    const animate = movementType === 'normal' && !this.run.skipMode;
+    const walks: [UnitObject, [number, number][]][] = [];
+
+    for (const [unit, dest] of moves) {
+      // Path from the current tile, computed before the board moves the unit
+      const path: [number, number][] | null = animate
+        ? game.pathSystem.getPath(unit, dest[0], dest[1], game.board)
+        : null;
+      game.board.moveUnit(unit, dest[0], dest[1]);
+      if (path && path.length > 1) walks.push([unit, path]);
+    }
+    // Units already stand on their destinations (the walk is only drawn),
+    // so auras are synced from there. Scripted moves keep the unit's turn,
+    // so only the auras go through an action.
+    game.actionLog.doAction(new SyncAurasAction());
+
+    const walkers: UnitObject[] = [];
+    for (const [unit, path] of walks) {
+      // Scripted movement does not spend the unit's turn
+      const hadMoved = unit.hasMoved;
+      game.movementSystem.beginMove(unit, path, undefined, () => {
+        unit.hasMoved = hadMoved;
+      });
+      walkers.push(unit);
+    }
+
+    if (walkers.length === 0) return false;
+
+    this.run.movingUnits.push(...walkers);
+    this.run.followMovement = !flags.has('no_follow');
+    if (flags.has('no_block')) return false;
+    this.run.blockOnMovement = true;
+    return true;
+  }
+
   /**
    * Resolve the position for a unit within a group command.
    *
@@ -8932,39 +9648,42 @@ export class EventState extends State {
     game: any,
   ): void {
     const isGeneric = unitData.generic === true;
-    const pos = posOverride ?? unitData.starting_position ?? null;
+    const pos: [number, number] | null = posOverride ?? unitData.starting_position ?? null;
 
+    // Spawn off the map, then arrive through an action so the arrival
+    // hands out (and receives) aura children
+    let spawned: UnitObject | null = null;
     if (isGeneric) {
       // Generic unit — build synthetic prefab and spawn
-      const data = { ...unitData, starting_position: pos };
-      game.spawnGenericUnit(data);
-      const spawned = game.units.get(unitData.nid);
-      if (spawned) {
-        this.loadMapSpriteForUnit(spawned, game);
-        // Insert into initiative tracker if active
-        if (game.initiative) {
-          game.initiative.insertUnit(spawned, game.db);
-        }
-      }
+      game.spawnGenericUnit({ ...unitData, starting_position: null });
+      spawned = game.units.get(unitData.nid) ?? null;
     } else {
       // Unique unit — look up prefab from db
       const prefab = game.db.units.get(unitData.nid);
       if (prefab) {
-        const spawned = game.spawnUnit(
+        spawned = game.spawnUnit(
           prefab,
           unitData.team ?? 'player',
-          pos,
+          null,
           unitData.ai ?? 'None',
         );
-        this.loadMapSpriteForUnit(spawned, game);
-        // Insert into initiative tracker if active
-        if (game.initiative) {
-          game.initiative.insertUnit(spawned, game.db);
-        }
       } else {
         console.warn(`EventState: unique unit prefab "${unitData.nid}" not found in db`);
       }
     }
+    if (!spawned) return;
+
+    spawned.startingPosition = pos ? [pos[0], pos[1]] : null;
+    if (pos && game.board) {
+      game.actionLog.doAction(new ArriveAction(spawned, pos, game.board));
+    } else {
+      spawned.position = pos;
+    }
+    this.loadMapSpriteForUnit(spawned, game);
+    // Insert into initiative tracker if active
+    if (game.initiative) {
+      game.initiative.insertUnit(spawned, game.db);
+    }
   }
 
   // -----------------------------------------------------------------------
@@ -8989,39 +9708,6 @@ export class EventState extends State {
     });
   }
 
-  // -----------------------------------------------------------------------
-  // Helper: grant skills from a new class after promotion/class change
-  // -----------------------------------------------------------------------
-
-  /**
-   * Grant learned skills from the unit's current class.
-   * After promotion/class change, iterate the new class's learned_skills
-   * and add any skills the unit doesn't already have, up to their current level.
-   * Matches Python's event_functions.py promote/change_class logic.
-   */
-  private grantClassSkills(unit: UnitObject, game: any): void {
-    const unitKlass = game.db.classes.get(unit.klass);
-    if (!unitKlass || !unitKlass.learned_skills) return;
-
-    for (const [levelNeeded, classSkillNid] of unitKlass.learned_skills) {
-      if (unit.level >= levelNeeded) {
-        // Check if unit already has this skill
-        const hasSkill = unit.skills.some((s: any) => s.nid === classSkillNid);
-        if (!hasSkill) {
-          const skillPrefab = game.db.skills.get(classSkillNid);
-          if (skillPrefab) {
-            const skill = new SkillObject(skillPrefab);
-            unit.skills.push(skill);
-            // Check for canto
-            if (skill.hasComponent('canto')) {
-              unit.hasCanto = true;
-            }
-          }
-        }
-      }
-    }
-  }
-
   // -----------------------------------------------------------------------
   // Internal flag for if/elif/else flow control
   // -----------------------------------------------------------------------
@@ -1,8 +1,11 @@
 /**
- * InfoMenuState — Detailed unit information screen with three pages:
- *   1. Personal Data (stats, class, level)
+ * InfoMenuState — Detailed unit information screen with up to four pages:
+ *   1. Personal Data (stats, class, level; SELECT toggles growth rates
+ *      unless the growth_info constant is off)
  *   2. Equipment (items, battle stats)
- *   3. Skills (weapon experience, skill list)
+ *   3. Skills (weapon ranks, skill list, timed statuses)
+ *   4. Supports (partners, ranks, points progress) — only for units with
+ *      support pairs
  *
  * Invoked from FreeState when INFO is pressed on a unit.
  * Uses game.infoMenuUnit to know which unit to display.
@@ -15,6 +18,7 @@ import type { InputEvent } from '../input';
 import { viewport } from '../viewport';
 import { ANIMATION_COUNTERS } from '../constants';
 import type { UnitObject } from '../../objects/unit';
+import type { WeaponRankDef } from '../../data/types';
 import { drawItemIcon, drawIcon16 } from '../../ui/icons';
 import {
   accuracy,
@@ -24,6 +28,7 @@ import {
   computeCrit,
   getEquippedWeapon,
 } from '../../combat/combat-calcs';
+import { growthChange, turnsRemaining, maxCharge, currentCharge, isCharged } from '../../combat/skill-system';
 import { FONT } from '../../rendering/bmp-font';
 
 // ---------------------------------------------------------------------------
@@ -45,8 +50,8 @@ function getGame(): any {
 // Constants
 // ---------------------------------------------------------------------------
 
-const PAGE_COUNT = 3;
-const PAGE_NAMES = ['Personal Data', 'Equipment', 'Skills'];
+const PAGE_NAMES = ['Personal Data', 'Equipment', 'Skills', 'Supports'];
+const SUPPORTS_PAGE = 3;
 
 /** Left panel width in game pixels. */
 const LEFT_PANEL_W = 96;
@@ -84,6 +89,8 @@ export class InfoMenuState extends State {
   private unit: UnitObject | null = null;
   private unitList: UnitObject[] = [];
   private unitIndex: number = 0;
+  /** Personal Data shows growth rates instead of stats. Kept across units. */
+  private showGrowths: boolean = false;
 
   /** Portrait image cache (keyed by portrait NID). */
   private portraitCache: Map<string, HTMLImageElement> = new Map();
@@ -118,6 +125,19 @@ export class InfoMenuState extends State {
 
     this.unitIndex = this.unitList.indexOf(this.unit);
     if (this.unitIndex < 0) this.unitIndex = 0;
+    this.currentPage = Math.min(this.currentPage, this.pageCount() - 1);
+  }
+
+  /** Games can hide growth rates from the player with the growth_info constant. */
+  private growthsVisible(): boolean {
+    return !!getGame().db.getConstant('growth_info', true);
+  }
+
+  /** The Supports page is only shown for units that have support pairs. */
+  private pageCount(): number {
+    const game = getGame();
+    const hasSupports = !!this.unit && (game.supports?.getPairsForUnit(this.unit.nid).length ?? 0) > 0;
+    return hasSupports ? PAGE_NAMES.length : SUPPORTS_PAGE;
   }
 
   override takeInput(event: InputEvent): StateResult {
@@ -126,16 +146,17 @@ export class InfoMenuState extends State {
 
     switch (event) {
       case 'LEFT':
-        this.currentPage = (this.currentPage - 1 + PAGE_COUNT) % PAGE_COUNT;
+        this.currentPage = (this.currentPage - 1 + this.pageCount()) % this.pageCount();
         break;
       case 'RIGHT':
-        this.currentPage = (this.currentPage + 1) % PAGE_COUNT;
+        this.currentPage = (this.currentPage + 1) % this.pageCount();
         break;
       case 'UP':
         if (this.unitList.length > 1) {
           this.unitIndex = (this.unitIndex - 1 + this.unitList.length) % this.unitList.length;
           this.unit = this.unitList[this.unitIndex];
           game.infoMenuUnit = this.unit;
+          this.currentPage = Math.min(this.currentPage, this.pageCount() - 1);
         }
         break;
       case 'DOWN':
@@ -143,13 +164,17 @@ export class InfoMenuState extends State {
           this.unitIndex = (this.unitIndex + 1) % this.unitList.length;
           this.unit = this.unitList[this.unitIndex];
           game.infoMenuUnit = this.unit;
+          this.currentPage = Math.min(this.currentPage, this.pageCount() - 1);
         }
         break;
       case 'BACK':
         game.state.back();
         break;
       case 'SELECT':
-        // Could toggle extra details; for now do nothing
+        if (this.currentPage === 0 && this.growthsVisible()) {
+          this.showGrowths = !this.showGrowths;
+          game.audioManager?.playSfx?.('Select 3');
+        }
         break;
     }
   }
@@ -183,6 +208,9 @@ export class InfoMenuState extends State {
       case 2:
         this.drawSkills(surf, vw, vh);
         break;
+      case SUPPORTS_PAGE:
+        this.drawSupports(surf, vw, vh);
+        break;
     }
 
     // Draw page indicator dots at the bottom
@@ -297,7 +325,9 @@ export class InfoMenuState extends State {
     surf.fillRect(rightX, headerY, rightW, headerH, HEADER_BG);
 
     // Page title
-    const title = PAGE_NAMES[this.currentPage];
+    const title = this.currentPage === 0 && this.showGrowths && this.growthsVisible()
+      ? 'Growth Rates'
+      : PAGE_NAMES[this.currentPage];
     this.drawTextCentered(surf, title, rightX + rightW / 2, 3, COLOR_WHITE, 'text');
 
     // Arrow indicators
@@ -358,14 +388,18 @@ export class InfoMenuState extends State {
     y: number,
     colW: number,
   ): void {
-    const value = unit.getStatValue(statName);
-    const maxStat = klassDef?.max_stats?.[statName] ?? 40;
+    // Growth mode: the bar shows the growth as a fraction of 100%
+    const growths = this.showGrowths && this.growthsVisible();
+    const value = growths
+      ? (unit.growths[statName] ?? 0) + growthChange(unit, statName)
+      : unit.getStatValue(statName);
+    const maxStat = growths ? 100 : klassDef?.max_stats?.[statName] ?? 40;
 
     // Stat label
     this.drawSmallText(surf, statName, x, y, COLOR_YELLOW);
 
     // Stat value (right-aligned within column)
-    const valueStr = String(value);
+    const valueStr = growths ? `${value}%` : String(value);
     this.drawSmallTextRight(surf, valueStr, x + colW - 4, y, COLOR_BLUE);
 
     // Stat bar (shows fraction of max)
@@ -465,10 +499,10 @@ export class InfoMenuState extends State {
   }
 
   // =======================================================================
-  // Page 2: Skills — Weapon experience + skill list
+  // Page 2: Skills — Weapon ranks, skill list, timed statuses
   // =======================================================================
 
-  private drawSkills(surf: Surface, vw: number, _vh: number): void {
+  private drawSkills(surf: Surface, vw: number, vh: number): void {
     const unit = this.unit!;
     const game = getGame();
 
@@ -476,7 +510,7 @@ export class InfoMenuState extends State {
     const rightW = vw - LEFT_PANEL_W - 12;
     const startY = 24;
 
-    // --- Weapon experience ---
+    // --- Weapon ranks ---
     this.drawSmallText(surf, 'Weapon Rank', rightX, startY, COLOR_YELLOW);
 
     const wexpY = startY + 14;
@@ -496,14 +530,26 @@ export class InfoMenuState extends State {
         this.drawSmallText(surf, wtype, x, y, COLOR_GREY);
 
         // Rank letter
-        const rank = this.getWexpRank(wexpValue, game);
-        this.drawSmallTextRight(surf, rank, x + colW - 4, y, COLOR_WHITE);
+        const progress = this.getWexpProgress(wexpValue, game);
+        this.drawSmallTextRight(surf, progress.rank, x + colW - 4, y, COLOR_WHITE);
+
+        // Progress toward the next rank; full and green at the top rank
+        const barX = x + 28;
+        const barW = colW - 44;
+        if (barW > 0) {
+          surf.fillRect(barX, y + 9, barW, 2, COLOR_BAR_BG);
+          surf.fillRect(barX, y + 9, Math.floor(barW * progress.frac), 2,
+            progress.frac >= 1 ? COLOR_GREEN : COLOR_BAR_FILL);
+        }
       }
     }
 
     // --- Skills list ---
     const wexpRows = Math.ceil(wexpEntries.length / 2);
     const skillHeaderY = wexpY + Math.max(wexpRows, 1) * 12 + 8;
+    const visibleSkills = unit.skills.filter((skill) => !skill.hasComponent('hidden'));
+    const skills = visibleSkills.filter((skill) => turnsRemaining(skill) === null);
+    const statuses = visibleSkills.filter((skill) => turnsRemaining(skill) !== null);
 
     // Separator
     surf.fillRect(rightX, skillHeaderY - 2, rightW, 1, DIVIDER_COLOR);
@@ -511,11 +557,11 @@ export class InfoMenuState extends State {
     this.drawSmallText(surf, 'Skills', rightX, skillHeaderY, COLOR_YELLOW);
 
     const skillStartY = skillHeaderY + 14;
-    if (unit.skills.length === 0) {
+    if (skills.length === 0) {
       this.drawSmallText(surf, '(none)', rightX + 4, skillStartY, COLOR_GREY);
     } else {
-      for (let i = 0; i < unit.skills.length; i++) {
-        const skill = unit.skills[i];
+      for (let i = 0; i < skills.length; i++) {
+        const skill = skills[i];
         const y = skillStartY + i * 16;
 
         // Skill icon
@@ -523,27 +569,111 @@ export class InfoMenuState extends State {
           drawIcon16(surf, skill.iconNid, skill.iconIndex, rightX, y);
         }
 
-        // Skill name
+        // Skill name, with its charge when it has one
         this.drawSmallText(surf, skill.name, rightX + 18, y + 2, COLOR_WHITE);
+        const max = maxCharge(skill);
+        if (max !== null) {
+          this.drawSmallTextRight(surf, `${Math.min(currentCharge(skill), max)}/${max}`,
+            rightX + rightW, y + 2, isCharged(skill) ? COLOR_GREEN : COLOR_BLUE);
+        }
+      }
+    }
+
+    // --- Timed statuses, with turns remaining ---
+    if (statuses.length === 0) return;
+    const statusHeaderY = skillStartY + Math.max(skills.length, 1) * 16 + 4;
+    surf.fillRect(rightX, statusHeaderY - 2, rightW, 1, DIVIDER_COLOR);
+    this.drawSmallText(surf, 'Status', rightX, statusHeaderY, COLOR_YELLOW);
+
+    const statusStartY = statusHeaderY + 14;
+    const maxRows = Math.max(1, Math.floor((vh - 12 - statusStartY) / 16));
+    for (let i = 0; i < Math.min(statuses.length, maxRows); i++) {
+      const status = statuses[i];
+      const y = statusStartY + i * 16;
+      if (status.iconNid) {
+        drawIcon16(surf, status.iconNid, status.iconIndex, rightX, y);
       }
+      this.drawSmallText(surf, status.name, rightX + 18, y + 2, COLOR_WHITE);
+      this.drawSmallTextRight(surf, `${turnsRemaining(status)} Trn`, rightX + rightW, y + 2, COLOR_BLUE);
     }
   }
 
   /**
    * Convert a weapon experience value to a rank letter using the DB's
-   * weapon rank thresholds.
+   * weapon rank thresholds, plus the fraction of the way to the next
+   * rank (1 at the top rank).
    */
-  private getWexpRank(wexp: number, game: any): string {
-    const ranks = game.db.weaponRanks;
-    if (!ranks || ranks.length === 0) return '-';
+  private getWexpProgress(wexp: number, game: any): { rank: string; frac: number } {
+    const ranks: WeaponRankDef[] = [...(game.db.weaponRanks ?? [])]
+      .sort((a: WeaponRankDef, b: WeaponRankDef) => a.requirement - b.requirement);
+    if (ranks.length === 0) return { rank: '-', frac: 0 };
 
-    let bestRank = '-';
+    let rank = '-';
+    let floor = 0;
     for (const wr of ranks) {
       if (wexp >= wr.requirement) {
-        bestRank = wr.rank;
+        rank = wr.rank;
+        floor = wr.requirement;
+      } else {
+        const span = wr.requirement - floor;
+        return { rank, frac: span > 0 ? Math.max(0, wexp - floor) / span : 0 };
+      }
+    }
+    return { rank, frac: 1 };
+  }
+
+  // =======================================================================
+  // Page 3: Supports — Partner, current / max rank, points progress
+  // =======================================================================
+
+  private drawSupports(surf: Surface, vw: number, vh: number): void {
+    const unit = this.unit!;
+    const game = getGame();
+    const supports = game.supports;
+    if (!supports) return;
+
+    const rightX = LEFT_PANEL_W + 6;
+    const rightW = vw - LEFT_PANEL_W - 12;
+    const startY = 24;
+    const rowH = 14;
+    const maxRows = Math.floor((vh - 16 - startY) / rowH);
+
+    const pairs = supports.getPairsForUnit(unit.nid).slice(0, maxRows);
+    for (let i = 0; i < pairs.length; i++) {
+      const pair = pairs[i];
+      const y = startY + i * rowH;
+
+      // Partner name; partners not yet recruited fall back to the prefab
+      const partnerNid: string = supports.getPartnerNid(pair.nid, unit.nid) ?? '';
+      const partnerName = game.getUnit(partnerNid)?.name ?? game.db.units.get(partnerNid)?.name ?? partnerNid;
+      this.drawSmallText(surf, partnerName, rightX, y, COLOR_WHITE);
+
+      // Current rank / max rank; a reached rank with an unseen
+      // conversation shows in yellow in place of the current rank
+      const current: string | null = supports.getHighestUnlockedRank(pair);
+      const pending: string | undefined = pair.lockedRanks[0];
+      const maxRank: string = supports.getMaxRank(pair) ?? '-';
+      this.drawSmallTextRight(surf, `/${maxRank}`, rightX + rightW, y, COLOR_GREY);
+      this.drawSmallTextRight(
+        surf,
+        pending ?? current ?? '-',
+        rightX + rightW - 14,
+        y,
+        pending ? COLOR_YELLOW : COLOR_BLUE,
+      );
+
+      // Points toward the next rank threshold
+      const barX = rightX + 64;
+      const barW = rightW - 64 - 36;
+      const barY = y + 9;
+      if (barW > 0) {
+        const progress = supports.getRankProgress(pair);
+        const span = progress ? progress.requirement - progress.floor : 0;
+        const frac = !progress ? 1 : span > 0 ? Math.min(1, Math.max(0, (pair.points - progress.floor) / span)) : 0;
+        surf.fillRect(barX, barY, barW, 2, COLOR_BAR_BG);
+        surf.fillRect(barX, barY, Math.floor(barW * frac), 2, progress ? COLOR_BAR_FILL : COLOR_GREEN);
       }
     }
-    return bestRank;
   }
 
   // =======================================================================
@@ -552,11 +682,12 @@ export class InfoMenuState extends State {
 
   private drawPageIndicator(surf: Surface, vw: number, vh: number): void {
     const dotSpacing = 10;
-    const totalW = PAGE_COUNT * dotSpacing;
+    const pageCount = this.pageCount();
+    const totalW = pageCount * dotSpacing;
     const startX = Math.floor(vw / 2) - Math.floor(totalW / 2) + Math.floor(dotSpacing / 2);
     const y = vh - 8;
 
-    for (let i = 0; i < PAGE_COUNT; i++) {
+    for (let i = 0; i < pageCount; i++) {
       const x = startX + i * dotSpacing;
       const color = i === this.currentPage ? COLOR_WHITE : COLOR_GREY;
       const size = i === this.currentPage ? 3 : 2;
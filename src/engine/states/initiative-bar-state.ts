@@ -0,0 +1,118 @@
+/**
+ * initiative-bar-state.ts -- InitiativeBarState, scrolling the initiative bar.
+ *
+ * Opened with START from the map in initiative mode. The bar stays on
+ * screen while this state is active even if it has been hidden.
+ *   LEFT/UP, RIGHT/DOWN -- move the highlight along the turn order; the map
+ *                          cursor and camera follow the highlighted unit
+ *   SELECT/INFO         -- open the info menu for the highlighted unit
+ *   AUX                 -- show/hide the bar during normal play
+ *   BACK/START          -- return to the map
+ */
+
+import { State, type StateResult } from '../state';
+import type { InputEvent } from '../input';
+import type { UnitObject } from '../../objects/unit';
+
+// ---------------------------------------------------------------------------
+// Lazy game reference
+// ---------------------------------------------------------------------------
+
+let _game: any = null;
+export function setInitiativeBarGameRef(g: any): void {
+  _game = g;
+}
+function getGame(): any {
+  if (!_game) throw new Error('Game reference not set for initiative bar state.');
+  return _game;
+}
+
+export class InitiativeBarState extends State {
+  readonly name = 'initiative_bar';
+  override readonly transparent = true;
+
+  private selectedNid: string | null = null;
+
+  override start(): StateResult {
+    // Begin on the unit whose turn it is
+    this.selectedNid = getGame().initiative?.getCurrentUnitNid() ?? null;
+  }
+
+  override begin(): StateResult {
+    const game = getGame();
+    if (!game.initiative || game.initiative.unitLine.length === 0) {
+      game.state.back();
+      return;
+    }
+    // The highlighted unit may have left the line while the info menu was open
+    if (!this.selectedNid || !game.initiative.unitLine.includes(this.selectedNid)) {
+      this.selectedNid = game.initiativeBar.getDisplayOrder(game.initiative)[0] ?? null;
+    }
+    game.initiativeBar.selectedNid = this.selectedNid;
+    this.focusSelected();
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    if (event === null) return;
+    const game = getGame();
+
+    switch (event) {
+      case 'LEFT':
+      case 'UP':
+        this.moveSelection(-1);
+        break;
+      case 'RIGHT':
+      case 'DOWN':
+        this.moveSelection(1);
+        break;
+      case 'SELECT':
+      case 'INFO': {
+        const unit: UnitObject | null = this.selectedNid ? game.getUnit(this.selectedNid) : null;
+        if (unit) {
+          game.infoMenuUnit = unit;
+          game.state.change('info_menu');
+        }
+        break;
+      }
+      case 'AUX':
+        game.initiative?.toggleDraw();
+        break;
+      case 'BACK':
+      case 'START':
+        game.state.back();
+        break;
+    }
+  }
+
+  private moveSelection(delta: number): void {
+    const game = getGame();
+    const order: string[] = game.initiativeBar.getDisplayOrder(game.initiative);
+    if (order.length === 0) return;
+    const idx = this.selectedNid ? order.indexOf(this.selectedNid) : -1;
+    const next = (Math.max(idx, 0) + delta + order.length) % order.length;
+    this.selectedNid = order[next];
+    game.initiativeBar.selectedNid = this.selectedNid;
+    game.audioManager?.playSfx?.('Select 6');
+    this.focusSelected();
+  }
+
+  /** Move the map cursor and camera onto the highlighted unit. */
+  private focusSelected(): void {
+    const game = getGame();
+    const unit: UnitObject | null = this.selectedNid ? game.getUnit(this.selectedNid) : null;
+    if (unit?.position) {
+      game.cursor.setPos(unit.position[0], unit.position[1]);
+      game.camera.focusTile(unit.position[0], unit.position[1]);
+    }
+  }
+
+  override end(): StateResult {
+    // Hide the scroll highlight under the info menu
+    getGame().initiativeBar.selectedNid = null;
+  }
+
+  override finish(): void {
+    getGame().initiativeBar.selectedNid = null;
+    this.selectedNid = null;
+  }
+}
@@ -1,9 +1,14 @@
 /**
  * prep-state.ts — GBA-style preparation screen states.
  *
- * PrepMainState: Main prep menu (Pick Units, Check Map, Fight!)
+ * PrepMainState: Main prep menu (Pick Units, Items, Supply, Bonus EXP, Check Map, Fight!)
  * PrepPickUnitsState: Toggle units on/off the deployment map
+ * PrepItemsState: Pick a unit, then Trade or Convoy
+ * PrepTradeState: Swap items between two party members
+ * PrepCheckMapState: Check Map sub-menu (View Map, Formation, Map Info)
  * PrepMapState: View the map with formation highlights
+ * PrepFormationState: Swap deployed units between formation tiles
+ * PrepMapInfoState: Objective and unit counts for the level
  */
 
 import { State, type StateResult } from '../state';
@@ -11,6 +16,9 @@ import type { Surface } from '../surface';
 import type { InputEvent } from '../input';
 import { viewport } from '../viewport';
 import type { UnitObject } from '../../objects/unit';
+import { drawItemIcon } from '../../ui/icons';
+import { drawMap } from './game-states';
+import { SyncAurasAction } from '../action';
 
 // Lazy game reference (same pattern as game-states.ts)
 let _game: any = null;
@@ -38,6 +46,45 @@ function getPartyUnits(): UnitObject[] {
   return units;
 }
 
+/** Inventory size, matching the shop and trade screens. */
+const MAX_INVENTORY = 5;
+
+/** Whether (x, y) is one of the level's formation tiles. */
+function isFormationSpot(x: number, y: number): boolean {
+  return getFormationSpots().some(([sx, sy]) => sx === x && sy === y);
+}
+
+/** Highlight every formation tile on the map. */
+function highlightFormationSpots(): void {
+  const game = getGame();
+  if (!game.highlight) return;
+  game.highlight.clear();
+  for (const [x, y] of getFormationSpots()) {
+    game.highlight.addHighlight(x, y, 'move');
+  }
+}
+
+/** Move the map cursor (and camera) by a direction event. */
+function moveMapCursor(event: InputEvent): void {
+  const game = getGame();
+  if (!game.cursor) return;
+  const dx = event === 'RIGHT' ? 1 : event === 'LEFT' ? -1 : 0;
+  const dy = event === 'DOWN' ? 1 : event === 'UP' ? -1 : 0;
+  game.cursor.move(dx, dy);
+  const pos = game.cursor.getHover();
+  game.camera.focusTile(pos.x, pos.y);
+}
+
+/** Party units sorted deployed first, then by name. */
+function getSortedPartyUnits(): UnitObject[] {
+  return getPartyUnits().sort((a, b) => {
+    const aDeployed = a.position ? 1 : 0;
+    const bDeployed = b.position ? 1 : 0;
+    if (aDeployed !== bDeployed) return bDeployed - aDeployed;
+    return a.name.localeCompare(b.name);
+  });
+}
+
 /** Get all formation spots from level regions. */
 function getFormationSpots(): [number, number][] {
   const game = getGame();
@@ -90,8 +137,18 @@ export class PrepMainState extends State {
       this.options.push('Pick Units');
       this.descriptions.push('Choose which units to deploy.');
     }
+    this.options.push('Items');
+    this.descriptions.push('Trade items or use the convoy.');
+    if (game.gameVars.get('_convoy')) {
+      this.options.push('Supply');
+      this.descriptions.push('Manage items with the convoy.');
+    }
+    if (game.getBexp() > 0) {
+      this.options.push('Bonus EXP');
+      this.descriptions.push('Distribute bonus experience.');
+    }
     this.options.push('Check Map');
-    this.descriptions.push('View the battlefield.');
+    this.descriptions.push('View the map or change formation.');
     this.options.push('Fight!');
     this.descriptions.push('Begin the battle!');
 
@@ -121,6 +178,7 @@ export class PrepMainState extends State {
         }
       }
     }
+    game.actionLog.doAction(new SyncAurasAction());
   }
 
   override update(): StateResult {
@@ -225,8 +283,14 @@ export class PrepMainState extends State {
       const selected = this.options[this.cursor];
       if (selected === 'Pick Units') {
         game.state.change('prep_pick');
+      } else if (selected === 'Items') {
+        game.state.change('prep_items');
+      } else if (selected === 'Supply') {
+        game.state.change('supply');
+      } else if (selected === 'Bonus EXP') {
+        game.state.change('bexp');
       } else if (selected === 'Check Map') {
-        game.state.change('prep_map');
+        game.state.change('prep_check_map');
       } else if (selected === 'Fight!') {
         this.fight();
       }
@@ -280,14 +344,7 @@ export class PrepPickUnitsState extends State {
   }
 
   private refreshUnits(): void {
-    this.partyUnits = getPartyUnits();
-    // Sort: deployed first, then by name
-    this.partyUnits.sort((a, b) => {
-      const aDeployed = a.position ? 1 : 0;
-      const bDeployed = b.position ? 1 : 0;
-      if (aDeployed !== bDeployed) return bDeployed - aDeployed;
-      return a.name.localeCompare(b.name);
-    });
+    this.partyUnits = getSortedPartyUnits();
   }
 
   override draw(surf: Surface): Surface {
@@ -410,6 +467,7 @@ export class PrepPickUnitsState extends State {
         game.board.setUnit(openSpot[0], openSpot[1], unit);
       }
     }
+    game.actionLog.doAction(new SyncAurasAction());
 
     this.refreshUnits();
   }
@@ -421,7 +479,6 @@ export class PrepPickUnitsState extends State {
 
 export class PrepMapState extends State {
   readonly name = 'prep_map';
-  override readonly transparent = true;
   override readonly showMap = true;
   override readonly inLevel = true;
 
@@ -429,26 +486,7 @@ export class PrepMapState extends State {
     const game = getGame();
 
     // Clear existing highlights and show formation spots
-    if (game.highlight) {
-      game.highlight.clear();
-    }
-
-    // Add formation highlights
-    if (game.currentLevel?.regions) {
-      for (const region of game.currentLevel.regions) {
-        if (region.region_type === 'formation') {
-          const x = region.position[0];
-          const y = region.position[1];
-          const w = region.size?.[0] ?? 1;
-          const h = region.size?.[1] ?? 1;
-          for (let dx = 0; dx < w; dx++) {
-            for (let dy = 0; dy < h; dy++) {
-              game.highlight.addHighlight(x + dx, y + dy, 'move');
-            }
-          }
-        }
-      }
-    }
+    highlightFormationSpots();
 
     // Show cursor
     if (game.cursor) {
@@ -457,6 +495,7 @@ export class PrepMapState extends State {
   }
 
   override draw(surf: Surface): Surface {
+    drawMap(surf);
     // Draw info overlay at top
     surf.fillRect(0, 0, viewport.width, 14, 'rgba(16,16,48,0.85)');
     surf.drawText('Check Map  |  B: Back  |  START: Fight!', 4, 2, 'rgba(180,180,220,0.9)', '6px monospace');
@@ -479,15 +518,510 @@ export class PrepMapState extends State {
       // Just go back to prep_main; user can confirm Fight! from there
       game.state.back();
     } else if (event === 'UP' || event === 'DOWN' || event === 'LEFT' || event === 'RIGHT') {
-      // Move cursor
-      if (game.cursor) {
-        const dx = event === 'RIGHT' ? 1 : event === 'LEFT' ? -1 : 0;
-        const dy = event === 'DOWN' ? 1 : event === 'UP' ? -1 : 0;
-        game.cursor.move(dx, dy);
-        const pos = game.cursor.getHover();
-        game.camera.focusTile(pos.x, pos.y);
+      moveMapCursor(event);
+    }
+  }
+
+  override end(): StateResult {
+    const game = getGame();
+    if (game.highlight) {
+      game.highlight.clear();
+    }
+  }
+}
+
+// ============================================================================
+// PrepItemsState — Pick a unit, then Trade or Convoy
+// ============================================================================
+
+type PrepItemsStep = 'unit' | 'action' | 'partner';
+
+export class PrepItemsState extends State {
+  readonly name = 'prep_items';
+  override readonly showMap = false;
+  override readonly inLevel = false;
+
+  private partyUnits: UnitObject[] = [];
+  private step: PrepItemsStep = 'unit';
+  private cursor: number = 0;
+  private scrollOffset: number = 0;
+  /** Unit chosen in the 'unit' step. */
+  private selectedUnit: UnitObject | null = null;
+  private actions: string[] = [];
+  private actionCursor: number = 0;
+  private readonly VISIBLE_ROWS = 7;
+  private readonly ROW_HEIGHT = 16;
+
+  override start(): StateResult {
+    this.cursor = 0;
+    this.scrollOffset = 0;
+    this.step = 'unit';
+    this.selectedUnit = null;
+  }
+
+  override begin(): StateResult {
+    // Coming back from trade/supply: keep the cursor on the same unit
+    const current = this.partyUnits[this.cursor];
+    this.partyUnits = getSortedPartyUnits();
+    const idx = current ? this.partyUnits.indexOf(current) : -1;
+    this.cursor = Math.max(0, Math.min(idx >= 0 ? idx : this.cursor, this.partyUnits.length - 1));
+    this.scrollToCursor();
+  }
+
+  private scrollToCursor(): void {
+    if (this.cursor < this.scrollOffset) {
+      this.scrollOffset = this.cursor;
+    } else if (this.cursor >= this.scrollOffset + this.VISIBLE_ROWS) {
+      this.scrollOffset = this.cursor - this.VISIBLE_ROWS + 1;
+    }
+  }
+
+  private openActions(unit: UnitObject): void {
+    const game = getGame();
+    this.selectedUnit = unit;
+    this.actions = ['Trade'];
+    if (game.gameVars.get('_convoy')) this.actions.push('Convoy');
+    this.actionCursor = 0;
+    this.step = 'action';
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    const game = getGame();
+
+    let effective = event;
+    if (game.input?.mouseClick === 'SELECT' && !effective) {
+      effective = 'SELECT';
+    }
+    if (!effective) return;
+
+    if (this.step === 'action') {
+      if (effective === 'UP') {
+        this.actionCursor = (this.actionCursor - 1 + this.actions.length) % this.actions.length;
+      } else if (effective === 'DOWN') {
+        this.actionCursor = (this.actionCursor + 1) % this.actions.length;
+      } else if (effective === 'BACK') {
+        this.step = 'unit';
+        this.selectedUnit = null;
+      } else if (effective === 'SELECT') {
+        const action = this.actions[this.actionCursor];
+        if (action === 'Trade') {
+          this.step = 'partner';
+        } else if (action === 'Convoy') {
+          game.memory.set('supply_unit', this.selectedUnit);
+          this.step = 'unit';
+          game.state.change('supply');
+        }
+      }
+      return;
+    }
+
+    if (effective === 'UP') {
+      this.cursor = Math.max(0, this.cursor - 1);
+      this.scrollToCursor();
+    } else if (effective === 'DOWN') {
+      this.cursor = Math.min(this.partyUnits.length - 1, this.cursor + 1);
+      this.scrollToCursor();
+    } else if (effective === 'INFO') {
+      const unit = this.partyUnits[this.cursor];
+      if (unit) {
+        game.infoMenuUnit = unit;
+        game.state.change('info_menu');
+      }
+    } else if (effective === 'BACK') {
+      if (this.step === 'partner') {
+        this.step = 'action';
+      } else {
+        game.state.back();
+      }
+    } else if (effective === 'SELECT') {
+      const unit = this.partyUnits[this.cursor];
+      if (!unit) return;
+      if (this.step === 'unit') {
+        this.openActions(unit);
+      } else if (unit !== this.selectedUnit) {
+        game.memory.set('prep_trade_units', [this.selectedUnit, unit]);
+        this.step = 'unit';
+        this.selectedUnit = null;
+        game.state.change('prep_trade');
+      }
+    }
+  }
+
+  override draw(surf: Surface): Surface {
+    const vw = viewport.width;
+    const vh = viewport.height;
+
+    surf.fill(20, 20, 40);
+
+    // Title
+    surf.fillRect(0, 0, vw, 16, 'rgba(16,16,48,0.9)');
+    const title = this.step === 'partner' ? `Trade with whom? (${this.selectedUnit?.name ?? ''})` : 'Items';
+    surf.drawText(title, 4, 3, 'rgba(220,200,128,1)', '9px monospace');
+
+    // Unit list (left)
+    const listY = 20;
+    const listW = 100;
+    const visibleEnd = Math.min(this.partyUnits.length, this.scrollOffset + this.VISIBLE_ROWS);
+    for (let i = this.scrollOffset; i < visibleEnd; i++) {
+      const unit = this.partyUnits[i];
+      const y = listY + (i - this.scrollOffset) * this.ROW_HEIGHT;
+
+      if (i === this.cursor) {
+        surf.fillRect(2, y, listW, this.ROW_HEIGHT - 2, 'rgba(64,64,160,0.5)');
+      } else if (unit === this.selectedUnit) {
+        surf.fillRect(2, y, listW, this.ROW_HEIGHT - 2, 'rgba(160,140,64,0.4)');
+      }
+
+      const statusColor = unit.position ? 'rgba(64,200,64,1)' : 'rgba(120,120,120,1)';
+      surf.fillRect(4, y + 4, 6, 6, statusColor);
+      surf.drawText(unit.name, 14, y + 2, 'white', '7px monospace');
+      surf.drawText(`${unit.items.length}/${MAX_INVENTORY}`, listW - 22, y + 2, 'rgba(160,160,200,1)', '6px monospace');
+    }
+
+    // Inventory of the highlighted unit (right)
+    const shown = this.step === 'action' ? this.selectedUnit : this.partyUnits[this.cursor];
+    const invX = listW + 10;
+    surf.fillRect(invX, listY, vw - invX - 4, MAX_INVENTORY * 16 + 16, 'rgba(16,16,48,0.8)');
+    if (shown) {
+      surf.drawText(`${shown.name}  ${shown.klass}`, invX + 4, listY + 2, 'rgba(220,200,128,1)', '7px monospace');
+      for (let i = 0; i < MAX_INVENTORY; i++) {
+        const item = shown.items[i];
+        const y = listY + 14 + i * 16;
+        if (!item) {
+          surf.drawText('---', invX + 22, y + 4, 'rgba(100,100,120,1)', '7px monospace');
+          continue;
+        }
+        drawItemIcon(surf, item, invX + 4, y);
+        surf.drawText(item.name, invX + 22, y + 4, 'white', '7px monospace');
+        if (item.maxUses > 0) {
+          surf.drawText(`${item.uses}`, vw - 20, y + 4, 'rgba(160,200,160,1)', '7px monospace');
+        }
+      }
+    }
+
+    // Trade/Convoy choice
+    if (this.step === 'action') {
+      const ax = invX;
+      const ay = listY + MAX_INVENTORY * 16 + 22;
+      surf.fillRect(ax, ay, 60, this.actions.length * 14 + 4, 'rgba(16,16,48,0.95)');
+      surf.drawRect(ax, ay, 60, this.actions.length * 14 + 4, 'rgba(100,100,180,0.7)');
+      this.actions.forEach((label, i) => {
+        const y = ay + 2 + i * 14;
+        if (i === this.actionCursor) {
+          surf.fillRect(ax + 2, y, 56, 12, 'rgba(64,64,160,0.6)');
+        }
+        surf.drawText(label, ax + 6, y + 2, i === this.actionCursor ? 'white' : 'rgba(180,180,200,1)', '7px monospace');
+      });
+    }
+
+    // Bottom bar
+    surf.fillRect(0, vh - 14, vw, 14, 'rgba(16,16,48,0.8)');
+    surf.drawText('SELECT: Choose  |  INFO: Status  |  B: Back', 4, vh - 11, 'rgba(140,140,180,0.8)', '6px monospace');
+
+    return surf;
+  }
+}
+
+// ============================================================================
+// PrepTradeState — Swap items between two party members
+// ============================================================================
+
+export class PrepTradeState extends State {
+  readonly name = 'prep_trade';
+  override readonly showMap = false;
+  override readonly inLevel = false;
+
+  private units: [UnitObject, UnitObject] | null = null;
+  /** Column (0 = left unit, 1 = right unit) and row of the cursor. */
+  private side: number = 0;
+  private row: number = 0;
+  /** First half of a swap, or null when nothing is picked up. */
+  private held: { side: number; row: number } | null = null;
+
+  override begin(): StateResult {
+    const game = getGame();
+    const units = game.memory.get('prep_trade_units');
+    game.memory.delete('prep_trade_units');
+    if (!units) {
+      game.state.back();
+      return;
+    }
+    this.units = units;
+    this.side = 0;
+    this.row = 0;
+    this.held = null;
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    if (!this.units) return;
+    const game = getGame();
+
+    let effective = event;
+    if (game.input?.mouseClick === 'SELECT' && !effective) {
+      effective = 'SELECT';
+    }
+
+    if (effective === 'UP') {
+      this.row = (this.row - 1 + MAX_INVENTORY) % MAX_INVENTORY;
+    } else if (effective === 'DOWN') {
+      this.row = (this.row + 1) % MAX_INVENTORY;
+    } else if (effective === 'LEFT' || effective === 'RIGHT') {
+      this.side = 1 - this.side;
+    } else if (effective === 'BACK') {
+      if (this.held) {
+        this.held = null;
+      } else {
+        this.units = null;
+        game.state.back();
       }
+    } else if (effective === 'SELECT') {
+      if (!this.held) {
+        // Only pick up an actual item
+        if (this.units[this.side].items[this.row]) {
+          this.held = { side: this.side, row: this.row };
+        }
+      } else {
+        this.swap(this.held, { side: this.side, row: this.row });
+        this.held = null;
+      }
+    }
+  }
+
+  /**
+   * Swap the items in two slots. An empty destination slot takes the item
+   * at the end of that unit's inventory.
+   */
+  private swap(a: { side: number; row: number }, b: { side: number; row: number }): void {
+    const unitA = this.units![a.side];
+    const unitB = this.units![b.side];
+    const itemA = unitA.items[a.row];
+    const itemB = unitB.items[b.row];
+    if (!itemA) return;
+
+    if (unitA === unitB) {
+      // Reorder within one inventory
+      const target = Math.min(b.row, unitA.items.length - 1);
+      unitA.items.splice(a.row, 1);
+      unitA.items.splice(target, 0, itemA);
+      return;
+    }
+
+    if (itemB) {
+      unitA.items[a.row] = itemB;
+      unitB.items[b.row] = itemA;
+      itemB.owner = unitA;
+    } else {
+      if (unitB.items.length >= MAX_INVENTORY) return;
+      unitA.items.splice(a.row, 1);
+      unitB.items.push(itemA);
+    }
+    itemA.owner = unitB;
+  }
+
+  override draw(surf: Surface): Surface {
+    const vw = viewport.width;
+    const vh = viewport.height;
+
+    surf.fill(20, 20, 40);
+    surf.fillRect(0, 0, vw, 16, 'rgba(16,16,48,0.9)');
+    surf.drawText('Trade', 4, 3, 'rgba(220,200,128,1)', '9px monospace');
+
+    if (!this.units) return surf;
+
+    const colW = Math.floor((vw - 12) / 2);
+    for (let side = 0; side < 2; side++) {
+      const unit = this.units[side];
+      const x = 4 + side * (colW + 4);
+      const y0 = 22;
+      surf.fillRect(x, y0, colW, MAX_INVENTORY * 16 + 18, 'rgba(16,16,48,0.8)');
+      surf.drawRect(x, y0, colW, MAX_INVENTORY * 16 + 18, 'rgba(100,100,180,0.7)');
+      surf.drawText(unit.name, x + 4, y0 + 3, 'rgba(220,200,128,1)', '8px monospace');
+
+      for (let row = 0; row < MAX_INVENTORY; row++) {
+        const y = y0 + 16 + row * 16;
+        const isHeld = this.held?.side === side && this.held.row === row;
+        if (isHeld) {
+          surf.fillRect(x + 2, y, colW - 4, 15, 'rgba(160,140,64,0.5)');
+        }
+        if (this.side === side && this.row === row) {
+          surf.drawRect(x + 2, y, colW - 4, 15, 'rgba(255,255,128,1)');
+        }
+        const item = unit.items[row];
+        if (!item) {
+          surf.drawText('---', x + 22, y + 4, 'rgba(100,100,120,1)', '7px monospace');
+          continue;
+        }
+        drawItemIcon(surf, item, x + 4, y);
+        surf.drawText(item.name, x + 22, y + 4, 'white', '7px monospace');
+        if (item.maxUses > 0) {
+          surf.drawText(`${item.uses}`, x + colW - 16, y + 4, 'rgba(160,200,160,1)', '7px monospace');
+        }
+      }
+    }
+
+    surf.fillRect(0, vh - 14, vw, 14, 'rgba(16,16,48,0.8)');
+    const hint = this.held ? 'SELECT: Swap here  |  B: Cancel' : 'SELECT: Pick item  |  B: Done';
+    surf.drawText(hint, 4, vh - 11, 'rgba(140,140,180,0.8)', '6px monospace');
+    return surf;
+  }
+}
+
+// ============================================================================
+// PrepCheckMapState — Check Map sub-menu
+// ============================================================================
+
+const CHECK_MAP_OPTIONS: { label: string; state: string; description: string }[] = [
+  { label: 'View Map', state: 'prep_map', description: 'Look around the battlefield.' },
+  { label: 'Formation', state: 'prep_formation', description: 'Swap units between starting tiles.' },
+  { label: 'Map Info', state: 'prep_map_info', description: 'Objective and forces.' },
+];
+
+export class PrepCheckMapState extends State {
+  readonly name = 'prep_check_map';
+  override readonly transparent = true;
+  override readonly showMap = false;
+  override readonly inLevel = false;
+
+  private cursor: number = 0;
+
+  override start(): StateResult {
+    this.cursor = 0;
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    const game = getGame();
+
+    let effective = event;
+    if (game.input?.mouseClick === 'SELECT' && !effective) {
+      effective = 'SELECT';
+    }
+
+    if (effective === 'UP') {
+      this.cursor = (this.cursor - 1 + CHECK_MAP_OPTIONS.length) % CHECK_MAP_OPTIONS.length;
+    } else if (effective === 'DOWN') {
+      this.cursor = (this.cursor + 1) % CHECK_MAP_OPTIONS.length;
+    } else if (effective === 'SELECT') {
+      game.state.change(CHECK_MAP_OPTIONS[this.cursor].state);
+    } else if (effective === 'BACK') {
+      game.state.back();
+    }
+  }
+
+  override draw(surf: Surface): Surface {
+    // Drawn beside the main prep panel
+    const panelX = 128;
+    const panelY = 30;
+    const panelW = 84;
+    const panelH = CHECK_MAP_OPTIONS.length * 18 + 12;
+    surf.fillRect(panelX, panelY, panelW, panelH, 'rgba(16,16,48,0.95)');
+    surf.drawRect(panelX, panelY, panelW, panelH, 'rgba(100,100,180,0.7)');
+
+    CHECK_MAP_OPTIONS.forEach((opt, i) => {
+      const optY = panelY + 6 + i * 18;
+      if (i === this.cursor) {
+        surf.fillRect(panelX + 2, optY - 2, panelW - 4, 16, 'rgba(64,64,160,0.6)');
+      }
+      surf.drawText(opt.label, panelX + 8, optY, i === this.cursor ? 'white' : 'rgba(180,180,200,1)', '8px monospace');
+    });
+
+    const descY = panelY + panelH + 4;
+    surf.fillRect(panelX, descY, panelW + 24, 14, 'rgba(16,16,48,0.9)');
+    surf.drawText(CHECK_MAP_OPTIONS[this.cursor].description, panelX + 4, descY + 4, 'rgba(180,180,220,1)', '6px monospace');
+    return surf;
+  }
+}
+
+// ============================================================================
+// PrepFormationState — Swap deployed units between formation tiles
+// ============================================================================
+
+export class PrepFormationState extends State {
+  readonly name = 'prep_formation';
+  override readonly showMap = true;
+  override readonly inLevel = true;
+
+  /** Formation tile holding the unit picked up, or null. */
+  private selected: [number, number] | null = null;
+
+  override begin(): StateResult {
+    const game = getGame();
+    this.selected = null;
+    highlightFormationSpots();
+    if (game.cursor) {
+      game.cursor.visible = true;
+    }
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    const game = getGame();
+    if (event === 'UP' || event === 'DOWN' || event === 'LEFT' || event === 'RIGHT') {
+      moveMapCursor(event);
+      return;
+    }
+
+    const pos = game.cursor.getHover();
+    if (event === 'SELECT') {
+      if (!this.selected) {
+        const unit: UnitObject | null = game.board?.getUnit(pos.x, pos.y) ?? null;
+        if (unit && unit.team === 'player' && isFormationSpot(pos.x, pos.y)) {
+          this.selected = [pos.x, pos.y];
+          game.highlight.addHighlight(pos.x, pos.y, 'selected');
+        } else {
+          game.audioManager?.playSfx?.('Error');
+        }
+      } else if (isFormationSpot(pos.x, pos.y)) {
+        this.swapUnits(this.selected, [pos.x, pos.y]);
+        this.selected = null;
+        game.highlight.clearType('selected');
+      } else {
+        game.audioManager?.playSfx?.('Error');
+      }
+    } else if (event === 'INFO') {
+      const unit = game.board?.getUnit(pos.x, pos.y);
+      if (unit) {
+        game.infoMenuUnit = unit;
+        game.state.change('info_menu');
+      }
+    } else if (event === 'BACK') {
+      if (this.selected) {
+        this.selected = null;
+        game.highlight.clearType('selected');
+      } else {
+        game.state.back();
+      }
+    } else if (event === 'START') {
+      game.state.back();
+    }
+  }
+
+  /** Move the unit at `from` to `to`, swapping with whoever stands there. */
+  private swapUnits(from: [number, number], to: [number, number]): void {
+    const game = getGame();
+    if (!game.board || (from[0] === to[0] && from[1] === to[1])) return;
+    const unitA: UnitObject | null = game.board.getUnit(from[0], from[1]);
+    const unitB: UnitObject | null = game.board.getUnit(to[0], to[1]);
+    if (!unitA) return;
+    // Only party units sit on formation tiles; anything else stays put
+    if (unitB && unitB.team !== 'player') {
+      game.audioManager?.playSfx?.('Error');
+      return;
     }
+
+    game.board.removeUnit(unitA);
+    if (unitB) game.board.removeUnit(unitB);
+    game.board.setUnit(to[0], to[1], unitA);
+    if (unitB) game.board.setUnit(from[0], from[1], unitB);
+    game.actionLog.doAction(new SyncAurasAction());
+  }
+
+  override draw(surf: Surface): Surface {
+    drawMap(surf);
+    surf.fillRect(0, 0, viewport.width, 14, 'rgba(16,16,48,0.85)');
+    const hint = this.selected
+      ? 'Formation  |  SELECT: Place  |  B: Cancel'
+      : 'Formation  |  SELECT: Pick unit  |  B: Back';
+    surf.drawText(hint, 4, 2, 'rgba(180,180,220,0.9)', '6px monospace');
+    return surf;
   }
 
   override end(): StateResult {
@@ -497,3 +1031,66 @@ export class PrepMapState extends State {
     }
   }
 }
+
+// ============================================================================
+// PrepMapInfoState — Objective and unit counts for the level
+// ============================================================================
+
+export class PrepMapInfoState extends State {
+  readonly name = 'prep_map_info';
+  override readonly showMap = false;
+  override readonly inLevel = false;
+
+  override takeInput(event: InputEvent): StateResult {
+    const game = getGame();
+    if (event === 'BACK' || event === 'SELECT' || game.input?.mouseClick) {
+      game.state.back();
+    }
+  }
+
+  override draw(surf: Surface): Surface {
+    const game = getGame();
+    const vw = viewport.width;
+    const vh = viewport.height;
+    const level = game.currentLevel;
+
+    surf.fill(20, 20, 40);
+    surf.fillRect(0, 0, vw, 16, 'rgba(16,16,48,0.9)');
+    surf.drawText(level?.name || level?.nid || 'Map Info', 4, 3, 'rgba(220,200,128,1)', '9px monospace');
+
+    let y = 24;
+    const line = (label: string, value: string, color: string = 'white'): void => {
+      surf.drawText(label, 8, y, 'rgba(160,160,200,1)', '7px monospace');
+      surf.drawText(value, 64, y, color, '7px monospace');
+      y += 14;
+    };
+
+    const objective = level?.objective;
+    line('Goal', objective?.simple || '---');
+    line('Victory', objective?.win || '---', 'rgba(160,220,160,1)');
+    line('Defeat', objective?.loss || '---', 'rgba(220,160,160,1)');
+    y += 6;
+
+    const party = getPartyUnits();
+    const deployed = party.filter((u) => u.position).length;
+    const slots = getFormationSpots().length;
+    line('Deployed', `${deployed}/${Math.min(party.length, slots)}`);
+
+    const alliedTeams: string[] = game.getAlliedTeams();
+    const enemies: UnitObject[] = [];
+    for (const unit of game.units.values()) {
+      if (unit.position && !unit.dead && !alliedTeams.includes(unit.team)) {
+        enemies.push(unit);
+      }
+    }
+    line('Enemies', `${enemies.length}`, 'rgba(220,160,160,1)');
+    const bosses = enemies.filter((u) => u.tags?.includes('Boss')).map((u) => u.name);
+    if (bosses.length > 0) {
+      line('Boss', bosses.join(', '), 'rgba(255,200,128,1)');
+    }
+
+    surf.fillRect(0, vh - 14, vw, 14, 'rgba(16,16,48,0.8)');
+    surf.drawText('B: Back', 4, vh - 11, 'rgba(140,140,180,0.8)', '6px monospace');
+    return surf;
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * promotion-state.ts -- PromotionChoiceState, the class-choice screen shown
+ * for promotions and class changes.
+ *
+ * Mirrors LT's promotion_choice / promotion flow:
+ *   choice   -- list the candidate classes; the highlighted class shows its
+ *               map sprite, the stat changes the unit would get and the
+ *               weapon types it can use.
+ *   level_up -- after confirming, run PromoteAction / ClassChangeAction and
+ *               show the level-up screen with the stat changes.
+ *
+ * Callers put a ClassChoiceRequest in game.memory('class_choice'). Event
+ * commands (`promote`, `change_class`) cannot be cancelled; item-driven
+ * choices can, and the item is only used up once a class is confirmed.
+ * With a single candidate the choice step is skipped.
+ */
+
+import { State, type StateResult } from '../state';
+import type { Surface } from '../surface';
+import type { InputEvent } from '../input';
+import { viewport } from '../viewport';
+import { ChoiceMenu, type MenuOption } from '../../ui/menu';
+import { drawIcon16 } from '../../ui/icons';
+import { LevelUpScreen } from '../../ui/exp-display';
+import { MapSprite } from '../../rendering/map-sprite';
+import { SkillObject } from '../../objects/skill';
+import type { UnitObject } from '../../objects/unit';
+import type { ItemObject } from '../../objects/item';
+import type { KlassDef, NID } from '../../data/types';
+import { PromoteAction, ClassChangeAction, UseItemAction } from '../action';
+
+// ---------------------------------------------------------------------------
+// Lazy game reference
+// ---------------------------------------------------------------------------
+
+let _game: any = null;
+export function setPromotionGameRef(g: any): void {
+  _game = g;
+}
+function getGame(): any {
+  if (!_game) throw new Error('Game reference not set for promotion state.');
+  return _game;
+}
+
+export type ClassChoiceMode = 'promote' | 'class_change';
+
+/** What the caller stores in game.memory('class_choice'). */
+export interface ClassChoiceRequest {
+  unit: UnitObject;
+  klasses: NID[];
+  mode: ClassChoiceMode;
+  /** Promotion item to use up on confirm. Item choices can be cancelled. */
+  item?: ItemObject | null;
+}
+
+type PromotionStep = 'choice' | 'level_up';
+
+/** Stats shown in the preview, matching the level-up screen. */
+const MAX_PREVIEW_STATS = 8;
+
+const PANEL_X = 92;
+
+/**
+ * Classes a promotion or class-change item offers `unit`.
+ * `promote` items use the current class's turns_into and require
+ * `promote_level`; `class_change` items list their classes directly.
+ */
+export function getItemClassChoices(unit: UnitObject, item: ItemObject): NID[] {
+  const game = getGame();
+  if (item.hasComponent('promote')) {
+    const klass: KlassDef | undefined = game.db.classes.get(unit.klass);
+    if (!klass || !klass.turns_into || klass.turns_into.length === 0) return [];
+    if (unit.level < game.db.getConstant('promote_level', 10)) return [];
+    return [...klass.turns_into];
+  }
+  if (item.hasComponent('class_change')) {
+    const klasses = item.getComponent<NID[]>('class_change') ?? [];
+    return klasses.filter((k) => k !== unit.klass && game.db.classes.has(k));
+  }
+  return [];
+}
+
+/**
+ * Promote or class-change `unit` into `klassNid` through the action log,
+ * then grant the new class's skills, weapon experience and map sprite.
+ * Returns the stat changes that were applied.
+ */
+export function applyClassChoice(
+  unit: UnitObject,
+  klassNid: NID,
+  mode: ClassChoiceMode,
+): Record<string, number> {
+  const game = getGame();
+  const action = mode === 'promote'
+    ? new PromoteAction(unit, klassNid)
+    : new ClassChangeAction(unit, klassNid);
+  game.actionLog.doAction(action);
+
+  grantClassSkills(unit);
+
+  const { statChanges, newWexp } = action.getData();
+  for (const [weaponNid, value] of Object.entries(newWexp ?? {})) {
+    if (value > 0) {
+      unit.wexp[weaponNid] = Math.max(unit.wexp[weaponNid] ?? 0, value);
+    }
+  }
+
+  loadClassSprite(unit.klass, unit.team).then((sprite) => {
+    if (sprite) unit.sprite = sprite;
+  });
+  return statChanges;
+}
+
+/**
+ * Grant learned skills from the unit's current class that the unit
+ * qualifies for at its level and does not already have.
+ * Matches Python's event_functions.py promote/change_class logic.
+ */
+function grantClassSkills(unit: UnitObject): void {
+  const game = getGame();
+  const klass: KlassDef | undefined = game.db.classes.get(unit.klass);
+  if (!klass || !klass.learned_skills) return;
+
+  for (const [levelNeeded, skillNid] of klass.learned_skills) {
+    if (unit.level < levelNeeded) continue;
+    if (unit.skills.some((s) => s.nid === skillNid)) continue;
+    const prefab = game.db.skills.get(skillNid);
+    if (!prefab) continue;
+    const skill = new SkillObject(prefab);
+    unit.skills.push(skill);
+    if (skill.hasComponent('canto')) unit.hasCanto = true;
+  }
+}
+
+/** Load a class's map sprite in a team's palette. Resolves null on failure. */
+async function loadClassSprite(klassNid: NID, team: string): Promise<MapSprite | null> {
+  const game = getGame();
+  const klass: KlassDef | undefined = game.db.classes.get(klassNid);
+  if (!klass?.map_sprite_nid) return null;
+  const teamDef = game.db.teams.defs.find((t: any) => t.nid === team);
+  try {
+    const sprites = await game.resources.tryLoadMapSprite(klass.map_sprite_nid);
+    return MapSprite.fromImages(sprites.stand, sprites.move, teamDef?.palette ?? undefined);
+  } catch (err) {
+    console.warn(`PromotionChoiceState: failed to load map sprite for class "${klassNid}":`, err);
+    return null;
+  }
+}
+
+interface ClassCandidate {
+  klass: KlassDef;
+  statChanges: Record<string, number>;
+  /** Weapon types the class can use. */
+  weaponTypes: NID[];
+  sprite: MapSprite | null;
+}
+
+// ---------------------------------------------------------------------------
+// PromotionChoiceState
+// ---------------------------------------------------------------------------
+
+export class PromotionChoiceState extends State {
+  readonly name = 'promotion_choice';
+  override readonly showMap = false;
+
+  private step: PromotionStep = 'choice';
+  private request: ClassChoiceRequest | null = null;
+  private candidates: ClassCandidate[] = [];
+  private menu: ChoiceMenu | null = null;
+  private levelUpScreen: LevelUpScreen | null = null;
+  private portraitImg: HTMLImageElement | null = null;
+
+  override begin(): StateResult {
+    const game = getGame();
+    const request: ClassChoiceRequest | undefined = game.memory.get('class_choice');
+    game.memory.delete('class_choice');
+    if (!request) {
+      game.state.back();
+      return;
+    }
+
+    this.request = request;
+    this.levelUpScreen = null;
+    this.portraitImg = null;
+    this.candidates = request.klasses
+      .map((nid) => game.db.classes.get(nid) as KlassDef | undefined)
+      .filter((k): k is KlassDef => !!k)
+      .map((klass) => this.buildCandidate(request, klass));
+
+    if (this.candidates.length === 0) {
+      console.warn(`PromotionChoiceState: no valid classes for unit "${request.unit.nid}"`);
+      this.request = null;
+      game.state.back();
+      return;
+    }
+
+    const portraitNid = request.unit.portraitNid || request.unit.nid;
+    game.resources?.loadPortrait?.(portraitNid)?.then?.((img: HTMLImageElement) => {
+      this.portraitImg = img;
+    })?.catch?.(() => {});
+
+    if (this.candidates.length === 1) {
+      this.confirm(this.candidates[0]);
+      return;
+    }
+
+    this.step = 'choice';
+    const options: MenuOption[] = this.candidates.map((c) => ({
+      label: c.klass.name,
+      value: c.klass.nid,
+      enabled: true,
+      description: c.klass.desc,
+    }));
+    this.menu = new ChoiceMenu(options, 8, 28);
+  }
+
+  private buildCandidate(request: ClassChoiceRequest, klass: KlassDef): ClassCandidate {
+    // Actions compute their stat changes up front, so a throwaway
+    // instance previews the result without touching the unit.
+    const preview = request.mode === 'promote'
+      ? new PromoteAction(request.unit, klass.nid)
+      : new ClassChangeAction(request.unit, klass.nid);
+    const weaponTypes = Object.entries(klass.wexp_gain ?? {})
+      .filter(([, gain]) => gain[0])
+      .map(([nid]) => nid);
+
+    const candidate: ClassCandidate = {
+      klass,
+      statChanges: preview.getData().statChanges,
+      weaponTypes,
+      sprite: null,
+    };
+    loadClassSprite(klass.nid, request.unit.team).then((sprite) => {
+      candidate.sprite = sprite;
+    });
+    return candidate;
+  }
+
+  /** Apply the chosen class and move on to the level-up screen. */
+  private confirm(candidate: ClassCandidate): void {
+    const game = getGame();
+    const request = this.request!;
+    const unit = request.unit;
+
+    if (request.item) {
+      game.actionLog.doAction(new UseItemAction(unit, request.item));
+      unit.finished = true;
+    }
+    const statChanges = applyClassChoice(unit, candidate.klass.nid, request.mode);
+    game.audioManager?.playSfx?.('Level Up');
+
+    this.menu = null;
+    this.step = 'level_up';
+    this.levelUpScreen = new LevelUpScreen(
+      unit,
+      statChanges,
+      unit.level,
+      unit.level,
+      game.db.stats ?? [],
+      game.audioManager,
+      this.portraitImg,
+    );
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    if (this.step !== 'choice' || !this.menu) return;
+    const game = getGame();
+
+    let result: { selected: string } | { back: true } | null = null;
+    if (game.input?.mouseClick) {
+      const [gx, gy] = game.input.getGameMousePos();
+      result = this.menu.handleClick(gx, gy, game.input.mouseClick as 'SELECT' | 'BACK');
+    }
+    if (game.input?.mouseMoved) {
+      const [gx, gy] = game.input.getGameMousePos();
+      this.menu.handleMouseHover(gx, gy);
+    }
+    if (!result && event !== null) {
+      result = this.menu.handleInput(event);
+    }
+    if (!result) return;
+
+    if ('back' in result) {
+      // Events must pick a class; items can be put away unused
+      if (this.request?.item) {
+        this.menu = null;
+        this.request = null;
+        game.state.back();
+      }
+      return;
+    }
+
+    const candidate = this.candidates.find((c) => c.klass.nid === result.selected);
+    if (candidate) this.confirm(candidate);
+  }
+
+  override update(): StateResult {
+    if (this.step !== 'level_up') return;
+    const game = getGame();
+    if (!this.levelUpScreen || this.levelUpScreen.update(performance.now())) {
+      this.levelUpScreen = null;
+      this.request = null;
+      game.state.back();
+    }
+  }
+
+  override draw(surf: Surface): Surface {
+    surf.fill(16, 16, 32);
+    const vw = viewport.width;
+    const vh = viewport.height;
+    const request = this.request;
+    if (!request) return surf;
+
+    const title = request.mode === 'promote' ? 'Promotion' : 'Class Change';
+    surf.drawText(title, 8, 6, 'white', '12px monospace');
+    surf.drawText(request.unit.name, vw - 8 - request.unit.name.length * 6, 8, 'rgb(200,200,220)', '10px monospace');
+
+    if (this.step === 'level_up') {
+      this.levelUpScreen?.draw(surf, performance.now());
+      return surf;
+    }
+
+    if (!this.menu) return surf;
+    this.menu.draw(surf);
+
+    const current = this.menu.getCurrentOption();
+    const candidate = this.candidates.find((c) => c.klass.nid === current?.value);
+    if (candidate) this.drawCandidate(surf, candidate);
+
+    const desc = current?.description ?? '';
+    if (desc) {
+      surf.fillRect(0, vh - 20, vw, 20, 'rgba(0,0,0,0.6)');
+      surf.drawText(desc, 8, vh - 14, 'rgb(200,200,220)', '8px monospace');
+    }
+    return surf;
+  }
+
+  /** Sprite, stat changes and weapon types for the highlighted class. */
+  private drawCandidate(surf: Surface, candidate: ClassCandidate): void {
+    const game = getGame();
+    const panelW = viewport.width - PANEL_X - 8;
+    surf.fillRect(PANEL_X, 26, panelW, 112, 'rgba(24,28,64,0.9)');
+    surf.drawRect(PANEL_X, 26, panelW, 112, 'rgba(120,130,200,0.8)');
+
+    // Map sprite (stand frames are 64x48 with the unit centered)
+    if (candidate.sprite) {
+      surf.blit(candidate.sprite.getCurrentFrame(), PANEL_X - 16, 16);
+    }
+    surf.drawText(candidate.klass.name, PANEL_X + 44, 32, 'white', '10px monospace');
+
+    // Stat changes, two columns
+    const stats = (game.db.stats ?? []).slice(0, MAX_PREVIEW_STATS);
+    const colW = Math.floor(panelW / 2);
+    for (let i = 0; i < stats.length; i++) {
+      const stat = stats[i];
+      const x = PANEL_X + 6 + (i % 2) * colW;
+      const y = 60 + Math.floor(i / 2) * 12;
+      const change = candidate.statChanges[stat.nid] ?? 0;
+      const changeText = change > 0 ? `+${change}` : change < 0 ? `${change}` : '-';
+      const color = change > 0 ? 'rgb(120,220,120)' : change < 0 ? 'rgb(220,120,120)' : 'rgb(140,140,160)';
+      surf.drawText(stat.name, x, y, 'rgb(200,200,220)', '8px monospace');
+      surf.drawText(changeText, x + colW - 28, y, color, '8px monospace');
+    }
+
+    // Usable weapon types
+    const weaponsY = 112;
+    surf.drawText('Wpn', PANEL_X + 6, weaponsY + 4, 'rgb(240,220,120)', '8px monospace');
+    if (candidate.weaponTypes.length === 0) {
+      surf.drawText('(none)', PANEL_X + 28, weaponsY + 4, 'rgb(140,140,160)', '8px monospace');
+    }
+    candidate.weaponTypes.forEach((nid, i) => {
+      const weapon = game.db.weapons?.find((w: any) => w.nid === nid);
+      if (weapon?.icon_nid) {
+        drawIcon16(surf, weapon.icon_nid, weapon.icon_index, PANEL_X + 28 + i * 18, weaponsY);
+      }
+    });
+  }
+
+  override end(): StateResult {
+    this.menu = null;
+  }
+}
@@ -3,8 +3,13 @@
  *
  * SaveMenuState: Shows a list of save slots, lets the player pick one to save to.
  * LoadMenuState: Shows a list of save slots (+ suspend), lets the player pick one to load.
+ *   Also exports every save + persistent record to a JSON file and imports
+ *   such a file back, so progress can move between browsers and app builds.
  *
  * Both are transparent states that overlay on top of the current game screen.
+ *
+ * SaveErrorState: Explains why a save could not be migrated to the current
+ * schema (see save-migrations.ts) and returns to the load menu.
  */
 
 import { State, type StateResult } from '../state';
@@ -19,8 +24,13 @@ import {
   loadSaveSlots,
   hasSuspend,
   formatPlaytime,
+  exportSaves,
+  parseSaveExport,
+  importSaves,
   type SaveSlot,
 } from '../save';
+import { SaveMigrationError, SAVE_SCHEMA_VERSION } from '../save-migrations';
+import { isCapacitor, shareTextFile } from '../../native';
 
 // ---------------------------------------------------------------------------
 // Lazy game reference
@@ -49,6 +59,8 @@ export class SaveMenuState extends State {
   private saving: boolean = false;
   private message: string = '';
   private messageTimer: number = 0;
+  /** Save kind recorded in the slot metadata (see saveGame). */
+  private kind: string = 'battle';
 
   override start(): StateResult {
     this.loading = true;
@@ -57,6 +69,9 @@ export class SaveMenuState extends State {
     this.messageTimer = 0;
 
     const game = getGame();
+    // Callers outside a battle (e.g. the base) set memory['save_kind']
+    this.kind = game.memory.get('save_kind') ?? 'battle';
+    game.memory.delete('save_kind');
     const gameNid = game.db.getConstant('game_nid', 'default') as string;
     const numSlots = game.db.getConstant('num_save_slots', 3) as number;
 
@@ -120,7 +135,7 @@ export class SaveMenuState extends State {
       } else {
         const slotIdx = parseInt(result.selected, 10);
         this.saving = true;
-        saveGame(game, slotIdx, 'battle').then(() => {
+        saveGame(game, slotIdx, this.kind).then(() => {
           game.currentSaveSlot = slotIdx;
           this.message = 'Game saved!';
           this.messageTimer = 1500;
@@ -181,14 +196,20 @@ export class LoadMenuState extends State {
   private restoring: boolean = false;
   private hasSuspendSave: boolean = false;
   private message: string = '';
+  private messageIsError: boolean = false;
   private messageTimer: number = 0;
 
   override start(): StateResult {
-    this.loading = true;
     this.restoring = false;
-    this.hasSuspendSave = false;
     this.message = '';
     this.messageTimer = 0;
+    this.refreshSlots();
+    return undefined;
+  }
+
+  private refreshSlots(): void {
+    this.loading = true;
+    this.hasSuspendSave = false;
 
     const game = getGame();
     const gameNid = game.db.getConstant('game_nid', 'default') as string;
@@ -206,8 +227,6 @@ export class LoadMenuState extends State {
       console.error('LoadMenuState: failed to load slots', err);
       this.loading = false;
     });
-
-    return undefined;
   }
 
   private buildMenu(slots: SaveSlot[], hasSusp: boolean): void {
@@ -236,6 +255,19 @@ export class LoadMenuState extends State {
       });
     }
 
+    options.push({
+      label: 'Export Saves',
+      value: 'export',
+      enabled: hasSusp || slots.some((s) => s.name !== '--NO DATA--'),
+      description: 'Download all saves and records as a file.',
+    });
+    options.push({
+      label: 'Import Saves',
+      value: 'import',
+      enabled: true,
+      description: 'Replace all saves and records from a file.',
+    });
+
     options.push({
       label: 'Cancel',
       value: 'cancel',
@@ -254,10 +286,8 @@ export class LoadMenuState extends State {
     if (this.messageTimer > 0) {
       this.messageTimer -= game.frameDeltaMs ?? 16;
       if (this.messageTimer <= 0) {
-        if (this.message.startsWith('Load failed')) {
-          // Stay on load menu
-          this.message = '';
-        }
+        // Stay on load menu
+        this.message = '';
       }
       return undefined;
     }
@@ -270,6 +300,14 @@ export class LoadMenuState extends State {
         game.state.back();
         return undefined;
       }
+      if (result.selected === 'export') {
+        this.exportToFile();
+        return undefined;
+      }
+      if (result.selected === 'import') {
+        this.importFromFile();
+        return undefined;
+      }
 
       this.restoring = true;
 
@@ -280,14 +318,12 @@ export class LoadMenuState extends State {
             game.state.clear();
             game.state.change('free');
           } else {
-            this.message = 'Load failed!';
-            this.messageTimer = 1500;
+            this.showMessage('Load failed!', true);
           }
         }).catch((err: any) => {
           console.error('LoadMenuState: load suspend failed', err);
           this.restoring = false;
-          this.message = 'Load failed!';
-          this.messageTimer = 1500;
+          this.onLoadError(err);
         });
       } else {
         const slotIdx = parseInt(result.selected, 10);
@@ -297,15 +333,19 @@ export class LoadMenuState extends State {
             game.currentSaveSlot = slotIdx;
             game.state.clear();
             game.state.change('free');
+            // Saves made at the base reopen it over the map, above the
+            // restored event that opened it (it runs on when the base closes)
+            if (this.slots.find((s) => s.idx === slotIdx)?.kind === 'base') {
+              if (game.eventManager?.hasActiveEvents()) game.state.change('event');
+              game.state.change('base_main');
+            }
           } else {
-            this.message = 'Load failed!';
-            this.messageTimer = 1500;
+            this.showMessage('Load failed!', true);
           }
         }).catch((err: any) => {
           console.error('LoadMenuState: load failed', err);
           this.restoring = false;
-          this.message = 'Load failed!';
-          this.messageTimer = 1500;
+          this.onLoadError(err);
         });
       }
     }
@@ -313,6 +353,55 @@ export class LoadMenuState extends State {
     return undefined;
   }
 
+  /** Show the save error screen for unmigratable saves, else a brief message. */
+  private onLoadError(err: unknown): void {
+    if (err instanceof SaveMigrationError) {
+      const game = getGame();
+      game.memory.set('save_error', err);
+      game.state.change('save_error');
+      return;
+    }
+    this.showMessage('Load failed!', true);
+  }
+
+  private showMessage(message: string, isError: boolean): void {
+    this.message = message;
+    this.messageIsError = isError;
+    this.messageTimer = 1500;
+  }
+
+  private exportToFile(): void {
+    const game = getGame();
+    const gameNid = game.db.getConstant('game_nid', 'default') as string;
+    const numSlots = game.db.getConstant('num_save_slots', 3) as number;
+
+    exportSaves(gameNid, numSlots).then(async (file) => {
+      await saveTextFile(`${gameNid}-saves.json`, JSON.stringify(file));
+      this.showMessage('Saves exported!', false);
+    }).catch((err: any) => {
+      console.error('LoadMenuState: export failed', err);
+      this.showMessage('Export failed!', true);
+    });
+  }
+
+  private importFromFile(): void {
+    const game = getGame();
+    const gameNid = game.db.getConstant('game_nid', 'default') as string;
+    const numSlots = game.db.getConstant('num_save_slots', 3) as number;
+
+    pickTextFile().then(async (text) => {
+      if (text === null) return;
+      // Throws before anything is written if the file is unusable
+      const file = parseSaveExport(text, gameNid, numSlots);
+      await importSaves(file, numSlots);
+      this.refreshSlots();
+      this.showMessage('Saves imported!', false);
+    }).catch((err: any) => {
+      console.error('LoadMenuState: import failed', err);
+      this.showMessage(`Import failed: ${err instanceof Error ? err.message : err}`, true);
+    });
+  }
+
   override draw(surf: Surface): Surface {
     const ctx = surf.ctx;
     const w = viewport.width;
@@ -331,8 +420,13 @@ export class LoadMenuState extends State {
     if (this.loading) {
       ctx.fillText('Loading...', 16, 24);
     } else if (this.message) {
-      ctx.fillStyle = this.message.startsWith('Load failed') ? '#ff8888' : '#88ff88';
-      ctx.fillText(this.message, 16, 60);
+      ctx.fillStyle = this.messageIsError ? '#ff8888' : '#88ff88';
+      ctx.font = '8px monospace';
+      let y = 60;
+      for (const line of wrapText(this.message, Math.floor((w - 32) / 5))) {
+        ctx.fillText(line, 16, y);
+        y += 10;
+      }
     } else if (this.restoring) {
       ctx.fillText('Loading...', 16, 24);
     } else if (this.menu) {
@@ -342,3 +436,124 @@ export class LoadMenuState extends State {
     return surf;
   }
 }
+
+// ---------------------------------------------------------------------------
+// File helpers
+// ---------------------------------------------------------------------------
+
+/** How long the blob URL stays valid after the download starts. */
+const REVOKE_DELAY_MS = 10_000;
+
+/**
+ * Offer `text` to the player as a file: through the share sheet in the
+ * Capacitor build, as a download everywhere else (browser, PWA, TWA).
+ */
+async function saveTextFile(filename: string, text: string): Promise<void> {
+  if (isCapacitor()) {
+    await shareTextFile(filename, text);
+    return;
+  }
+  const blob = new Blob([text], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Revoking right away can cancel the download in Safari and Firefox
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+/** Let the player pick a JSON file; resolves to its text, or null if cancelled. */
+function pickTextFile(): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, reject);
+    });
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// SaveErrorState
+// ---------------------------------------------------------------------------
+
+export class SaveErrorState extends State {
+  name = 'save_error';
+  override readonly showMap = false;
+
+  private error: SaveMigrationError | null = null;
+
+  override begin(): StateResult {
+    const game = getGame();
+    this.error = game.memory.get('save_error') ?? null;
+    game.memory.delete('save_error');
+    return undefined;
+  }
+
+  override takeInput(event: InputEvent | null): StateResult {
+    // Any button or click dismisses the error
+    const game = getGame();
+    if (event !== null || game.input?.mouseClick) {
+      game.state.back();
+    }
+    return undefined;
+  }
+
+  override draw(surf: Surface): Surface {
+    const ctx = surf.ctx;
+    const w = viewport.width;
+
+    surf.fill(24, 8, 8);
+
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#ff8888';
+    ctx.font = '10px monospace';
+    ctx.fillText('Save could not be loaded', 16, 16);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '8px monospace';
+    const reason = this.error?.message ?? 'Unknown error.';
+    let y = 40;
+    for (const line of wrapText(reason, Math.floor((w - 32) / 5))) {
+      ctx.fillText(line, 16, y);
+      y += 10;
+    }
+
+    ctx.fillStyle = '#aaaacc';
+    const from = this.error?.fromVersion;
+    ctx.fillText(
+      `Save version: ${from ?? '?'}   Game version: ${SAVE_SCHEMA_VERSION}`,
+      16, y + 8,
+    );
+    ctx.fillText('Press any button to return.', 16, y + 24);
+
+    return surf;
+  }
+}
+
+/** Greedy word wrap for the monospace error text. */
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
@@ -126,6 +126,14 @@ const CONFIG_SETTINGS: SettingDef[] = [
     defaultIndex: 0, // 0 (off)
     description: 'Opacity of the tile grid overlay.',
   },
+  {
+    name: 'unit_icons',
+    label: 'Unit Icons',
+    type: 'bool',
+    values: ['OFF', 'ON'],
+    defaultIndex: 1, // on
+    description: 'Show rescue, status, boss and item icons on map units.',
+  },
   {
     name: 'hp_map_team',
     label: 'HP Map Team',
@@ -0,0 +1,581 @@
+/**
+ * supply-state.ts -- SupplyState, the convoy/supply screen.
+ *
+ * Reachable from the `open_convoy` event command, the prep menu, the base
+ * menu and the unit action menu (when the unit holds the convoy or
+ * stands next to the unit that does). Callers put the unit to supply in
+ * game.memory('supply_unit'); without one the screen starts with a unit list.
+ * The action menu also sets 'supply_from_menu' so that transfers use up the
+ * unit's trade for the turn.
+ *
+ * Steps:
+ *   unit   -- pick which unit to supply
+ *   choice -- Give / Take / List
+ *   give   -- pick an inventory item to store in the convoy
+ *   take   -- pick a convoy item; if the inventory is full, go to swap
+ *   swap   -- pick the inventory item sent back in exchange
+ *   list   -- browse the convoy without changing anything
+ *
+ * Convoy items are split into one tab per weapon type plus an "Items" tab
+ * for everything else. LEFT/RIGHT switch tabs, AUX cycles the sort order.
+ * Every transfer goes through the action log so turnwheel can undo it.
+ */
+
+import { State, type StateResult } from '../state';
+import type { Surface } from '../surface';
+import type { InputEvent } from '../input';
+import { viewport } from '../viewport';
+import { ChoiceMenu, type MenuOption } from '../../ui/menu';
+import { drawItemIcon } from '../../ui/icons';
+import type { UnitObject } from '../../objects/unit';
+import type { ItemObject } from '../../objects/item';
+import {
+  StoreItemAction,
+  TakeItemFromConvoy,
+  TradeItemWithConvoy,
+} from '../action';
+
+// ---------------------------------------------------------------------------
+// Lazy game reference
+// ---------------------------------------------------------------------------
+
+let _game: any = null;
+export function setSupplyGameRef(g: any): void {
+  _game = g;
+}
+function getGame(): any {
+  if (!_game) throw new Error('Game reference not set for supply state.');
+  return _game;
+}
+
+/** Inventory size, matching the shop and trade screens. */
+const MAX_INVENTORY = 5;
+
+/** Tab for every convoy item that is not a weapon. */
+const ITEMS_TAB = '__items__';
+
+const SORT_MODES = ['default', 'name', 'uses'] as const;
+type SortMode = typeof SORT_MODES[number];
+
+type SupplyStep = 'unit' | 'choice' | 'give' | 'take' | 'swap' | 'list';
+
+const VISIBLE_ROWS = 7;
+const ROW_HEIGHT = 16;
+
+/**
+ * Whether `unit` may open the supply screen from the action menu: the convoy
+ * must be enabled and the unit either holds it (Convoy tag) or is adjacent
+ * to an ally who does.
+ */
+export function canAccessConvoy(unit: UnitObject, adjacentAllies: UnitObject[]): boolean {
+  const game = getGame();
+  if (!game.gameVars.get('_convoy')) return false;
+  if (!game.getParty()) return false;
+  if (unit.tags.includes('Convoy')) return true;
+  return adjacentAllies.some((ally) => ally.tags.includes('Convoy'));
+}
+
+// ---------------------------------------------------------------------------
+// SupplyState
+// ---------------------------------------------------------------------------
+
+export class SupplyState extends State {
+  readonly name = 'supply';
+  override readonly showMap = false;
+
+  private step: SupplyStep = 'unit';
+  private unit: UnitObject | null = null;
+  /** True when the unit was picked from the list (BACK returns to it). */
+  private pickedFromList: boolean = false;
+  /** Opened from the unit action menu mid-turn. */
+  private fromMenu: boolean = false;
+
+  private units: UnitObject[] = [];
+  private unitCursor: number = 0;
+  private unitScroll: number = 0;
+
+  private choiceMenu: ChoiceMenu | null = null;
+
+  private tabs: string[] = [];
+  private tabIndex: number = 0;
+  private sortMode: SortMode = 'default';
+  private convoyCursor: number = 0;
+  private convoyScroll: number = 0;
+  private inventoryCursor: number = 0;
+  /** Convoy item chosen in 'take' while waiting for a swap partner. */
+  private pendingTake: ItemObject | null = null;
+
+  private message: string = '';
+  private messageTimer: number = 0;
+
+  override begin(): StateResult {
+    const game = getGame();
+    const unit: UnitObject | null = game.memory.get('supply_unit') ?? null;
+    this.fromMenu = !!game.memory.get('supply_from_menu');
+    game.memory.delete('supply_unit');
+    game.memory.delete('supply_from_menu');
+
+    this.tabs = this.buildTabs();
+    this.tabIndex = 0;
+    this.sortMode = 'default';
+    this.message = '';
+    this.messageTimer = 0;
+
+    if (unit) {
+      this.unit = unit;
+      this.pickedFromList = false;
+      this.showChoice();
+    } else {
+      this.units = this.getSupplyUnits();
+      this.unitCursor = 0;
+      this.unitScroll = 0;
+      this.step = 'unit';
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Data helpers
+  // -------------------------------------------------------------------------
+
+  private getConvoy(): ItemObject[] {
+    return getGame().getParty()?.convoy ?? [];
+  }
+
+  private getCapacity(): number {
+    return getGame().db.getConstant('convoy_size', 100) as number;
+  }
+
+  /** Living player units of the current party, in registry order. */
+  private getSupplyUnits(): UnitObject[] {
+    const game = getGame();
+    const partyNid = game.currentParty;
+    const units: UnitObject[] = [];
+    for (const unit of game.units.values() as Iterable<UnitObject>) {
+      if (unit.team !== 'player' || unit.dead) continue;
+      if (partyNid && unit.party && unit.party !== partyNid) continue;
+      units.push(unit);
+    }
+    return units;
+  }
+
+  private buildTabs(): string[] {
+    const game = getGame();
+    const tabs: string[] = [];
+    for (const weapon of game.db.weapons ?? []) {
+      if (!weapon.hide_from_display) tabs.push(weapon.nid);
+    }
+    tabs.push(ITEMS_TAB);
+    return tabs;
+  }
+
+  private tabLabel(tab: string): string {
+    if (tab === ITEMS_TAB) return 'Items';
+    const weapon = getGame().db.weapons?.find((w: any) => w.nid === tab);
+    return weapon?.name ?? tab;
+  }
+
+  /** Convoy items belonging to the current tab, in the current sort order. */
+  private getTabItems(): ItemObject[] {
+    const tab = this.tabs[this.tabIndex];
+    const items = this.getConvoy().filter((item) => {
+      const wtype = item.getWeaponType();
+      if (tab === ITEMS_TAB) return !wtype || !this.tabs.includes(wtype);
+      return wtype === tab;
+    });
+    switch (this.sortMode) {
+      case 'name':
+        return [...items].sort((a, b) => a.name.localeCompare(b.name));
+      case 'uses':
+        return [...items].sort((a, b) => b.uses - a.uses || a.name.localeCompare(b.name));
+      default:
+        return items;
+    }
+  }
+
+  private showMessage(message: string): void {
+    this.message = message;
+    this.messageTimer = 1200;
+  }
+
+  /** Supplying in the field uses up the unit's trade for the turn. */
+  private markTraded(): void {
+    if (this.fromMenu && this.unit) {
+      this.unit.hasTraded = true;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Step transitions
+  // -------------------------------------------------------------------------
+
+  private showChoice(): void {
+    this.step = 'choice';
+    const unit = this.unit!;
+    const convoy = this.getConvoy();
+    const options: MenuOption[] = [
+      {
+        label: 'Give',
+        value: 'give',
+        enabled: unit.items.length > 0 && convoy.length < this.getCapacity(),
+        description: 'Send items to the convoy.',
+      },
+      {
+        label: 'Take',
+        value: 'take',
+        enabled: convoy.length > 0,
+        description: 'Take items from the convoy.',
+      },
+      {
+        label: 'List',
+        value: 'list',
+        enabled: true,
+        description: 'Browse the convoy.',
+      },
+    ];
+    this.choiceMenu = new ChoiceMenu(options, 130, 40);
+  }
+
+  private enterConvoyList(step: 'take' | 'list'): void {
+    this.step = step;
+    this.convoyCursor = 0;
+    this.convoyScroll = 0;
+    // Open on the first tab that has something in it
+    const start = this.tabIndex;
+    for (let i = 0; i < this.tabs.length; i++) {
+      this.tabIndex = (start + i) % this.tabs.length;
+      if (this.getTabItems().length > 0) break;
+    }
+  }
+
+  private leaveToChoice(): void {
+    this.pendingTake = null;
+    this.showChoice();
+  }
+
+  // -------------------------------------------------------------------------
+  // Input
+  // -------------------------------------------------------------------------
+
+  override update(): StateResult {
+    if (this.messageTimer > 0) {
+      this.messageTimer -= getGame().frameDeltaMs ?? 16;
+      if (this.messageTimer <= 0) this.message = '';
+    }
+  }
+
+  override takeInput(event: InputEvent): StateResult {
+    const game = getGame();
+
+    let effective = event;
+    if (game.input?.mouseClick === 'SELECT' && !effective) effective = 'SELECT';
+    else if (game.input?.mouseClick === 'BACK' && !effective) effective = 'BACK';
+    if (!effective) return;
+
+    switch (this.step) {
+      case 'unit':
+        this.handleUnitInput(effective);
+        break;
+      case 'choice':
+        this.handleChoiceInput(effective);
+        break;
+      case 'give':
+      case 'swap':
+        this.handleInventoryInput(effective);
+        break;
+      case 'take':
+      case 'list':
+        this.handleConvoyInput(effective);
+        break;
+    }
+  }
+
+  private handleUnitInput(event: InputEvent): void {
+    const game = getGame();
+    if (event === 'UP') {
+      this.unitCursor = Math.max(0, this.unitCursor - 1);
+      if (this.unitCursor < this.unitScroll) this.unitScroll = this.unitCursor;
+    } else if (event === 'DOWN') {
+      this.unitCursor = Math.min(this.units.length - 1, this.unitCursor + 1);
+      if (this.unitCursor >= this.unitScroll + VISIBLE_ROWS) {
+        this.unitScroll = this.unitCursor - VISIBLE_ROWS + 1;
+      }
+    } else if (event === 'SELECT') {
+      const unit = this.units[this.unitCursor];
+      if (!unit) return;
+      this.unit = unit;
+      this.pickedFromList = true;
+      this.showChoice();
+    } else if (event === 'BACK') {
+      game.state.back();
+    }
+  }
+
+  private handleChoiceInput(event: InputEvent): void {
+    const game = getGame();
+    if (!this.choiceMenu) return;
+    const result = this.choiceMenu.handleInput(event);
+    if (!result) return;
+
+    if ('back' in result) {
+      this.choiceMenu = null;
+      if (this.pickedFromList) {
+        this.step = 'unit';
+      } else {
+        game.state.back();
+      }
+      return;
+    }
+
+    switch (result.selected) {
+      case 'give':
+        this.step = 'give';
+        this.inventoryCursor = 0;
+        break;
+      case 'take':
+        this.enterConvoyList('take');
+        break;
+      case 'list':
+        this.enterConvoyList('list');
+        break;
+    }
+  }
+
+  private handleInventoryInput(event: InputEvent): void {
+    const game = getGame();
+    const unit = this.unit!;
+    const count = unit.items.length;
+
+    if (event === 'UP') {
+      this.inventoryCursor = Math.max(0, this.inventoryCursor - 1);
+    } else if (event === 'DOWN') {
+      this.inventoryCursor = Math.min(Math.max(0, count - 1), this.inventoryCursor + 1);
+    } else if (event === 'BACK') {
+      if (this.step === 'swap') {
+        this.pendingTake = null;
+        this.step = 'take';
+      } else {
+        this.leaveToChoice();
+      }
+    } else if (event === 'SELECT') {
+      const item = unit.items[this.inventoryCursor];
+      if (!item) return;
+
+      if (this.step === 'swap' && this.pendingTake) {
+        game.actionLog.doAction(new TradeItemWithConvoy(unit, this.pendingTake, item));
+        this.markTraded();
+        this.showMessage(`Swapped ${item.name} for ${this.pendingTake.name}.`);
+        this.pendingTake = null;
+        this.step = 'take';
+        this.clampConvoyCursor();
+        return;
+      }
+
+      if (this.getConvoy().length >= this.getCapacity()) {
+        this.showMessage('Convoy is full!');
+        return;
+      }
+      game.actionLog.doAction(new StoreItemAction(unit, item));
+      this.markTraded();
+      this.showMessage(`Sent ${item.name} to the convoy.`);
+      if (unit.items.length === 0) {
+        this.leaveToChoice();
+      } else {
+        this.inventoryCursor = Math.min(this.inventoryCursor, unit.items.length - 1);
+      }
+    }
+  }
+
+  private handleConvoyInput(event: InputEvent): void {
+    const game = getGame();
+    const items = this.getTabItems();
+
+    if (event === 'LEFT' || event === 'RIGHT') {
+      const dir = event === 'LEFT' ? -1 : 1;
+      this.tabIndex = (this.tabIndex + dir + this.tabs.length) % this.tabs.length;
+      this.convoyCursor = 0;
+      this.convoyScroll = 0;
+    } else if (event === 'UP') {
+      this.convoyCursor = Math.max(0, this.convoyCursor - 1);
+      if (this.convoyCursor < this.convoyScroll) this.convoyScroll = this.convoyCursor;
+    } else if (event === 'DOWN') {
+      this.convoyCursor = Math.min(Math.max(0, items.length - 1), this.convoyCursor + 1);
+      if (this.convoyCursor >= this.convoyScroll + VISIBLE_ROWS) {
+        this.convoyScroll = this.convoyCursor - VISIBLE_ROWS + 1;
+      }
+    } else if (event === 'AUX') {
+      const idx = SORT_MODES.indexOf(this.sortMode);
+      this.sortMode = SORT_MODES[(idx + 1) % SORT_MODES.length];
+      this.convoyCursor = 0;
+      this.convoyScroll = 0;
+    } else if (event === 'BACK') {
+      this.leaveToChoice();
+    } else if (event === 'SELECT' && this.step === 'take') {
+      const item = items[this.convoyCursor];
+      if (!item) return;
+      const unit = this.unit!;
+      if (unit.items.length >= MAX_INVENTORY) {
+        // Full inventory: pick something to send back instead
+        this.pendingTake = item;
+        this.inventoryCursor = 0;
+        this.step = 'swap';
+        return;
+      }
+      game.actionLog.doAction(new TakeItemFromConvoy(unit, item));
+      this.markTraded();
+      this.showMessage(`Took ${item.name}.`);
+      this.clampConvoyCursor();
+      if (this.getConvoy().length === 0) this.leaveToChoice();
+    }
+  }
+
+  private clampConvoyCursor(): void {
+    const count = this.getTabItems().length;
+    this.convoyCursor = Math.min(this.convoyCursor, Math.max(0, count - 1));
+    this.convoyScroll = Math.min(this.convoyScroll, this.convoyCursor);
+  }
+
+  // -------------------------------------------------------------------------
+  // Drawing
+  // -------------------------------------------------------------------------
+
+  override draw(surf: Surface): Surface {
+    const vw = viewport.width;
+    const vh = viewport.height;
+
+    surf.fill(20, 20, 40);
+
+    // Title bar with convoy capacity
+    surf.fillRect(0, 0, vw, 16, 'rgba(16,16,48,0.9)');
+    surf.drawText('Supply', 4, 3, 'rgba(220,200,128,1)', '9px monospace');
+    const convoy = this.getConvoy();
+    const capText = `Convoy ${convoy.length}/${this.getCapacity()}`;
+    surf.drawText(capText, vw - capText.length * 5 - 4, 4, 'white', '7px monospace');
+
+    if (this.step === 'unit') {
+      this.drawUnitList(surf);
+    } else {
+      this.drawInventory(surf);
+      if (this.step === 'choice') {
+        this.choiceMenu?.draw(surf);
+      } else {
+        this.drawConvoy(surf);
+      }
+    }
+
+    // Message / help line
+    surf.fillRect(0, vh - 14, vw, 14, 'rgba(16,16,48,0.8)');
+    const help = this.message || this.helpText();
+    const helpColor = this.message ? 'rgba(255,255,160,1)' : 'rgba(140,140,180,0.8)';
+    surf.drawText(help, 4, vh - 11, helpColor, '6px monospace');
+
+    return surf;
+  }
+
+  private helpText(): string {
+    switch (this.step) {
+      case 'unit': return 'SELECT: Choose unit  |  B: Back';
+      case 'choice': return 'SELECT: Choose  |  B: Back';
+      case 'give': return 'SELECT: Send to convoy  |  B: Back';
+      case 'swap': return 'Inventory full -- SELECT: Item to send back  |  B: Cancel';
+      case 'take': return 'SELECT: Take  |  L/R: Type  |  AUX: Sort  |  B: Back';
+      case 'list': return 'L/R: Type  |  AUX: Sort  |  B: Back';
+    }
+  }
+
+  private drawUnitList(surf: Surface): void {
+    const vw = viewport.width;
+    const listY = 20;
+    const end = Math.min(this.units.length, this.unitScroll + VISIBLE_ROWS);
+    for (let i = this.unitScroll; i < end; i++) {
+      const unit = this.units[i];
+      const y = listY + (i - this.unitScroll) * ROW_HEIGHT;
+      if (i === this.unitCursor) {
+        surf.fillRect(2, y, vw - 4, ROW_HEIGHT - 2, 'rgba(64,64,160,0.5)');
+      }
+      surf.drawText(unit.name, 8, y + 3, 'white', '7px monospace');
+      surf.drawText(unit.klass, 90, y + 3, 'rgba(160,160,200,1)', '6px monospace');
+      surf.drawText(`${unit.items.length}/${MAX_INVENTORY}`, vw - 40, y + 3, 'rgba(160,200,160,1)', '6px monospace');
+    }
+  }
+
+  private drawInventory(surf: Surface): void {
+    const unit = this.unit;
+    if (!unit) return;
+
+    const x = 4;
+    const y = 20;
+    const w = 112;
+    surf.fillRect(x, y, w, MAX_INVENTORY * ROW_HEIGHT + 16, 'rgba(16,16,48,0.9)');
+    surf.drawRect(x, y, w, MAX_INVENTORY * ROW_HEIGHT + 16, 'rgba(100,100,180,0.7)');
+    surf.drawText(unit.name, x + 4, y + 3, 'rgba(220,200,128,1)', '7px monospace');
+    surf.drawText(`${unit.items.length}/${MAX_INVENTORY}`, x + w - 24, y + 3, 'white', '6px monospace');
+
+    const active = this.step === 'give' || this.step === 'swap';
+    for (let i = 0; i < MAX_INVENTORY; i++) {
+      const rowY = y + 14 + i * ROW_HEIGHT;
+      const item = unit.items[i];
+      if (active && i === this.inventoryCursor) {
+        surf.fillRect(x + 2, rowY, w - 4, ROW_HEIGHT - 1, 'rgba(64,64,160,0.6)');
+      }
+      if (!item) {
+        surf.drawText('--', x + 22, rowY + 4, 'rgba(100,100,120,1)', '6px monospace');
+        continue;
+      }
+      drawItemIcon(surf, item, x + 3, rowY);
+      surf.drawText(item.name, x + 22, rowY + 4, 'white', '7px monospace');
+      if (item.maxUses > 0) {
+        surf.drawText(String(item.uses), x + w - 16, rowY + 4, 'rgba(160,200,160,1)', '6px monospace');
+      }
+    }
+  }
+
+  private drawConvoy(surf: Surface): void {
+    const vw = viewport.width;
+    const x = 122;
+    const y = 20;
+    const w = vw - x - 4;
+
+    // Tab strip
+    const label = this.tabLabel(this.tabs[this.tabIndex]);
+    surf.fillRect(x, y, w, 14, 'rgba(32,32,80,0.95)');
+    surf.drawText(`< ${label} >`, x + 4, y + 3, 'rgba(220,200,128,1)', '7px monospace');
+    if (this.sortMode !== 'default') {
+      surf.drawText(`by ${this.sortMode}`, x + w - 44, y + 4, 'rgba(160,160,200,1)', '6px monospace');
+    }
+
+    // Item rows
+    const items = this.getTabItems();
+    const listY = y + 16;
+    surf.fillRect(x, listY, w, VISIBLE_ROWS * ROW_HEIGHT, 'rgba(16,16,48,0.9)');
+    if (items.length === 0) {
+      surf.drawText('Nothing here.', x + 8, listY + 4, 'rgba(120,120,140,1)', '7px monospace');
+    }
+    const end = Math.min(items.length, this.convoyScroll + VISIBLE_ROWS);
+    for (let i = this.convoyScroll; i < end; i++) {
+      const item = items[i];
+      const rowY = listY + (i - this.convoyScroll) * ROW_HEIGHT;
+      const isCursor = i === this.convoyCursor && this.step !== 'swap';
+      const isPending = item === this.pendingTake;
+      if (isCursor || isPending) {
+        surf.fillRect(x + 2, rowY, w - 4, ROW_HEIGHT - 1, isPending ? 'rgba(160,120,32,0.6)' : 'rgba(64,64,160,0.6)');
+      }
+      drawItemIcon(surf, item, x + 3, rowY);
+      surf.drawText(item.name, x + 22, rowY + 4, 'white', '7px monospace');
+      if (item.maxUses > 0) {
+        surf.drawText(`${item.uses}/${item.maxUses}`, x + w - 30, rowY + 4, 'rgba(160,200,160,1)', '6px monospace');
+      }
+    }
+
+    // Scroll indicators
+    if (this.convoyScroll > 0) {
+      surf.drawText('^', x + w / 2, listY - 6, 'rgba(180,180,220,0.6)', '7px monospace');
+    }
+    if (end < items.length) {
+      surf.drawText('v', x + w / 2, listY + VISIBLE_ROWS * ROW_HEIGHT, 'rgba(180,180,220,0.6)', '7px monospace');
+    }
+  }
+
+  override end(): StateResult {
+    this.choiceMenu = null;
+  }
+}
@@ -0,0 +1,103 @@
+// ---------------------------------------------------------------------------
+// StaticRandom — Seeded, serializable RNG for all gameplay randomness.
+// Mirrors LT's app/utilities/static_random.py.
+//
+// Gameplay rolls (hit, crit, growths) must never call Math.random()
+// directly: they draw from the streams below so that a save or suspend
+// captures the exact RNG position and reloading reproduces the same
+// outcomes. Cosmetic randomness (sound variants, portrait blinks, screen
+// shake) is deliberately left on Math.random().
+// ---------------------------------------------------------------------------
+
+/**
+ * Small deterministic PRNG (mulberry32) whose whole state is a single
+ * 32-bit integer, so it round-trips through JSON saves losslessly.
+ */
+export class StaticRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Float in [0, 1). */
+  random(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Integer in [a, b] inclusive. */
+  randint(a: number, b: number): number {
+    return a + Math.floor(this.random() * (b - a + 1));
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/** Serialized RNG state stored in SaveDict. */
+export interface RngSaveData {
+  seed: number;
+  combat: number;
+  growth: number;
+}
+
+// Separate streams so that e.g. a level-up between two combats does not
+// shift the combat rolls that follow (matching LT's split RNG).
+let _seed = 0;
+const combatRandom = new StaticRandom(0);
+const growthRandom = new StaticRandom(0);
+
+/**
+ * Reset every stream from a single seed.
+ * Called at new-game start and by the test harness.
+ */
+export function setSeed(seed: number): void {
+  _seed = seed >>> 0;
+  combatRandom.setState(_seed);
+  // Offset the growth stream so the two sequences are not identical
+  growthRandom.setState((_seed ^ 0x9e3779b9) >>> 0);
+}
+
+export function getSeed(): number {
+  return _seed;
+}
+
+/** Generate a fresh seed for a new playthrough (0..1023, as in LT). */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 1024);
+}
+
+/** Roll a combat random number in [0, 99]. Used for hit and crit. */
+export function getCombat(): number {
+  return combatRandom.randint(0, 99);
+}
+
+/** Roll a growth random number in [0, 99]. Used for level-up stat gains. */
+export function getGrowth(): number {
+  return growthRandom.randint(0, 99);
+}
+
+/** Snapshot the current RNG position for the save system. */
+export function saveRng(): RngSaveData {
+  return {
+    seed: _seed,
+    combat: combatRandom.getState(),
+    growth: growthRandom.getState(),
+  };
+}
+
+/** Restore an RNG position captured by saveRng(). */
+export function restoreRng(data: RngSaveData): void {
+  _seed = data.seed >>> 0;
+  combatRandom.setState(data.combat);
+  growthRandom.setState(data.growth);
+}
@@ -156,6 +156,18 @@ export class SupportController {
     return null;
   }
 
+  /** Get all runtime pairs, in prefab order. */
+  getAllPairs(): SupportPair[] {
+    return Array.from(this.pairs.values());
+  }
+
+  /** Get all runtime pairs involving a given unit, in prefab order. */
+  getPairsForUnit(unitNid: string): SupportPair[] {
+    return this.getPairNidsForUnit(unitNid)
+      .map(nid => this.pairs.get(nid))
+      .filter((pair): pair is SupportPair => !!pair);
+  }
+
   /** Get all pair NIDs involving a given unit. */
   private getPairNidsForUnit(unitNid: string): string[] {
     return this.unitPairIndex.get(unitNid) ?? [];
@@ -171,7 +183,7 @@ export class SupportController {
   }
 
   /** Get the partner NID for a given unit in a pair. */
-  private getPartnerNid(pairNid: string, unitNid: string): string | null {
+  getPartnerNid(pairNid: string, unitNid: string): string | null {
     const pair = this.pairs.get(pairNid);
     if (!pair) return null;
     if (pair.unit1Nid === unitNid) return pair.unit2Nid;
@@ -243,7 +255,7 @@ export class SupportController {
   // ------------------------------------------------------------------
 
   /** Get the highest unlocked rank for a pair. */
-  private getHighestUnlockedRank(pair: SupportPair): string | null {
+  getHighestUnlockedRank(pair: SupportPair): string | null {
     if (pair.unlockedRanks.length === 0) return null;
     // Ranks are in order of the supportRanks array; later = higher
     let highestIdx = -1;
@@ -258,6 +270,41 @@ export class SupportController {
     return highestRank;
   }
 
+  /** Get the highest rank the pair's prefab defines, or null if it has none. */
+  getMaxRank(pair: SupportPair): string | null {
+    const prefab = this.getPrefab(pair.nid);
+    if (!prefab) return null;
+    let maxRank: string | null = null;
+    for (const req of prefab.requirements) {
+      if (maxRank === null || this.supportRanks.indexOf(req.support_rank) > this.supportRanks.indexOf(maxRank)) {
+        maxRank = req.support_rank;
+      }
+    }
+    return maxRank;
+  }
+
+  /**
+   * Points progress toward the pair's next rank threshold. `floor` is the
+   * requirement of the highest rank already reached (0 if none), so the
+   * bar restarts after every rank. Returns null once every rank is reached.
+   */
+  getRankProgress(pair: SupportPair): { rank: string; floor: number; requirement: number } | null {
+    const prefab = this.getPrefab(pair.nid);
+    if (!prefab) return null;
+    let floor = 0;
+    let next: SupportRankRequirement | null = null;
+    for (const req of prefab.requirements) {
+      const reached = pair.lockedRanks.includes(req.support_rank) || pair.unlockedRanks.includes(req.support_rank);
+      if (reached) {
+        floor = Math.max(floor, req.requirement);
+      } else if (!next || req.requirement < next.requirement) {
+        next = req;
+      }
+    }
+    if (!next) return null;
+    return { rank: next.support_rank, floor, requirement: next.requirement };
+  }
+
   /** Check if a rank is one of the "highest" ranks (last 2 in the rank list). */
   private isHighRank(rank: string): boolean {
     const idx = this.supportRanks.indexOf(rank);
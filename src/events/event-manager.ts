@@ -262,6 +262,13 @@ export class GameEvent {
   /** PYEV1 processor for Python-syntax events (null for standard events). */
   pyev1Processor: any | null;
 
+  /**
+   * Started from a menu while another event is waiting on it (see
+   * EventManager.triggerNested). EventState hands control back to that
+   * menu when a nested event ends instead of resuming the queue.
+   */
+  nested: boolean;
+
   constructor(prefab: EventPrefab, trigger: EventTrigger, gameGetter?: () => any) {
     this.nid = prefab.nid;
     this.commands = [];
@@ -271,6 +278,7 @@ export class GameEvent {
     this.currentDialog = null;
     this.waitingForInput = false;
     this.pyev1Processor = null;
+    this.nested = false;
 
     // Check for PYEV1 format
     const { isPyev1, PythonEventProcessor } = _getPythonEvents();
@@ -1181,6 +1189,23 @@ export class EventManager {
     return triggered;
   }
 
+  /**
+   * Like trigger(), but queues the matched events ahead of the event that
+   * is currently waiting (e.g. the one that opened the base screen) and
+   * marks them nested. Used to play conversations picked from menus.
+   */
+  triggerNested(trigger: EventTrigger, context: ConditionContext): boolean {
+    const queued = this.eventQueue.length;
+    if (!this.trigger(trigger, context)) return false;
+
+    const added = this.eventQueue.splice(queued);
+    for (const event of added) {
+      event.nested = true;
+    }
+    this.eventQueue.unshift(...added);
+    return true;
+  }
+
   /** Get the current event being processed (front of queue). */
   getCurrentEvent(): GameEvent | null {
     if (this.eventQueue.length === 0) return null;
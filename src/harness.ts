@@ -9,6 +9,7 @@
  *     - getState() -- snapshot of current game state (units, cursor, etc.)
  *     - injectInput(button) -- queue an input for the next frame
  *     - loadLevel(nid) -- load a specific level
+ *     - setSeed(seed) -- reseed the gameplay RNG for reproducible combat
  *     - waitForReady() -- wait until the game is fully loaded and stable
  *
  * Playwright tests drive the game through this API.
@@ -19,6 +20,8 @@ import type { Surface } from './engine/surface';
 import type { InputEvent, GameButton } from './engine/input';
 import { FRAMETIME, updateAnimationCounters } from './engine/constants';
 import { ItemObject } from './objects/item';
+import { saveRng, type RngSaveData } from './engine/static-random';
+import { DeathAction } from './engine/action';
 
 export interface HarnessAPI {
   /** Step the game forward by N frames. Optionally inject an input on the first frame. */
@@ -45,6 +48,8 @@ export interface HarnessAPI {
   killUnit: (unitNid: string) => boolean;
   /** Trigger a game event by firing a trigger. Returns true if events were queued. */
   triggerEvent: (triggerType: string) => boolean;
+  /** Reseed the gameplay RNG so hit/crit/growth rolls are reproducible. */
+  setSeed: (seed: number) => void;
 }
 
 export interface HarnessState {
@@ -62,6 +67,8 @@ export interface HarnessState {
     isDead: boolean;
   }>;
   levelNid: string | null;
+  /** Current seeded RNG stream positions. */
+  rng: RngSaveData;
 }
 
 /**
@@ -147,6 +154,7 @@ export function installHarness(
         cursorPos: game.cursor.getPosition(),
         units,
         levelNid: game.currentLevel?.nid ?? null,
+        rng: saveRng(),
       };
     },
 
@@ -242,10 +250,11 @@ export function installHarness(
         return false;
       }
       unit.currentHp = 0;
-      unit.dead = true;
       // Remove from board if present
       if (unit.position && game.board) {
-        game.board.removeUnit(unit);
+        game.actionLog.doAction(new DeathAction(unit, game.board));
+      } else {
+        unit.dead = true;
       }
       return true;
     },
@@ -258,6 +267,10 @@ export function installHarness(
         { game, gameVars: game.gameVars, levelVars: game.levelVars },
       );
     },
+
+    setSeed(seed: number): void {
+      game.initRandomSeed(seed);
+    },
   };
 
   // Expose on window for Playwright access
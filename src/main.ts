@@ -34,6 +34,7 @@ import {
   TradeState,
   RescueState,
   DropState,
+  CombatArtChoiceState,
   WeaponChoiceState,
   TargetingState,
   CombatState,
@@ -50,14 +51,28 @@ import {
 import {
   PrepMainState,
   PrepPickUnitsState,
+  PrepItemsState,
+  PrepTradeState,
+  PrepCheckMapState,
   PrepMapState,
+  PrepFormationState,
+  PrepMapInfoState,
   setPrepGameRef,
 } from './engine/states/prep-state';
 import {
   BaseMainState,
   BaseConvosState,
+  BaseSupportsState,
+  BaseCodexState,
+  BaseLibraryState,
+  BaseSoundRoomState,
+  BaseAchievementsState,
   setBaseGameRef,
 } from './engine/states/base-state';
+import {
+  BexpState,
+  setBexpGameRef,
+} from './engine/states/bexp-state';
 import {
   SettingsMenuState,
   setSettingsGameRef,
@@ -93,12 +108,29 @@ import {
   FreeRoamRationalizeState,
   setRoamGameRef,
 } from './engine/states/roam-state';
+import {
+  DifficultySelectState,
+  setDifficultyGameRef,
+} from './engine/states/difficulty-state';
+import {
+  SupplyState,
+  setSupplyGameRef,
+} from './engine/states/supply-state';
+import {
+  InitiativeBarState,
+  setInitiativeBarGameRef,
+} from './engine/states/initiative-bar-state';
+import {
+  PromotionChoiceState,
+  setPromotionGameRef,
+} from './engine/states/promotion-state';
 import { setQueryEngineGameRef } from './engine/query-engine';
 import { setEquationGameRef } from './combat/combat-calcs';
 import { initPersistentSystems } from './engine/records';
 import {
   SaveMenuState,
   LoadMenuState,
+  SaveErrorState,
   setSaveLoadGameRef,
 } from './engine/states/save-load-state';
 import {
@@ -383,6 +415,11 @@ async function main(): Promise<void> {
   setQueryEngineGameRef(() => gameState);
   setEquationGameRef(() => gameState);
   setSaveLoadGameRef(gameState);
+  setDifficultyGameRef(gameState);
+  setSupplyGameRef(gameState);
+  setPromotionGameRef(gameState);
+  setInitiativeBarGameRef(gameState);
+  setBexpGameRef(gameState);
 
   // Initialize persistent systems (cross-save records and achievements)
   const gameNid = db.getConstant('game_nid', 'default') as string;
@@ -393,6 +430,7 @@ async function main(): Promise<void> {
     new TitleState(),
     new TitleMainState(),
     new LevelSelectState(),
+    new DifficultySelectState(),
     new OptionMenuState(),
     new FreeState(),
     new MoveState(),
@@ -401,6 +439,7 @@ async function main(): Promise<void> {
     new TradeState(),
     new RescueState(),
     new DropState(),
+    new CombatArtChoiceState(),
     new WeaponChoiceState(),
     new TargetingState(),
     new CombatState(),
@@ -414,9 +453,23 @@ async function main(): Promise<void> {
     new InfoMenuState(),
     new PrepMainState(),
     new PrepPickUnitsState(),
+    new PrepItemsState(),
+    new PrepTradeState(),
+    new PrepCheckMapState(),
     new PrepMapState(),
+    new PrepFormationState(),
+    new PrepMapInfoState(),
     new BaseMainState(),
     new BaseConvosState(),
+    new BaseSupportsState(),
+    new BaseCodexState(),
+    new BaseLibraryState(),
+    new BaseSoundRoomState(),
+    new BaseAchievementsState(),
+    new BexpState(),
+    new SupplyState(),
+    new PromotionChoiceState(),
+    new InitiativeBarState(),
     new SettingsMenuState(),
     new MinimapState(),
     new VictoryState(),
@@ -430,6 +483,7 @@ async function main(): Promise<void> {
     new FreeRoamRationalizeState(),
     new SaveMenuState(),
     new LoadMenuState(),
+    new SaveErrorState(),
   ];
   for (const state of states) {
     gameState.state.register(state);
@@ -586,6 +640,14 @@ async function main(): Promise<void> {
 
     // --- HUD overlay (fixed screen-space, not affected by zoom) ---
     game.hud.drawScreen(display.ctx, window.innerWidth, window.innerHeight, game.db);
+    // Initiative bar: on map screens only; always shown while the player is scrolling it
+    if (game.initiative && (game.initiative.drawMe || game.initiativeBar.selectedNid) &&
+        game.hud.visible && game.state.getCurrentState()?.showMap) {
+      game.initiativeBar.drawScreen(
+        display.ctx, window.innerWidth, window.innerHeight,
+        game.initiative, (nid: string) => game.getUnit(nid),
+      );
+    }
     PerfMonitor.endDraw();
 
     // --- Performance overlay (screen-space, on top of everything) ---
@@ -1,7 +1,9 @@
 // ---------------------------------------------------------------------------
 // MovementSystem — Manages unit movement animations along grid paths.
-// Interpolates smoothly between tiles and updates unit positions as each
-// tile is reached, matching the feel of LT's ~6 tiles/second default speed.
+// Interpolates smoothly between tiles, matching the feel of LT's ~6
+// tiles/second default speed. The walk is purely visual: callers move the
+// unit on the board first, so `unit.position` (and the board grid) always
+// hold the destination while the sprite catches up.
 // ---------------------------------------------------------------------------
 
 import type { UnitObject } from '../objects/unit';
@@ -35,8 +37,8 @@ export class MovementSystem {
    * Start moving a unit along a path.
    *
    * @param unit       The unit to move.
-   * @param path       Ordered list of [x, y] tiles. The first entry should be
-   *                   the unit's current position.
+   * @param path       Ordered list of [x, y] tiles, from the tile the unit
+   *                   left to its (already set) position.
    * @param speed      Movement speed in tiles/second (default ~6).
    * @param onComplete Callback fired when the unit reaches the end of the path.
    */
@@ -48,17 +50,11 @@ export class MovementSystem {
   ): void {
     // If the path has 0 or 1 entries there is nothing to animate.
     if (path.length <= 1) {
-      if (path.length === 1) {
-        unit.position = [path[0][0], path[0][1]];
-      }
       unit.hasMoved = true;
       onComplete?.();
       return;
     }
 
-    // Place the unit at the start of the path immediately.
-    unit.position = [path[0][0], path[0][1]];
-
     // Set sprite to moving state with initial direction
     if (unit.sprite && typeof unit.sprite === 'object' && 'state' in unit.sprite) {
       const spr = unit.sprite as { state: string; setDirection?: (dx: number, dy: number) => void };
@@ -100,11 +96,8 @@ export class MovementSystem {
         comp.progress -= 1;
         comp.currentIndex++;
 
-        // Snap the unit to the tile we just arrived at
-        const [tx, ty] = comp.path[comp.currentIndex];
-        comp.unit.position = [tx, ty];
-
         // Update sprite direction for the next leg of the path
+        const [tx, ty] = comp.path[comp.currentIndex];
         if (comp.currentIndex < comp.path.length - 1) {
           const [nx, ny] = comp.path[comp.currentIndex + 1];
           const spr = comp.unit.sprite;
@@ -115,15 +108,7 @@ export class MovementSystem {
 
         // Check if we've reached the end
         if (comp.currentIndex >= comp.path.length - 1) {
-          comp.progress = 0;
-          comp.done = true;
-          comp.unit.hasMoved = true;
-          // Reset sprite to standing state
-          const spr = comp.unit.sprite;
-          if (spr && typeof spr === 'object' && 'state' in spr) {
-            (spr as { state: string }).state = 'standing';
-          }
-          comp.onComplete?.();
+          this.complete(comp);
           break;
         }
       }
@@ -140,12 +125,55 @@ export class MovementSystem {
     return this.components.length > 0;
   }
 
+  /** Returns `true` if `unit` is still walking along a path. */
+  isUnitMoving(unit: UnitObject): boolean {
+    return this.components.some((c) => c.unit === unit && !c.done);
+  }
+
+  /**
+   * Snap the unit's walk to the end of its path, firing its completion
+   * callback. Used when an event is skipped mid-walk.
+   */
+  finishUnit(unit: UnitObject): void {
+    for (const comp of this.components) {
+      if (comp.unit !== unit || comp.done) continue;
+      comp.currentIndex = comp.path.length - 1;
+      this.complete(comp);
+    }
+    this.components = this.components.filter((c) => !c.done);
+  }
+
+  /**
+   * The tile a walking unit's sprite last reached, or null if it is not
+   * walking. Only for presentation (e.g. the camera); game logic reads
+   * `unit.position`.
+   */
+  getVisualTile(unit: UnitObject): [number, number] | null {
+    const comp = this.components.find((c) => c.unit === unit && !c.done);
+    if (!comp) return null;
+    const [x, y] = comp.path[comp.currentIndex];
+    return [x, y];
+  }
+
+  private complete(comp: MovementComponent): void {
+    comp.progress = 0;
+    comp.done = true;
+    comp.unit.hasMoved = true;
+    // Reset sprite to standing state
+    const spr = comp.unit.sprite;
+    if (spr && typeof spr === 'object' && 'state' in spr) {
+      (spr as { state: string }).state = 'standing';
+    }
+    comp.onComplete?.();
+  }
+
   /**
-   * Get the sub-tile visual offset for a unit that is currently being moved.
+   * Get the visual offset for a unit that is currently being moved.
    *
-   * During animation the unit's `position` is snapped to the last reached
-   * tile. The returned offset (in tile units, not pixels) represents how far
-   * between the current tile and the next tile the sprite should be drawn.
+   * The unit's `position` is already the end of the path. The returned
+   * offset (in tile units, not pixels) is how far from that tile the
+   * sprite should be drawn: the last reached tile plus the progress
+   * towards the next one.
    *
    * @returns `[offsetX, offsetY]` in tile units, or `null` if the unit is
    *          not currently being moved.
@@ -159,10 +187,11 @@ export class MovementSystem {
 
     const [cx, cy] = comp.path[idx];
     const [nx, ny] = comp.path[idx + 1];
+    const [ex, ey] = comp.path[comp.path.length - 1];
     const t = comp.progress; // 0..1
 
-    const offsetX = (nx - cx) * t;
-    const offsetY = (ny - cy) * t;
+    const offsetX = cx + (nx - cx) * t - ex;
+    const offsetY = cy + (ny - cy) * t - ey;
     return [offsetX, offsetY];
   }
 }
@@ -187,6 +187,29 @@ function setupAndroidBackButton(): void {
   });
 }
 
+// ---------------------------------------------------------------------------
+// File export
+// ---------------------------------------------------------------------------
+
+/**
+ * Hand a text file to the native share sheet (Capacitor only), so the
+ * player can save it to Files / Drive or send it to another device.
+ * The WebView cannot follow `<a download>` links, so the file is written
+ * to the cache directory first. Throws if the Filesystem or Share
+ * plugin is not installed.
+ */
+export async function shareTextFile(filename: string, text: string): Promise<void> {
+  const fsModule: any = await (Function('return import("@capacitor/filesystem")')());
+  const shareModule: any = await (Function('return import("@capacitor/share")')());
+  const { uri } = await fsModule.Filesystem.writeFile({
+    path: filename,
+    data: text,
+    directory: fsModule.Directory.Cache,
+    encoding: fsModule.Encoding.UTF8,
+  });
+  await shareModule.Share.share({ title: filename, url: uri });
+}
+
 // ---------------------------------------------------------------------------
 // Safe area insets
 // ---------------------------------------------------------------------------
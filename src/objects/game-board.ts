@@ -22,6 +22,13 @@ export class GameBoard {
   // Terrain/movement data
   private terrainGrid: (NID | null)[][]; // [y][x] -> terrain NID
 
+  /**
+   * Bumped whenever a unit is placed, moved or removed, or terrain
+   * changes, so caches over the board (e.g. the danger zone) know
+   * when to recompute.
+   */
+  revision: number = 0;
+
   // ------------------------------------------------------------------
   // Fog of war
   // ------------------------------------------------------------------
@@ -73,6 +80,7 @@ export class GameBoard {
   setTerrain(x: number, y: number, terrainNid: NID): void {
     if (!this.inBounds(x, y)) return;
     this.terrainGrid[y][x] = terrainNid;
+    this.revision++;
   }
 
   /** Get terrain NID at position. */
@@ -91,6 +99,7 @@ export class GameBoard {
     this.unitGrid[y][x] = unit;
     this.teamGrid[y][x] = unit.team;
     unit.position = [x, y];
+    this.revision++;
   }
 
   /** Remove a unit from the board. */
@@ -102,6 +111,7 @@ export class GameBoard {
       this.teamGrid[y][x] = null;
     }
     unit.position = null;
+    this.revision++;
   }
 
   /** Get unit at position. */
@@ -127,6 +137,7 @@ export class GameBoard {
     this.unitGrid[newY][newX] = unit;
     this.teamGrid[newY][newX] = unit.team;
     unit.position = [newX, newY];
+    this.revision++;
   }
 
   // ------------------------------------------------------------------
@@ -226,6 +237,7 @@ export class GameBoard {
         this.terrainGrid[y][x] = terrain;
       }
     }
+    this.revision++;
   }
 
   // ------------------------------------------------------------------
@@ -140,6 +140,11 @@ export class ItemObject {
     return this.components.has('permanent_stat_change');
   }
 
+  /** Whether this item promotes or changes the user's class ('promote' / 'class_change'). */
+  isPromotionItem(): boolean {
+    return this.components.has('promote') || this.components.has('class_change');
+  }
+
   /** Whether this item is a consumable (healing or stat booster). */
   isConsumable(): boolean {
     return this.isHealing() || this.isStatBooster();
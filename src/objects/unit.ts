@@ -1,6 +1,7 @@
 import type { NID, UnitPrefab, KlassDef, AlliancePair } from '../data/types';
 import type { ItemObject } from './item';
 import type { SkillObject } from './skill';
+import { getGrowth } from '../engine/static-random';
 
 /**
  * Opaque handle for whatever map-sprite representation the renderer uses.
@@ -8,25 +9,6 @@ import type { SkillObject } from './skill';
  */
 export type MapSprite = unknown;
 
-/**
- * Runtime status effect applied to a unit.
- * Status effects have a type, optional stat modifiers, and a duration.
- */
-export interface StatusEffect {
-  nid: string;
-  name: string;
-  /** Number of turns remaining. -1 = permanent until removed. */
-  turnsRemaining: number;
-  /** Stat modifiers applied while the status is active. */
-  statMods: Record<string, number>;
-  /** Damage per turn (positive = damage, negative = healing). */
-  dotDamage: number;
-  /** Whether this status prevents movement. */
-  immobilize: boolean;
-  /** Whether this status prevents action. */
-  stun: boolean;
-}
-
 /**
  * Runtime representation of a unit on the map.
  *
@@ -96,12 +78,11 @@ export class UnitObject {
   // -- Party membership ---------------------------------------------------
   /** Party NID this unit belongs to. Empty string if unassigned. */
   party: NID;
+  /** Faction NID for generic units (drives name and AI targeting). Empty string if none. */
+  faction: NID;
   /** Whether this unit persists across levels. DB-loaded units are persistent; event-spawned generics may not be. */
   persistent: boolean;
 
-  // -- Status effects -----------------------------------------------------
-  statusEffects: StatusEffect[];
-
   constructor(prefab: UnitPrefab, klass: KlassDef) {
     this.nid = prefab.nid;
     this.name = prefab.name;
@@ -171,8 +152,8 @@ export class UnitObject {
     this.rescuedBy = null;
     this.hasCanto = false;
     this.party = '';
+    this.faction = '';
     this.persistent = true;
-    this.statusEffects = [];
   }
 
   // ------------------------------------------------------------------
@@ -207,8 +188,8 @@ export class UnitObject {
   /**
    * Perform a level-up with growth-based stat rolls.
    *
-   * For each stat, generates a random number 0-99. If the growth percentage
-   * for that stat exceeds the roll, the stat increases by 1 (capped at
+   * For each stat, draws a number 0-99 from the seeded growth stream. If the
+   * growth percentage for that stat exceeds the roll, the stat increases by 1 (capped at
    * max_stats from the class).
    *
    * @param mode Growth mode: 'random' (default FE), 'fixed' (deterministic),
@@ -223,7 +204,7 @@ export class UnitObject {
       let gained = 0;
       const cap = this.maxStats[stat] ?? 99;
 
-      if (mode === 'fixed') {
+      if (mode.toLowerCase() === 'fixed') {
         // Fixed mode: growth / 100 determines guaranteed gain, remainder accumulates
         // Simplified: if growth >= 50, always gain 1
         gained = growth >= 50 ? 1 : 0;
@@ -232,7 +213,7 @@ export class UnitObject {
         // Growths can exceed 100 (guaranteed +1, then roll for +2)
         let remaining = growth;
         while (remaining > 0) {
-          const roll = Math.random() * 100;
+          const roll = getGrowth();
           if (roll < remaining) {
             gained++;
           }
@@ -275,7 +256,7 @@ export class UnitObject {
     return this.items.filter(
       (item) =>
         !item.isWeapon() &&
-        item.hasComponent('heal') &&
+        (item.hasComponent('heal') || item.isPromotionItem()) &&
         (!item.maxUses || item.uses > 0),
     );
   }
@@ -290,95 +271,6 @@ export class UnitObject {
     return !this.hasTraded && !this.hasAttacked;
   }
 
-  // ------------------------------------------------------------------
-  // Status effect management
-  // ------------------------------------------------------------------
-
-  /** Add a status effect to this unit. */
-  addStatusEffect(effect: StatusEffect): void {
-    // Don't stack the same status
-    const existing = this.statusEffects.find((e) => e.nid === effect.nid);
-    if (existing) {
-      // Refresh duration
-      existing.turnsRemaining = effect.turnsRemaining;
-      return;
-    }
-    this.statusEffects.push(effect);
-  }
-
-  /** Remove a status effect by NID. */
-  removeStatusEffect(nid: string): void {
-    const idx = this.statusEffects.findIndex((e) => e.nid === nid);
-    if (idx !== -1) {
-      this.statusEffects.splice(idx, 1);
-    }
-  }
-
-  /** Check if this unit has a specific status effect. */
-  hasStatusEffect(nid: string): boolean {
-    return this.statusEffects.some((e) => e.nid === nid);
-  }
-
-  /**
-   * Process turn-based status effects.
-   * Called at the start of the unit's team's phase.
-   * Returns total DOT damage dealt (for display).
-   */
-  processStatusEffects(): number {
-    let totalDot = 0;
-
-    for (let i = this.statusEffects.length - 1; i >= 0; i--) {
-      const effect = this.statusEffects[i];
-
-      // Apply DOT damage/healing
-      if (effect.dotDamage !== 0) {
-        if (effect.dotDamage > 0) {
-          // Damage
-          this.currentHp = Math.max(1, this.currentHp - effect.dotDamage);
-          totalDot += effect.dotDamage;
-        } else {
-          // Healing
-          this.currentHp = Math.min(this.maxHp, this.currentHp - effect.dotDamage);
-          totalDot += effect.dotDamage;
-        }
-      }
-
-      // Decrement duration
-      if (effect.turnsRemaining > 0) {
-        effect.turnsRemaining--;
-        if (effect.turnsRemaining <= 0) {
-          this.statusEffects.splice(i, 1);
-        }
-      }
-    }
-
-    return totalDot;
-  }
-
-  /**
-   * Get the effective stat value including status effect modifiers.
-   * Does NOT include terrain bonuses (those are calculated at combat time).
-   */
-  getEffectiveStat(stat: string): number {
-    let value = this.stats[stat] ?? 0;
-    for (const effect of this.statusEffects) {
-      if (effect.statMods[stat]) {
-        value += effect.statMods[stat];
-      }
-    }
-    return Math.max(0, value);
-  }
-
-  /** Whether this unit is immobilized by a status effect. */
-  isImmobilized(): boolean {
-    return this.statusEffects.some((e) => e.immobilize);
-  }
-
-  /** Whether this unit is stunned (cannot act) by a status effect. */
-  isStunned(): boolean {
-    return this.statusEffects.some((e) => e.stun);
-  }
-
   // ------------------------------------------------------------------
   // State queries
   // ------------------------------------------------------------------
@@ -414,6 +306,11 @@ export class UnitObject {
     return false;
   }
 
+  /** Whether a skill (e.g. a status) with the 'stun' component stops this unit acting. */
+  isStunned(): boolean {
+    return this.skills.some((s) => s.hasComponent('stun'));
+  }
+
   /**
    * Whether this unit still has actions available this turn.
    * A unit can still act if it hasn't finished and hasn't both
@@ -126,6 +126,33 @@ export class PathSystem {
     return astar.process(pos[0], pos[1], goalX, goalY, canMoveThrough);
   }
 
+  /**
+   * Extend a player-drawn route by one tile. Returns the longer path, or
+   * null if (x, y) is not adjacent to the route's end, cannot be walked
+   * through, or would take the route past the unit's movement.
+   * The route's first tile is the unit's position and costs nothing.
+   */
+  extendPath(
+    unit: UnitObject,
+    path: [number, number][],
+    x: number,
+    y: number,
+    board: GameBoard,
+  ): [number, number][] | null {
+    const end = path[path.length - 1];
+    if (!end || Math.abs(end[0] - x) + Math.abs(end[1] - y) !== 1) return null;
+    if (!board.inBounds(x, y)) return null;
+    if (!this.buildCanMoveThrough(unit, board)(x, y)) return null;
+
+    const movementGroup = this.getMovementGroup(unit);
+    const extended: [number, number][] = [...path, [x, y]];
+    let spent = 0;
+    for (let i = 1; i < extended.length; i++) {
+      spent += board.getMovementCost(extended[i][0], extended[i][1], movementGroup, this.db);
+    }
+    return spent <= unit.getStatValue('MOV') ? extended : null;
+  }
+
   /**
    * AI helper: given a full path (possibly longer than the unit's movement
    * range), find the furthest tile the unit can actually reach this turn.
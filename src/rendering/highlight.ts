@@ -19,6 +19,8 @@ const HIGHLIGHT_COLORS: Record<HighlightType, [number, number, number, number]>
  */
 export class HighlightManager {
   private highlights: Map<string, HighlightType> = new Map(); // "x,y" -> type
+  /** Aura range tiles, outlined on top of the other highlights. */
+  private auraTiles: Set<string> = new Set();
 
   /** Current pulse multiplier (0..1), updated each frame. */
   private pulse: number = 1.0;
@@ -33,6 +35,7 @@ export class HighlightManager {
 
   clear(): void {
     this.highlights.clear();
+    this.auraTiles.clear();
   }
 
   setMoveHighlights(positions: [number, number][]): void {
@@ -63,6 +66,15 @@ export class HighlightManager {
     }
   }
 
+  setSplashHighlights(positions: [number, number][]): void {
+    for (const [key, type] of this.highlights) {
+      if (type === 'splash') this.highlights.delete(key);
+    }
+    for (const [x, y] of positions) {
+      this.highlights.set(`${x},${y}`, 'splash');
+    }
+  }
+
   setThreatHighlights(positions: [number, number][]): void {
     for (const [key, type] of this.highlights) {
       if (type === 'threat') this.highlights.delete(key);
@@ -72,6 +84,17 @@ export class HighlightManager {
     }
   }
 
+  setAuraHighlights(positions: [number, number][]): void {
+    this.auraTiles.clear();
+    for (const [x, y] of positions) {
+      this.auraTiles.add(`${x},${y}`);
+    }
+  }
+
+  getAuraHighlights(): Set<string> {
+    return this.auraTiles;
+  }
+
   /** Clear all highlights of a specific type. */
   clearType(type: HighlightType): void {
     for (const [key, t] of this.highlights) {
@@ -6,6 +6,8 @@ import type { GameBoard } from '../objects/game-board';
 import type { FogOfWarConfig } from '../data/types';
 import type { Database } from '../data/database';
 import type { UnitObject } from '../objects/unit';
+import type { MovementArrow } from './movement-arrow';
+import { drawUnitMapIcons, type UnitMapIcons } from './unit-renderer';
 
 /**
  * Configuration for fog of war rendering, passed into MapView.draw().
@@ -27,7 +29,7 @@ export interface FogRenderConfig {
  * 5. Foreground tilemap layers
  * 5.6. Fog of war overlay
  * 6. Cursor
- * 7. Weather (TODO)
+ * 7. Weather particles and overlays
  * 8. UI overlay
  */
 export class MapView {
@@ -58,12 +60,14 @@ export class MapView {
    * @param showGrid   Whether to draw the tile grid overlay.
    * @param renderScale Canvas render scale.
    * @param fogConfig  Optional fog of war rendering configuration.
+   * @param arrow      Movement arrow to draw under the units, or null.
+   * @param auraTiles  "x,y" tiles in the selected unit's aura, outlined.
    * @returns          The composited map surface, ready for presentation.
    */
   draw(
     tilemap: TileMapObject,
     cullRect: { x: number; y: number; w: number; h: number },
-    units: { x: number; y: number; visualOffsetX: number; visualOffsetY: number; sprite: any; team: string; finished: boolean; currentHp: number; maxHp: number }[],
+    units: { x: number; y: number; visualOffsetX: number; visualOffsetY: number; sprite: any; team: string; finished: boolean; currentHp: number; maxHp: number; icons?: UnitMapIcons | null }[],
     highlights: Map<string, string> | null,
     cursor: {
       x: number;
@@ -74,6 +78,8 @@ export class MapView {
     showGrid: boolean,
     renderScale: number = 1,
     fogConfig: FogRenderConfig | null = null,
+    arrow: MovementArrow | null = null,
+    auraTiles: Set<string> | null = null,
   ): Surface {
     this.ensureSurface(renderScale);
     this.mapSurface.clear();
@@ -101,6 +107,14 @@ export class MapView {
     if (highlights && highlights.size > 0) {
       this.drawHighlights(this.mapSurface, highlights, offsetX, offsetY);
     }
+    if (auraTiles && auraTiles.size > 0) {
+      this.drawAuraOutline(this.mapSurface, auraTiles, offsetX, offsetY);
+    }
+
+    // 2.5. Movement arrow
+    if (arrow) {
+      arrow.draw(this.mapSurface, offsetX, offsetY);
+    }
 
     // 3. Grid lines
     if (showGrid) {
@@ -155,7 +169,7 @@ export class MapView {
     // 7. Weather particles and overlays
     tilemap.updateWeather();
     for (const weather of tilemap.weather) {
-      weather.draw(this.mapSurface, cullRect.x, cullRect.y);
+      weather.draw(this.mapSurface, offsetX, offsetY);
     }
 
     // 8. UI overlay - handled externally
@@ -193,6 +207,34 @@ export class MapView {
     }
   }
 
+  /**
+   * Outline the edge of the aura area: each tile draws a border only on
+   * the sides that do not touch another aura tile.
+   */
+  private drawAuraOutline(
+    surf: Surface,
+    tiles: Set<string>,
+    offsetX: number,
+    offsetY: number,
+  ): void {
+    const color = 'rgba(120,255,200,0.8)';
+    for (const key of tiles) {
+      const [tileX, tileY] = key.split(',').map(Number);
+      const px = tileX * TILEWIDTH - offsetX;
+      const py = tileY * TILEHEIGHT - offsetY;
+      if (
+        px + TILEWIDTH <= 0 || py + TILEHEIGHT <= 0 ||
+        px >= viewport.width || py >= viewport.height
+      ) {
+        continue;
+      }
+      if (!tiles.has(`${tileX},${tileY - 1}`)) surf.fillRect(px, py, TILEWIDTH, 1, color);
+      if (!tiles.has(`${tileX},${tileY + 1}`)) surf.fillRect(px, py + TILEHEIGHT - 1, TILEWIDTH, 1, color);
+      if (!tiles.has(`${tileX - 1},${tileY}`)) surf.fillRect(px, py, 1, TILEHEIGHT, color);
+      if (!tiles.has(`${tileX + 1},${tileY}`)) surf.fillRect(px + TILEWIDTH - 1, py, 1, TILEHEIGHT, color);
+    }
+  }
+
   /**
    * Draw units sorted by Y position for correct depth ordering.
    * Units with higher Y (further down the map) are drawn later so they
@@ -200,7 +242,7 @@ export class MapView {
    */
   private drawUnits(
     surf: Surface,
-    units: { x: number; y: number; visualOffsetX: number; visualOffsetY: number; sprite: any; team: string; finished: boolean; currentHp: number; maxHp: number }[],
+    units: { x: number; y: number; visualOffsetX: number; visualOffsetY: number; sprite: any; team: string; finished: boolean; currentHp: number; maxHp: number; icons?: UnitMapIcons | null }[],
     offsetX: number,
     offsetY: number,
   ): void {
@@ -262,6 +304,11 @@ export class MapView {
           surf.fillRect(barX, barY, fillWidth, barHeight, barColor);
         }
       }
+
+      // Rescue / status / boss / droppable markers
+      if (unit.icons) {
+        drawUnitMapIcons(surf, unit.icons, px, py);
+      }
     }
   }
 
@@ -0,0 +1,142 @@
+import type { Surface } from '../engine/surface';
+import { TILEWIDTH, TILEHEIGHT } from '../engine/constants';
+
+const OUTLINE_COLOR = 'rgba(40, 24, 8, 1)';
+const BODY_COLOR = 'rgba(248, 200, 72, 1)';
+
+/** Half-widths of the arrow shaft (outline, body) in pixels. */
+const OUTLINE_HALF = 4;
+const BODY_HALF = 2;
+
+/** Length of the arrowhead along its direction, in pixels. */
+const HEAD_LENGTH = 6;
+
+/**
+ * MovementArrow - The segmented route arrow drawn while choosing a
+ * destination in MoveState.
+ *
+ * Holds the route as an ordered list of tiles starting at the unit's
+ * position. Each tile draws a shaft from its center to the edges it
+ * connects to, so straight runs, corners and the starting stub all come
+ * out of the same rule; the last tile gets the arrowhead instead.
+ */
+export class MovementArrow {
+  private path: [number, number][] = [];
+
+  /** The current route, first entry being the unit's position. */
+  getPath(): [number, number][] {
+    return this.path;
+  }
+
+  setPath(path: [number, number][]): void {
+    this.path = path.map(([x, y]) => [x, y] as [number, number]);
+  }
+
+  clear(): void {
+    this.path = [];
+  }
+
+  /** Index of (x, y) along the route, or -1. */
+  indexOf(x: number, y: number): number {
+    return this.path.findIndex(([px, py]) => px === x && py === y);
+  }
+
+  /** Whether the route ends on (x, y). */
+  endsAt(x: number, y: number): boolean {
+    const last = this.path[this.path.length - 1];
+    return !!last && last[0] === x && last[1] === y;
+  }
+
+  /**
+   * Draw the arrow onto a surface.
+   * @param surf     Target surface (typically the map surface).
+   * @param offsetX  Camera offset X (world pixels of the viewport top-left).
+   * @param offsetY  Camera offset Y.
+   */
+  draw(surf: Surface, offsetX: number, offsetY: number): void {
+    if (this.path.length < 2) return;
+    // Outline first for the whole route so body segments join cleanly
+    this.drawPass(surf, offsetX, offsetY, OUTLINE_HALF, OUTLINE_COLOR, 1);
+    this.drawPass(surf, offsetX, offsetY, BODY_HALF, BODY_COLOR, 0);
+  }
+
+  private drawPass(
+    surf: Surface,
+    offsetX: number,
+    offsetY: number,
+    half: number,
+    color: string,
+    grow: number,
+  ): void {
+    const last = this.path.length - 1;
+    for (let i = 0; i <= last; i++) {
+      const [x, y] = this.path[i];
+      const cx = x * TILEWIDTH - offsetX + TILEWIDTH / 2;
+      const cy = y * TILEHEIGHT - offsetY + TILEHEIGHT / 2;
+
+      const dirs: [number, number][] = [];
+      if (i > 0) dirs.push([this.path[i - 1][0] - x, this.path[i - 1][1] - y]);
+      if (i < last) dirs.push([this.path[i + 1][0] - x, this.path[i + 1][1] - y]);
+
+      if (i === last) {
+        // Shaft stops short of the center; the head covers the rest
+        const [bx, by] = dirs[0];
+        this.drawShaft(surf, cx, cy, bx, by, half, color, HEAD_LENGTH / 2);
+        this.drawHead(surf, cx, cy, -bx, -by, color, grow);
+        continue;
+      }
+
+      surf.fillRect(cx - half, cy - half, half * 2, half * 2, color);
+      for (const [dx, dy] of dirs) {
+        this.drawShaft(surf, cx, cy, dx, dy, half, color, 0);
+      }
+    }
+  }
+
+  /** Shaft from `inset` pixels off the tile center out to the tile edge in (dx, dy). */
+  private drawShaft(
+    surf: Surface,
+    cx: number,
+    cy: number,
+    dx: number,
+    dy: number,
+    half: number,
+    color: string,
+    inset: number,
+  ): void {
+    if (dx !== 0) {
+      const reach = TILEWIDTH / 2 - inset;
+      const x0 = dx > 0 ? cx + inset : cx - inset - reach;
+      surf.fillRect(x0, cy - half, reach, half * 2, color);
+    } else {
+      const reach = TILEHEIGHT / 2 - inset;
+      const y0 = dy > 0 ? cy + inset : cy - inset - reach;
+      surf.fillRect(cx - half, y0, half * 2, reach, color);
+    }
+  }
+
+  /**
+   * Pixel-stepped triangle centered on the tile, pointing along (dx, dy).
+   * `grow` widens each step for the outline pass.
+   */
+  private drawHead(
+    surf: Surface,
+    cx: number,
+    cy: number,
+    dx: number,
+    dy: number,
+    color: string,
+    grow: number,
+  ): void {
+    const base = -HEAD_LENGTH / 2 - grow;
+    for (let step = 0; step < HEAD_LENGTH + grow * 2; step++) {
+      const along = base + step;
+      const spread = HEAD_LENGTH - Math.max(0, step - grow) + grow;
+      if (dx !== 0) {
+        surf.fillRect(cx + along * dx - (dx < 0 ? 1 : 0), cy - spread, 1, spread * 2, color);
+      } else {
+        surf.fillRect(cx - spread, cy + along * dy - (dy < 0 ? 1 : 0), spread * 2, 1, color);
+      }
+    }
+  }
+}
@@ -2,7 +2,7 @@ import { Surface } from '../engine/surface';
 import { SurfacePool } from '../engine/surface-pool';
 import type { TilemapData, TilemapLayerData, TilesetData, NID } from '../data/types';
 import { TILEWIDTH, TILEHEIGHT } from '../engine/constants';
-import { WeatherSystem } from './weather';
+import { WeatherSystem, type WeatherOptions } from './weather';
 import type { MapAnimation } from './map-animation';
 
 /** Number of autotile animation frames (matches Python AUTOTILE_FRAMES). */
@@ -344,11 +344,18 @@ export class TileMapObject {
     if (layer) layer.visible = false;
   }
 
-  /** Add a weather effect by NID. Does nothing if already active. */
-  addWeather(nid: string): void {
+  /**
+   * Add a weather effect by NID. If it is already active, only the given
+   * intensity / wind are applied to it.
+   */
+  addWeather(nid: string, options: Partial<WeatherOptions> = {}): void {
     const lower = nid.toLowerCase();
-    if (this.weather.some(w => w.nid === lower)) return;
-    this.weather.push(new WeatherSystem(lower, this.width, this.height));
+    const existing = this.weather.find(w => w.nid === lower);
+    if (existing) {
+      existing.setOptions(options);
+      return;
+    }
+    this.weather.push(new WeatherSystem(lower, this.width, this.height, options));
   }
 
   /** Remove a weather effect by NID. */
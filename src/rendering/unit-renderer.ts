@@ -2,6 +2,33 @@ import type { UnitObject } from '../objects/unit';
 import type { MapSprite } from './map-sprite';
 import { Surface } from '../engine/surface';
 import { TILEWIDTH, TILEHEIGHT } from '../engine/constants';
+import { turnsRemaining } from '../combat/skill-system';
+
+/**
+ * Battlefield markers drawn on a unit's map tile, so the player can read
+ * the map without opening every info menu.
+ */
+export interface UnitMapIcons {
+  /** Rescuer's team colour while carrying a unit, else null. */
+  rescueColor: string | null;
+  /** Has a timed skill without the 'negative' component. */
+  buffed: boolean;
+  /** Has a timed skill with the 'negative' component. */
+  debuffed: boolean;
+  /** Tagged 'Boss'. */
+  boss: boolean;
+  /** Holds an item it drops on death. */
+  droppable: boolean;
+}
+
+const ICON_OUTLINE = 'rgba(24,24,32,1)';
+const BOSS_COLOR = 'rgba(248,208,64,1)';
+const BUFF_COLOR = 'rgba(96,232,96,1)';
+const DEBUFF_COLOR = 'rgba(200,96,232,1)';
+const DROP_COLOR = 'rgba(120,232,248,1)';
+
+/** How long each status arrow shows when a unit is both buffed and debuffed. */
+const STATUS_CYCLE_MS = 800;
 
 /**
  * UnitRenderer - Manages map sprites for all units and handles rendering.
@@ -130,6 +157,71 @@ export class UnitRenderer {
   }
 }
 
+/** Work out which map icons a unit should show. Returns null if none. */
+export function getUnitMapIcons(unit: UnitObject): UnitMapIcons | null {
+  let buffed = false;
+  let debuffed = false;
+  for (const skill of unit.skills) {
+    if (turnsRemaining(skill) === null) continue;
+    if (skill.hasComponent('negative')) debuffed = true;
+    else buffed = true;
+  }
+  const icons: UnitMapIcons = {
+    rescueColor: unit.isRescuing() ? placeholderColor(unit.team) : null,
+    buffed,
+    debuffed,
+    boss: unit.tags.includes('Boss'),
+    droppable: unit.items.some((item) => item.droppable),
+  };
+  const any = icons.rescueColor !== null || buffed || debuffed || icons.boss || icons.droppable;
+  return any ? icons : null;
+}
+
+/**
+ * Draw a unit's map icons onto its tile at screen position (px, py):
+ * boss crown top-left, status arrow top-right, rescue flag bottom-left
+ * and dropped-item gem bottom-right (all clear of the HP bar).
+ */
+export function drawUnitMapIcons(surf: Surface, icons: UnitMapIcons, px: number, py: number): void {
+  if (icons.boss) {
+    // 7x6 outlined crown: three 1x2 points above a 5x2 band
+    surf.fillRect(px, py, 7, 6, ICON_OUTLINE);
+    surf.fillRect(px + 1, py + 3, 5, 2, BOSS_COLOR);
+    surf.fillRect(px + 1, py + 1, 1, 2, BOSS_COLOR);
+    surf.fillRect(px + 3, py + 1, 1, 2, BOSS_COLOR);
+    surf.fillRect(px + 5, py + 1, 1, 2, BOSS_COLOR);
+  }
+
+  if (icons.buffed || icons.debuffed) {
+    // Alternate between the two arrows when both apply
+    const showDebuff = icons.debuffed &&
+      (!icons.buffed || Math.floor(Date.now() / STATUS_CYCLE_MS) % 2 === 1);
+    const color = showDebuff ? DEBUFF_COLOR : BUFF_COLOR;
+    const x = px + TILEWIDTH - 7;
+    surf.fillRect(x, py, 7, 6, ICON_OUTLINE);
+    // Up arrow for buffs, down arrow for debuffs: a 3-row head plus stem
+    const headTop = showDebuff ? py + 2 : py + 1;
+    for (let row = 0; row < 3; row++) {
+      const width = showDebuff ? 5 - row * 2 : 1 + row * 2;
+      surf.fillRect(x + 3 - Math.floor(width / 2), headTop + row, width, 1, color);
+    }
+    surf.fillRect(x + 3, showDebuff ? py + 1 : py + 4, 1, 1, color);
+  }
+
+  if (icons.rescueColor) {
+    const y = py + TILEHEIGHT - 8;
+    surf.fillRect(px, y, 7, 7, 'white');
+    surf.fillRect(px + 1, y + 1, 5, 5, icons.rescueColor);
+  }
+
+  if (icons.droppable) {
+    const x = px + TILEWIDTH - 6;
+    const y = py + TILEHEIGHT - 7;
+    surf.fillRect(x, y, 5, 5, ICON_OUTLINE);
+    surf.fillRect(x + 1, y + 1, 3, 3, DROP_COLOR);
+  }
+}
+
 /** Map team string to a placeholder rectangle color. */
 function placeholderColor(team: string): string {
   switch (team) {
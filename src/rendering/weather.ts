@@ -2,8 +2,11 @@
  * weather.ts - Weather particle system for map effects.
  *
  * Ported from LT's app/engine/particles.py.
- * Supports: rain, snow, sand, smoke, light, dark, night, sunset.
+ * Supports: rain, snow, sand, light, dark, night, sunset, plus fog banks,
+ * embers, falling leaves and night darkness.
  * Particles are simple canvas-drawn shapes (no sprite loading needed).
+ * Each weather has an intensity (scales particle count and overlay
+ * strength) and a wind (extra horizontal pixels per frame).
  */
 
 import { Surface } from '../engine/surface';
@@ -17,7 +20,8 @@ interface Particle {
   x: number;
   y: number;
   dead: boolean;
-  update(): void;
+  /** Advance one frame; `wind` is added to horizontal movement. */
+  update(wind: number): void;
   draw(surf: Surface, ox: number, oy: number): void;
 }
 
@@ -36,8 +40,8 @@ class Raindrop implements Particle {
     this.x = x; this.y = y; this.maxX = maxX; this.maxY = maxY;
   }
 
-  update(): void {
-    this.x += 3;
+  update(wind: number): void {
+    this.x += 3 + wind;
     this.y += 12;
     if (this.x > this.maxX + 16 || this.y > this.maxY + 16) this.dead = true;
   }
@@ -66,8 +70,8 @@ class Snowflake implements Particle {
     this.size = Math.random() < 0.5 ? 1 : 2;
   }
 
-  update(): void {
-    this.x += this.xSpeed;
+  update(wind: number): void {
+    this.x += this.xSpeed + wind;
     this.y += this.ySpeed;
     if (this.x > this.maxX + 16 || this.y > this.maxY + 16) this.dead = true;
   }
@@ -90,8 +94,8 @@ class SandParticle implements Particle {
     this.x = x; this.y = y; this.maxX = maxX; this.minY = minY;
   }
 
-  update(): void {
-    this.x += 12;
+  update(wind: number): void {
+    this.x += 12 + wind;
     this.y -= 6;
     if (this.x > this.maxX + 16 || this.y < this.minY - 16) this.dead = true;
   }
@@ -117,8 +121,8 @@ class LightMote implements Particle {
     this.alpha = Math.random() * 0.5;
   }
 
-  update(): void {
-    this.x += 0.16;
+  update(wind: number): void {
+    this.x += 0.16 + wind;
     this.y += 0.16;
     this.alpha += this.alphaDir * 0.01;
     if (this.alpha >= 0.75) this.alphaDir = -1;
@@ -134,34 +138,166 @@ class LightMote implements Particle {
   }
 }
 
+class FogBank implements Particle {
+  x: number;
+  y: number;
+  dead = false;
+  private width: number;
+  private height: number;
+  private speed: number;
+  private alpha: number = 0;
+  private alphaDir: number = 1;
+  private peak: number;
+  private maxX: number;
+
+  constructor(x: number, y: number, maxX: number) {
+    this.x = x; this.y = y; this.maxX = maxX;
+    this.width = 48 + Math.floor(Math.random() * 48);
+    this.height = 12 + Math.floor(Math.random() * 12);
+    this.speed = 0.1 + Math.random() * 0.2;
+    this.peak = 0.15 + Math.random() * 0.15;
+  }
+
+  update(wind: number): void {
+    this.x += this.speed + wind;
+    this.alpha += this.alphaDir * 0.002;
+    if (this.alpha >= this.peak) this.alphaDir = -1;
+    if (this.alpha <= 0 && this.alphaDir < 0) this.dead = true;
+    if (this.x > this.maxX + 16 || this.x + this.width < -16) this.dead = true;
+  }
+
+  draw(surf: Surface, ox: number, oy: number): void {
+    const sx = Math.floor(this.x - ox);
+    const sy = Math.floor(this.y - oy);
+    const a = Math.max(0, Math.min(1, this.alpha));
+    // Three stacked bands give the bank a rounded outline
+    const inset = Math.floor(this.width / 6);
+    surf.fillRect(sx + inset, sy, this.width - inset * 2, this.height, `rgba(220,220,230,${a})`);
+    surf.fillRect(sx, sy + 3, this.width, this.height - 6, `rgba(220,220,230,${a})`);
+  }
+}
+
+class Ember implements Particle {
+  x: number;
+  y: number;
+  dead = false;
+  private ySpeed: number;
+  private phase: number;
+  private alpha: number;
+
+  constructor(x: number, y: number) {
+    this.x = x; this.y = y;
+    this.ySpeed = 0.4 + Math.random() * 0.8;
+    this.phase = Math.random() * Math.PI * 2;
+    this.alpha = 0.6 + Math.random() * 0.4;
+  }
+
+  update(wind: number): void {
+    this.phase += 0.1;
+    this.x += Math.sin(this.phase) * 0.3 + wind;
+    this.y -= this.ySpeed;
+    this.alpha -= 0.003;
+    if (this.alpha <= 0 || this.y < -16) this.dead = true;
+  }
+
+  draw(surf: Surface, ox: number, oy: number): void {
+    const sx = Math.floor(this.x - ox);
+    const sy = Math.floor(this.y - oy);
+    const a = Math.max(0, Math.min(1, this.alpha));
+    // Flicker between orange and red
+    const g = Math.sin(this.phase * 3) > 0 ? 160 : 80;
+    surf.fillRect(sx, sy, 1, 1, `rgba(255,${g},32,${a})`);
+  }
+}
+
+class Leaf implements Particle {
+  x: number;
+  y: number;
+  dead = false;
+  private ySpeed: number;
+  private phase: number;
+  private color: string;
+  private maxX: number;
+  private maxY: number;
+
+  constructor(x: number, y: number, maxX: number, maxY: number) {
+    this.x = x; this.y = y; this.maxX = maxX; this.maxY = maxY;
+    this.ySpeed = 0.4 + Math.random() * 0.6;
+    this.phase = Math.random() * Math.PI * 2;
+    this.color = LEAF_COLORS[Math.floor(Math.random() * LEAF_COLORS.length)];
+  }
+
+  update(wind: number): void {
+    this.phase += 0.05;
+    this.x += Math.sin(this.phase) * 0.8 + wind;
+    this.y += this.ySpeed;
+    if (this.x > this.maxX + 16 || this.y > this.maxY + 16) this.dead = true;
+  }
+
+  draw(surf: Surface, ox: number, oy: number): void {
+    const sx = Math.floor(this.x - ox);
+    const sy = Math.floor(this.y - oy);
+    // Tumbles between a flat and an upright leaf
+    if (Math.cos(this.phase) > 0) {
+      surf.fillRect(sx, sy, 3, 2, this.color);
+    } else {
+      surf.fillRect(sx, sy, 2, 3, this.color);
+    }
+  }
+}
+
+const LEAF_COLORS = ['rgba(200,120,40,0.9)', 'rgba(170,60,30,0.9)', 'rgba(200,170,50,0.9)', 'rgba(110,140,50,0.9)'];
+
+/** A particle that never exists, for overlay-only weather. */
+const NO_PARTICLE = (): Particle => ({ x: 0, y: 0, dead: true, update() {}, draw() {} });
+
 // ============================================================
 // Weather system
 // ============================================================
 
+/** Tunable parameters for an active weather effect. */
+export interface WeatherOptions {
+  /** Multiplier on particle count and overlay opacity. 1 is the default look. */
+  intensity: number;
+  /** Extra horizontal movement in pixels per frame; negative blows left. */
+  wind: number;
+}
+
+export const DEFAULT_WEATHER_OPTIONS: WeatherOptions = { intensity: 1, wind: 0 };
+
 interface WeatherConfig {
   abundance: number; // particles per tile²
   createParticle: (w: number, h: number) => Particle;
-  /** Full-screen overlay color (for night/sunset). */
-  overlay?: string;
+  /** Full-screen overlay [r, g, b, alpha] (for night/sunset/fog). */
+  overlay?: [number, number, number, number];
+}
+
+/**
+ * How far wind pushes a particle sideways while it crosses `distance`
+ * pixels at `speed` pixels per frame. Spawn points are shifted back by
+ * this so windy weather still covers the whole map.
+ */
+function windDrift(distance: number, speed: number, wind: number): number {
+  return (distance / speed) * wind;
 }
 
-const WEATHER_CONFIGS: Record<string, (mapW: number, mapH: number) => WeatherConfig> = {
-  rain: (mapW, mapH) => ({
+const WEATHER_CONFIGS: Record<string, (mapW: number, mapH: number, wind: number) => WeatherConfig> = {
+  rain: (mapW, mapH, wind) => ({
     abundance: 0.1,
     createParticle: () => new Raindrop(
-      Math.random() * mapW - mapH / 4, -8 - Math.random() * 8, mapW, mapH,
+      Math.random() * mapW - mapH / 4 - windDrift(mapH, 12, wind), -8 - Math.random() * 8, mapW, mapH,
     ),
   }),
-  snow: (mapW, mapH) => ({
+  snow: (mapW, mapH, wind) => ({
     abundance: 0.2,
     createParticle: () => new Snowflake(
-      Math.random() * mapW - mapH, -8 - Math.random() * 8, mapW, mapH,
+      Math.random() * mapW - mapH - windDrift(mapH, 2, wind), -8 - Math.random() * 8, mapW, mapH,
     ),
   }),
-  sand: (mapW, mapH) => ({
+  sand: (mapW, mapH, wind) => ({
     abundance: 0.075,
     createParticle: () => new SandParticle(
-      Math.random() * mapW - mapH * 2, mapH + 16 + Math.random() * 16, mapW, 0,
+      Math.random() * mapW - mapH * 2 - windDrift(mapH, 6, wind), mapH + 16 + Math.random() * 16, mapW, 0,
     ),
   }),
   light: (mapW, mapH) => ({
@@ -178,37 +314,95 @@ const WEATHER_CONFIGS: Record<string, (mapW: number, mapH: number) => WeatherCon
   }),
   night: () => ({
     abundance: 0,
-    createParticle: () => ({ x: 0, y: 0, dead: true, update() {}, draw() {} }),
-    overlay: 'rgba(20,20,60,0.35)',
+    createParticle: NO_PARTICLE,
+    overlay: [20, 20, 60, 0.35],
   }),
   sunset: () => ({
     abundance: 0,
-    createParticle: () => ({ x: 0, y: 0, dead: true, update() {}, draw() {} }),
-    overlay: 'rgba(80,40,20,0.25)',
+    createParticle: NO_PARTICLE,
+    overlay: [80, 40, 20, 0.25],
+  }),
+  darkness: () => ({
+    abundance: 0,
+    createParticle: NO_PARTICLE,
+    overlay: [4, 4, 20, 0.6],
+  }),
+  fog: (mapW, mapH) => ({
+    abundance: 0.01,
+    createParticle: () => new FogBank(
+      Math.random() * mapW - 48, Math.random() * mapH - 12, mapW,
+    ),
+    overlay: [200, 200, 210, 0.1],
+  }),
+  embers: (mapW, mapH, wind) => ({
+    abundance: 0.04,
+    createParticle: () => new Ember(
+      Math.random() * mapW - windDrift(mapH, 0.8, wind), Math.random() * (mapH + 32),
+    ),
+  }),
+  leaves: (mapW, mapH, wind) => ({
+    abundance: 0.03,
+    createParticle: () => new Leaf(
+      Math.random() * mapW - windDrift(mapH, 0.7, wind), -8 - Math.random() * 8, mapW, mapH,
+    ),
   }),
 };
 
 export class WeatherSystem {
   nid: string;
   private particles: Particle[] = [];
-  private targetCount: number;
-  private config: WeatherConfig;
+  private targetCount: number = 0;
+  private config!: WeatherConfig;
+  private options: WeatherOptions = { ...DEFAULT_WEATHER_OPTIONS };
+  private mapWidthTiles: number;
+  private mapHeightTiles: number;
   private mapPixelW: number;
   private mapPixelH: number;
 
-  constructor(nid: string, mapWidthTiles: number, mapHeightTiles: number) {
+  constructor(
+    nid: string,
+    mapWidthTiles: number,
+    mapHeightTiles: number,
+    options: Partial<WeatherOptions> = {},
+  ) {
     this.nid = nid;
+    this.mapWidthTiles = mapWidthTiles;
+    this.mapHeightTiles = mapHeightTiles;
     this.mapPixelW = mapWidthTiles * TILEWIDTH;
     this.mapPixelH = mapHeightTiles * TILEHEIGHT;
-
-    const configFn = WEATHER_CONFIGS[nid.toLowerCase()] ?? WEATHER_CONFIGS['rain'];
-    this.config = configFn(this.mapPixelW, this.mapPixelH);
-    this.targetCount = Math.floor(this.config.abundance * mapWidthTiles * mapHeightTiles);
+    this.setOptions(options);
 
     // Prefill particles so they don't gradually appear
     for (let i = 0; i < 300; i++) this.update();
   }
 
+  get intensity(): number {
+    return this.options.intensity;
+  }
+
+  get wind(): number {
+    return this.options.wind;
+  }
+
+  /**
+   * Change intensity and/or wind. Existing particles keep drifting;
+   * new ones spawn for the new settings and extras are culled.
+   */
+  setOptions(options: Partial<WeatherOptions>): void {
+    this.options = {
+      intensity: Math.max(0, options.intensity ?? this.options.intensity),
+      wind: options.wind ?? this.options.wind,
+    };
+    const configFn = WEATHER_CONFIGS[this.nid.toLowerCase()] ?? WEATHER_CONFIGS['rain'];
+    this.config = configFn(this.mapPixelW, this.mapPixelH, this.options.wind);
+    this.targetCount = Math.floor(
+      this.config.abundance * this.mapWidthTiles * this.mapHeightTiles * this.options.intensity,
+    );
+    if (this.particles.length > this.targetCount) {
+      this.particles.length = this.targetCount;
+    }
+  }
+
   update(): void {
     // Spawn particles to maintain target count
     while (this.particles.length < this.targetCount) {
@@ -217,7 +411,7 @@ export class WeatherSystem {
 
     // Update all particles
     for (const p of this.particles) {
-      p.update();
+      p.update(this.options.wind);
     }
 
     // Remove dead particles
@@ -225,9 +419,11 @@ export class WeatherSystem {
   }
 
   draw(surf: Surface, cameraX: number, cameraY: number): void {
-    // Draw overlay first (night/sunset)
+    // Draw overlay first (night/sunset/fog)
     if (this.config.overlay) {
-      surf.fillRect(0, 0, surf.width, surf.height, this.config.overlay);
+      const [r, g, b, a] = this.config.overlay;
+      const alpha = Math.min(1, a * this.options.intensity);
+      surf.fillRect(0, 0, surf.width, surf.height, `rgba(${r},${g},${b},${alpha})`);
     }
 
     // Draw particles
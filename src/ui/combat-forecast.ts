@@ -0,0 +1,143 @@
+import type { Surface } from '../engine/surface';
+import type { AoeForecastTarget, CombatForecast, ForecastSide } from '../combat/combat-forecast';
+
+const PANEL_W = 112;
+const PANEL_H = 66;
+const ROW_H = 10;
+const PAD = 4;
+
+const BG_COLOR = 'rgba(16, 16, 32, 0.85)';
+const BORDER_COLOR = 'rgba(160, 160, 200, 0.6)';
+const ATTACKER_COLOR = 'rgba(48, 88, 200, 0.9)';
+const DEFENDER_COLOR = 'rgba(200, 48, 48, 0.9)';
+const LABEL_COLOR = 'rgba(248, 216, 96, 1)';
+const ADVANTAGE_COLOR = 'rgba(80, 224, 80, 1)';
+const DISADVANTAGE_COLOR = 'rgba(240, 72, 72, 1)';
+const EFFECTIVE_COLOR = 'rgba(255, 120, 64, 1)';
+const DEAD_COLOR = 'rgba(240, 72, 72, 1)';
+const ART_COLOR = 'rgba(120, 255, 200, 1)';
+
+const FONT = '7px monospace';
+/** Rough advance of FONT, for centering labels. */
+const CHAR_W = 4;
+
+/** Effective damage blinks between white and EFFECTIVE_COLOR. */
+const FLASH_MS = 200;
+
+export const COMBAT_FORECAST_WIDTH = PANEL_W;
+
+/**
+ * Draw the two-sided combat forecast window: names and weapons on top,
+ * then HP (current -> after combat), damage with its x2 / x4 marker,
+ * hit and crit. The attacker fills the left column, the defender the
+ * right one; a side that cannot strike shows '--'. Activated combat
+ * arts get an extra row at the bottom.
+ */
+export function drawCombatForecast(surf: Surface, forecast: CombatForecast, x: number, y: number): void {
+  const { attacker, defender } = forecast;
+  const half = PANEL_W / 2;
+  const hasArt = !!(attacker.art || defender.art);
+  const height = PANEL_H + (hasArt ? ROW_H : 0);
+
+  surf.fillRect(x, y, PANEL_W, height, BG_COLOR);
+  surf.drawRect(x, y, PANEL_W, height, BORDER_COLOR);
+
+  // Name bars in team colors
+  surf.fillRect(x + 1, y + 1, half - 1, ROW_H, ATTACKER_COLOR);
+  surf.fillRect(x + half, y + 1, half - 1, ROW_H, DEFENDER_COLOR);
+  surf.drawText(clip(attacker.unit.name, 12), x + PAD, y + 2, 'white', FONT);
+  surf.drawTextRight(clip(defender.unit.name, 12), x + PANEL_W - PAD, y + 2, 'white', FONT);
+
+  // Weapons with their triangle arrows
+  const wy = y + 2 + ROW_H;
+  drawWeapon(surf, attacker, x + PAD, wy, false);
+  drawWeapon(surf, defender, x + PANEL_W - PAD, wy, true);
+
+  const rows: [string, (side: ForecastSide) => string][] = [
+    ['HP', (s) => `${s.hp}>${s.predictedHp}`],
+    ['Dmg', (s) => (s.canAttack ? `${s.damage}${s.strikes > 1 ? ` x${s.strikes}` : ''}` : '--')],
+    ['Hit', (s) => (s.canAttack ? `${s.hit}` : '--')],
+    ['Crt', (s) => (s.canAttack ? `${s.crit}` : '--')],
+  ];
+  const flashOn = Math.floor(Date.now() / FLASH_MS) % 2 === 0;
+  let ry = wy + ROW_H + 2;
+  for (const [label, text] of rows) {
+    surf.drawText(label, x + half - (label.length * CHAR_W) / 2, ry, LABEL_COLOR, FONT);
+    for (const side of [attacker, defender]) {
+      let color = 'white';
+      if (label === 'HP' && side.predictedHp <= 0) color = DEAD_COLOR;
+      if (label === 'Dmg' && side.canAttack && side.effective && flashOn) color = EFFECTIVE_COLOR;
+      if (side === attacker) {
+        surf.drawText(text(side), x + PAD, ry, color, FONT);
+      } else {
+        surf.drawTextRight(text(side), x + PANEL_W - PAD, ry, color, FONT);
+      }
+    }
+    ry += ROW_H;
+  }
+
+  if (hasArt) {
+    if (attacker.art) surf.drawText(clip(attacker.art, 12), x + PAD, ry, ART_COLOR, FONT);
+    if (defender.art) surf.drawTextRight(clip(defender.art, 12), x + PANEL_W - PAD, ry, ART_COLOR, FONT);
+  }
+}
+
+/**
+ * Draw the area-attack forecast: the attacker and weapon on top, then
+ * one row per unit caught in the area with its name, the damage and hit
+ * against it, and its HP (current -> after the attack).
+ */
+export function drawAoeForecast(
+  surf: Surface,
+  attackerName: string,
+  itemName: string,
+  targets: AoeForecastTarget[],
+  x: number,
+  y: number,
+): void {
+  const height = ROW_H * 2 + 4 + targets.length * ROW_H;
+  surf.fillRect(x, y, PANEL_W, height, BG_COLOR);
+  surf.drawRect(x, y, PANEL_W, height, BORDER_COLOR);
+
+  surf.fillRect(x + 1, y + 1, PANEL_W - 2, ROW_H, ATTACKER_COLOR);
+  surf.drawText(clip(attackerName, 12), x + PAD, y + 2, 'white', FONT);
+  surf.drawTextRight(`${targets.length} hit`, x + PANEL_W - PAD, y + 2, 'white', FONT);
+  surf.drawText(clip(itemName, 24), x + PAD, y + 2 + ROW_H, 'white', FONT);
+
+  const flashOn = Math.floor(Date.now() / FLASH_MS) % 2 === 0;
+  let ry = y + 4 + ROW_H * 2;
+  for (const t of targets) {
+    surf.drawText(clip(t.unit.name, 8), x + PAD, ry, LABEL_COLOR, FONT);
+    const dmgColor = t.effective && flashOn ? EFFECTIVE_COLOR : 'white';
+    surf.drawText(`${t.damage}/${t.hit}`, x + 40, ry, dmgColor, FONT);
+    const hpColor = t.predictedHp <= 0 ? DEAD_COLOR : 'white';
+    surf.drawTextRight(`${t.hp}>${t.predictedHp}`, x + PANEL_W - PAD, ry, hpColor, FONT);
+    ry += ROW_H;
+  }
+}
+
+/** Weapon name plus a triangle arrow; right-aligned for the defender. */
+function drawWeapon(surf: Surface, side: ForecastSide, x: number, y: number, alignRight: boolean): void {
+  const name = side.item ? clip(side.item.name, 9) : '--';
+  const arrowW = side.advantage !== 0 ? 7 : 0;
+  if (alignRight) {
+    surf.drawTextRight(name, x - arrowW, y, 'white', FONT);
+    if (arrowW) drawArrow(surf, x - 5, y + 1, side.advantage > 0);
+  } else {
+    if (arrowW) drawArrow(surf, x, y + 1, side.advantage > 0);
+    surf.drawText(name, x + arrowW, y, 'white', FONT);
+  }
+}
+
+/** 5x3 stepped triangle: green pointing up, red pointing down. */
+function drawArrow(surf: Surface, x: number, y: number, up: boolean): void {
+  const color = up ? ADVANTAGE_COLOR : DISADVANTAGE_COLOR;
+  for (let row = 0; row < 3; row++) {
+    const spread = up ? row : 2 - row;
+    surf.fillRect(x + 2 - spread, y + row * 2, spread * 2 + 1, 2, color);
+  }
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max) : text;
+}
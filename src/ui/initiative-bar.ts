@@ -0,0 +1,217 @@
+import type { UnitObject } from '../objects/unit';
+import type { ResourceManager } from '../data/resource-manager';
+import type { InitiativeTracker } from '../engine/initiative';
+
+/**
+ * Base dimensions at the "mobile" reference size (CSS pixels).
+ * Multiplied by the same screen scale as the HUD panels.
+ */
+const BASE_SLOT_SIZE = 28;
+const BASE_SLOT_GAP = 4;
+const BASE_BAR_PAD = 4;
+const BASE_BOTTOM_MARGIN = 8;
+const BASE_FONT = 11;
+
+/** Slots shown at once; the rest of the line is reached by scrolling. */
+const VISIBLE_SLOTS = 7;
+
+/** Fraction of the remaining distance a slot covers each frame. */
+const SLIDE_RATE = 0.25;
+
+const BG_COLOR = 'rgba(16, 16, 32, 0.82)';
+const BORDER_COLOR = 'rgba(160, 160, 200, 0.5)';
+const ACTIVE_COLOR = 'rgba(248, 216, 96, 1)';
+const SELECTED_COLOR = 'rgba(255, 255, 255, 1)';
+
+/** Team -> slot background, matching the minimap dot colors. */
+const TEAM_COLORS: Record<string, string> = {
+  'player': 'rgba(64, 128, 255, 0.7)',
+  'enemy': 'rgba(255, 64, 64, 0.7)',
+  'enemy2': 'rgba(255, 64, 64, 0.7)',
+  'other': 'rgba(64, 216, 64, 0.7)',
+  'ally': 'rgba(64, 216, 64, 0.7)',
+};
+const DEFAULT_TEAM_COLOR = 'rgba(128, 128, 128, 0.7)';
+
+/** Same screen scale as HUD: 1.0 at a 375px narrow axis, capped at 3.0. */
+function barScale(screenW: number, screenH: number): number {
+  const narrow = Math.min(screenW, screenH);
+  return Math.max(1.0, Math.min(3.0, narrow / 375));
+}
+
+/**
+ * InitiativeBar - Turn order strip drawn along the bottom of the screen
+ * in initiative mode.
+ *
+ * Starts at the active unit and lists upcoming units in order, each on
+ * its team color with a chibi portrait (or map sprite when the unit has
+ * no portrait). Slots slide to their new place when the order changes.
+ * InitiativeBarState sets `selectedNid` while the player scrolls the bar.
+ */
+export class InitiativeBar {
+  /** Unit highlighted by the scroll cursor, or null when not scrolling. */
+  selectedNid: string | null = null;
+
+  /** Displayed slot (fractional while sliding) per unit NID. */
+  private slotPositions: Map<string, number> = new Map();
+  /** Displayed index of the first visible slot. */
+  private scrollPosition: number = 0;
+
+  private chibiCache: Map<string, HTMLImageElement> = new Map();
+  /** Portrait NIDs already requested; failed loads are not retried. */
+  private requestedPortraits: Set<string> = new Set();
+  private resourceManager: ResourceManager | null = null;
+
+  /** Set the resource manager reference (call once after construction). */
+  setResourceManager(rm: ResourceManager): void {
+    this.resourceManager = rm;
+  }
+
+  /**
+   * Unit NIDs in display order: the active unit first, then everyone
+   * after it, wrapping around to the start of the line.
+   */
+  getDisplayOrder(initiative: InitiativeTracker): string[] {
+    const line = initiative.unitLine;
+    const start = Math.max(0, initiative.currentIdx);
+    return [...line.slice(start), ...line.slice(0, start)];
+  }
+
+  /** Forget animation state, e.g. when a new level starts. */
+  reset(): void {
+    this.slotPositions.clear();
+    this.scrollPosition = 0;
+    this.selectedNid = null;
+  }
+
+  /** Draw the bar onto the display canvas context (screen space). */
+  drawScreen(
+    ctx: CanvasRenderingContext2D,
+    screenW: number,
+    screenH: number,
+    initiative: InitiativeTracker,
+    getUnit: (nid: string) => UnitObject | null,
+  ): void {
+    const order = this.getDisplayOrder(initiative);
+    if (order.length === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const s = dpr * barScale(screenW, screenH);
+    const slot = BASE_SLOT_SIZE * s;
+    const gap = BASE_SLOT_GAP * s;
+    const pad = BASE_BAR_PAD * s;
+    const visible = Math.min(VISIBLE_SLOTS, order.length);
+
+    this.updatePositions(order, visible);
+
+    const barW = visible * slot + (visible - 1) * gap + pad * 2;
+    const barH = slot + pad * 2;
+    const barX = Math.round((screenW * dpr - barW) / 2);
+    const barY = Math.round(screenH * dpr - barH - BASE_BOTTOM_MARGIN * s);
+
+    ctx.fillStyle = BG_COLOR;
+    ctx.fillRect(barX, barY, barW, barH);
+    ctx.strokeStyle = BORDER_COLOR;
+    ctx.lineWidth = s;
+    ctx.strokeRect(barX + 0.5, barY + 0.5, barW - 1, barH - 1);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(barX + pad, barY, barW - pad * 2, barH);
+    ctx.clip();
+    ctx.imageSmoothingEnabled = false;
+
+    for (const nid of order) {
+      const pos = (this.slotPositions.get(nid) ?? 0) - this.scrollPosition;
+      if (pos < -1 || pos > visible) continue;
+      const unit = getUnit(nid);
+      if (!unit) continue;
+
+      const x = barX + pad + pos * (slot + gap);
+      const y = barY + pad;
+      ctx.fillStyle = TEAM_COLORS[unit.team] ?? DEFAULT_TEAM_COLOR;
+      ctx.fillRect(x, y, slot, slot);
+      this.drawUnitImage(ctx, unit, x, y, slot);
+
+      const isActive = nid === initiative.getCurrentUnitNid();
+      const isSelected = nid === this.selectedNid;
+      if (isActive || isSelected) {
+        ctx.strokeStyle = isSelected ? SELECTED_COLOR : ACTIVE_COLOR;
+        ctx.lineWidth = 2 * s;
+        ctx.strokeRect(x + s, y + s, slot - 2 * s, slot - 2 * s);
+      }
+    }
+    ctx.restore();
+
+    // Name tag above the selected unit
+    const selected = this.selectedNid ? getUnit(this.selectedNid) : null;
+    if (selected) {
+      const pos = (this.slotPositions.get(selected.nid) ?? 0) - this.scrollPosition;
+      const x = barX + pad + pos * (slot + gap) + slot / 2;
+      ctx.font = `bold ${BASE_FONT * s}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+      ctx.fillStyle = 'white';
+      ctx.fillText(selected.name, x, barY - 2 * s);
+      ctx.textAlign = 'left';
+    }
+  }
+
+  /** Slide every slot (and the scroll window) toward its target. */
+  private updatePositions(order: string[], visible: number): void {
+    const live = new Set(order);
+    for (const nid of [...this.slotPositions.keys()]) {
+      if (!live.has(nid)) this.slotPositions.delete(nid);
+    }
+
+    order.forEach((nid, target) => {
+      const current = this.slotPositions.get(nid);
+      // New units, and the unit that wrapped from the front to the back
+      // of the line, appear in place instead of sliding across the bar.
+      if (current === undefined || Math.abs(target - current) > visible) {
+        this.slotPositions.set(nid, target);
+        return;
+      }
+      this.slotPositions.set(nid, approach(current, target));
+    });
+
+    let scrollTarget = 0;
+    const selectedIdx = this.selectedNid ? order.indexOf(this.selectedNid) : -1;
+    if (selectedIdx >= 0) {
+      scrollTarget = Math.max(0, Math.min(selectedIdx - Math.floor(visible / 2), order.length - visible));
+    }
+    this.scrollPosition = approach(this.scrollPosition, scrollTarget);
+  }
+
+  private drawUnitImage(ctx: CanvasRenderingContext2D, unit: UnitObject, x: number, y: number, size: number): void {
+    const chibi = unit.portraitNid ? this.getChibi(unit.portraitNid) : null;
+    if (chibi) {
+      // Chibi: source rect (96, 16, 32, 32) of the portrait sheet
+      ctx.drawImage(chibi, 96, 16, 32, 32, x, y, size, size);
+      return;
+    }
+    const sprite = unit.sprite as { getCurrentFrame?: () => { canvas: OffscreenCanvas } } | null;
+    const frame = sprite?.getCurrentFrame?.();
+    if (frame) {
+      // Stand frames are 64x48 with the unit's tile at (24, 24)
+      ctx.drawImage(frame.canvas, 16, 8, 32, 32, x, y, size, size);
+    }
+  }
+
+  private getChibi(portraitNid: string): HTMLImageElement | null {
+    const cached = this.chibiCache.get(portraitNid);
+    if (cached) return cached;
+    if (this.resourceManager && !this.requestedPortraits.has(portraitNid)) {
+      this.requestedPortraits.add(portraitNid);
+      this.resourceManager.loadPortrait(portraitNid).then((img) => {
+        this.chibiCache.set(portraitNid, img);
+      }).catch(() => {});
+    }
+    return null;
+  }
+}
+
+function approach(current: number, target: number): number {
+  const next = current + (target - current) * SLIDE_RATE;
+  return Math.abs(target - next) < 0.01 ? target : next;
+}
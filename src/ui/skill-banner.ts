@@ -0,0 +1,95 @@
+import type { Surface } from '../engine/surface';
+import { viewport } from '../engine/viewport';
+
+const FONT = '8px monospace';
+const CHAR_WIDTH = 5; // approximate for 8px monospace
+
+const DURATION = 900; // ms total
+const SLIDE_MS = 120;
+const FADE_OUT_MS = 150;
+
+const HEIGHT = 13;
+const PAD = 4;
+const BG_COLOR = 'rgba(24, 24, 48, 0.9)';
+const BORDER_COLOR = 'rgba(248, 216, 96, 0.9)';
+const TEXT_COLOR = 'rgba(248, 232, 160, 1)';
+
+/**
+ * SkillBanner - Skill name that slides in from one side of the screen
+ * when a proc skill triggers during combat.
+ */
+export class SkillBanner {
+  readonly text: string;
+  /** Slides in from the left edge if true, from the right otherwise. */
+  readonly isLeft: boolean;
+  private timer: number;
+
+  constructor(text: string, isLeft: boolean) {
+    this.text = text;
+    this.isLeft = isLeft;
+    this.timer = 0;
+  }
+
+  /** Show the banner again from the start (the skill triggered again). */
+  restart(): void {
+    this.timer = Math.min(this.timer, SLIDE_MS);
+  }
+
+  /** Update timer. Returns true when done. */
+  update(deltaMs: number): boolean {
+    this.timer += deltaMs;
+    return this.timer >= DURATION;
+  }
+
+  /** Draw the banner with its top edge at `y`. */
+  draw(surf: Surface, y: number): void {
+    if (this.timer >= DURATION) return;
+
+    const width = this.text.length * CHAR_WIDTH + PAD * 2;
+    const slide = Math.min(1, this.timer / SLIDE_MS);
+    const alpha = Math.max(0, Math.min(1, (DURATION - this.timer) / FADE_OUT_MS));
+    const x = this.isLeft
+      ? Math.round(-width + slide * (width + 2))
+      : Math.round(viewport.width - slide * (width + 2));
+
+    surf.ctx.save();
+    surf.ctx.globalAlpha = alpha;
+    surf.fillRect(x, y, width, HEIGHT, BG_COLOR);
+    surf.drawRect(x, y, width, HEIGHT, BORDER_COLOR);
+    surf.drawText(this.text, x + PAD, y + 3, TEXT_COLOR, FONT);
+    surf.ctx.restore();
+  }
+}
+
+/**
+ * Start (or restart) a banner for each newly triggered skill name.
+ * Multiattack procs trigger on several strikes in a row; those keep
+ * one banner up instead of stacking copies.
+ */
+export function pushSkillBanners(banners: SkillBanner[], names: string[], isLeft: boolean): void {
+  for (const name of names) {
+    const existing = banners.find((b) => b.text === name && b.isLeft === isLeft);
+    if (existing) existing.restart();
+    else banners.push(new SkillBanner(name, isLeft));
+  }
+}
+
+/** Advance banners, dropping finished ones. Returns the ones still showing. */
+export function updateSkillBanners(banners: SkillBanner[], deltaMs: number): SkillBanner[] {
+  return banners.filter((b) => !b.update(deltaMs));
+}
+
+/** Draw banners stacked downward from `y`, each side stacking separately. */
+export function drawSkillBanners(surf: Surface, banners: SkillBanner[], y: number): void {
+  let leftY = y;
+  let rightY = y;
+  for (const banner of banners) {
+    if (banner.isLeft) {
+      banner.draw(surf, leftY);
+      leftY += HEIGHT + 2;
+    } else {
+      banner.draw(surf, rightY);
+      rightY += HEIGHT + 2;
+    }
+  }
+}
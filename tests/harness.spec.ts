@@ -851,3 +851,497 @@ test.describe('Level Progression', () => {
     }
   });
 });
+
+// ---------------------------------------------------------------------------
+// Seeded RNG Tests
+// ---------------------------------------------------------------------------
+
+async function setSeed(page: any, seed: number): Promise<void> {
+  await page.evaluate(
+    (s: number) => (window as any).__harness.setSeed(s),
+    seed,
+  );
+}
+
+/** Eirika attacks Bone on the DEBUG map and returns both units' HP afterwards. */
+async function runSeededAttack(page: any, seed: number): Promise<[number, number]> {
+  await page.goto('/?harness=true&level=DEBUG&bundle=false');
+  await waitForHarness(page);
+  await stepFrames(page, 5);
+  await setSeed(page, seed);
+  return attackBoneWithEirika(page);
+}
+
+/** Drive Eirika's attack on Bone through the menus until play returns to the map. */
+async function attackBoneWithEirika(page: any): Promise<[number, number]> {
+  const state = await getState(page);
+  const [cx, cy] = state.cursorPos;
+  await navigateCursorTo(page, 2, 6, cx, cy);
+
+  await stepFrames(page, 3, 'SELECT'); // select unit
+  await stepFrames(page, 10);
+  await stepFrames(page, 3, 'SELECT'); // confirm position
+  await stepFrames(page, 10);
+  await stepFrames(page, 3, 'SELECT'); // pick Attack
+  await stepFrames(page, 10);
+
+  let s = await getState(page);
+  if (s.currentStateName === 'weapon_choice') {
+    await stepFrames(page, 3, 'SELECT'); // pick weapon
+    await stepFrames(page, 10);
+  }
+
+  await stepFrames(page, 3, 'SELECT'); // confirm target
+
+  for (let batch = 0; batch < 200; batch++) {
+    await stepFrames(page, 20);
+    s = await getState(page);
+    if (s.currentStateName === 'free') break;
+    if (s.currentStateName !== 'combat' && s.currentStateName !== 'animation_combat' &&
+        s.currentStateName !== 'map_combat' && s.currentStateName !== 'exp' &&
+        s.currentStateName !== 'exp_gain') {
+      await stepFrames(page, 3, 'BACK');
+    }
+  }
+
+  const eirika = s.units.find((u: any) => u.nid === 'Eirika');
+  const bone = s.units.find((u: any) => u.nid === 'Bone');
+  return [eirika!.hp, bone!.hp];
+}
+
+test.describe('Seeded RNG', () => {
+  test('same seed reproduces the same combat outcome', async ({ page }) => {
+    const first = await runSeededAttack(page, 42);
+    const second = await runSeededAttack(page, 42);
+    console.log(`Seed 42: Eirika/Bone HP ${first} vs ${second}`);
+    expect(second).toEqual(first);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Save Export Tests
+// ---------------------------------------------------------------------------
+
+test.describe('Save Export', () => {
+  test('exported saves import back and other games are rejected', async ({ page }) => {
+    await page.goto('/?harness=true&level=DEBUG&bundle=false');
+    await waitForHarness(page);
+    await stepFrames(page, 5);
+
+    // The dev server serves the same module instance the game uses
+    const result = await page.evaluate(async (modulePath: string) => {
+      const save = await import(/* @vite-ignore */ modulePath);
+      const g = (window as any).__gameRef;
+      const gameNid = g.db.getConstant('game_nid', 'default');
+      const numSlots = g.db.getConstant('num_save_slots', 3);
+
+      await save.saveGame(g, 0);
+      const file = await save.exportSaves(gameNid, numSlots);
+      const text = JSON.stringify(file);
+
+      // Wipe the slot, then bring it back from the exported text
+      await save.deleteSave(gameNid, 0);
+      const cleared = (await save.loadSaveSlots(gameNid, numSlots))[0].levelNid;
+      await save.importSaves(save.parseSaveExport(text, gameNid, numSlots), numSlots);
+      const restored = (await save.loadSaveSlots(gameNid, numSlots))[0].levelNid;
+
+      let rejected = '';
+      try {
+        save.parseSaveExport(JSON.stringify({ ...file, gameNid: 'some_other_game' }), gameNid, numSlots);
+      } catch (e: any) {
+        rejected = e.message;
+      }
+      return { cleared, restored, rejected };
+    }, '/src/engine/save.ts');
+
+    expect(result.cleared).toBeNull();
+    expect(result.restored).toBe('DEBUG');
+    expect(result.rejected).toContain('different game');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Nested Event Tests
+// ---------------------------------------------------------------------------
+
+/** The EventState instance on the stack, read through the page's game ref. */
+async function getEventRun(page: any): Promise<{ eventNid: string | null; portraits: number }> {
+  return page.evaluate(() => {
+    const g = (window as any).__gameRef;
+    const eventState = g.state.stack.find((s: any) => s.name === 'event');
+    return {
+      eventNid: eventState?.run?.currentEvent?.nid ?? null,
+      portraits: eventState?.run?.portraits?.size ?? 0,
+    };
+  });
+}
+
+async function stepUntilState(page: any, name: string, maxBatches: number = 100): Promise<string> {
+  let s = await getState(page);
+  for (let batch = 0; batch < maxBatches && s.currentStateName !== name; batch++) {
+    await stepFrames(page, 10);
+    await page.waitForTimeout(20); // let portrait images load
+    s = await getState(page);
+  }
+  return s.currentStateName;
+}
+
+test.describe('Nested Events', () => {
+  test('support played from the base resumes the event that opened it', async ({ page }) => {
+    await page.goto('/?harness=true&level=DEBUG&bundle=false');
+    await waitForHarness(page);
+    await stepFrames(page, 5);
+
+    // An event that shows a portrait, opens the base, then carries on
+    await page.evaluate(async (modulePath: string) => {
+      const { GameEvent } = await import(/* @vite-ignore */ modulePath);
+      const g = (window as any).__gameRef;
+      const outer = new GameEvent({
+        nid: '_test_outer', name: 'Test Outer', trigger: 'test', level_nid: null,
+        condition: '', only_once: false, priority: 0,
+        _source: ['add_portrait;Eirika;Left;immediate', 'base', 'level_var;_test_after_base;1'],
+      }, { type: 'test' });
+      g.eventManager.eventQueue.push(outer);
+      g.state.change('event');
+    }, '/src/events/event-manager.ts');
+
+    expect(await stepUntilState(page, 'base_main')).toBe('base_main');
+    const before = await getEventRun(page);
+    expect(before.eventNid).toBe('_test_outer');
+    expect(before.portraits).toBe(1);
+
+    // Play a nested conversation from the base, as BaseSupportsState does
+    await page.evaluate(async (modulePath: string) => {
+      const { GameEvent } = await import(/* @vite-ignore */ modulePath);
+      const g = (window as any).__gameRef;
+      const support = new GameEvent({
+        nid: '_test_support', name: 'Test Support', trigger: 'on_support', level_nid: null,
+        condition: '', only_once: false, priority: 0,
+        _source: ['add_portrait;Seth;Right;immediate', 'wait;50'],
+      }, { type: 'on_support' });
+      support.nested = true;
+      g.eventManager.eventQueue.unshift(support);
+      g.state.change('event');
+    }, '/src/events/event-manager.ts');
+
+    await stepFrames(page, 5);
+    expect(await stepUntilState(page, 'base_main')).toBe('base_main');
+    const after = await getEventRun(page);
+    expect(after.eventNid).toBe('_test_outer');
+    expect(after.portraits).toBe(1);
+
+    // Close the base: the outer event picks up after its base command
+    await page.evaluate(() => (window as any).__gameRef.state.back());
+    await settle(page, 300);
+    const finished = await page.evaluate(
+      () => (window as any).__gameRef.levelVars.get('_test_after_base'),
+    );
+    expect(finished).toBe('1');
+  });
+
+  test('loading a base save resumes the event that opened the base', async ({ page }) => {
+    await page.goto('/?harness=true&level=DEBUG&bundle=false');
+    await waitForHarness(page);
+    await stepFrames(page, 5);
+
+    // Base saves look the event up by NID, so it has to be in the database
+    await page.evaluate(async (modulePath: string) => {
+      const { GameEvent } = await import(/* @vite-ignore */ modulePath);
+      const g = (window as any).__gameRef;
+      const prefab = {
+        nid: '_test_outer', name: 'Test Outer', trigger: 'test', level_nid: null,
+        condition: '', only_once: false, priority: 0,
+        _source: ['base', 'level_var;_test_after_base;1'],
+      };
+      g.db.events.set(prefab.nid, prefab);
+      g.eventManager.eventQueue.push(new GameEvent(prefab, { type: 'test' }));
+      g.state.change('event');
+    }, '/src/events/event-manager.ts');
+    expect(await stepUntilState(page, 'base_main')).toBe('base_main');
+
+    await page.evaluate(async (modulePath: string) => {
+      const { saveGame } = await import(/* @vite-ignore */ modulePath);
+      await saveGame((window as any).__gameRef, 0, 'base');
+    }, '/src/engine/save.ts');
+
+    // Load slot 1 (the first option) through the load menu
+    await page.evaluate(() => (window as any).__gameRef.state.change('load_menu'));
+    expect(await stepUntilState(page, 'load_menu')).toBe('load_menu');
+    await page.waitForTimeout(200); // let the slot list load
+    await stepFrames(page, 3, 'SELECT');
+    expect(await stepUntilState(page, 'base_main')).toBe('base_main');
+    const stack = await page.evaluate(
+      () => (window as any).__gameRef.state.stack.map((s: any) => s.name),
+    );
+    expect(stack).toEqual(['free', 'event', 'base_main']);
+
+    // Leaving the base runs the command after `base`
+    await page.evaluate(() => (window as any).__gameRef.state.back());
+    await settle(page, 300);
+    const finished = await page.evaluate(
+      () => (window as any).__gameRef.levelVars.get('_test_after_base'),
+    );
+    expect(finished).toBe('1');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Skill Proc and Status Tests
+// ---------------------------------------------------------------------------
+
+/**
+ * Register a test skill in the database and, if `unitNid` is given, give
+ * that unit a copy of it.
+ */
+async function addTestSkill(
+  page: any,
+  nid: string,
+  components: [string, any][],
+  unitNid: string | null,
+): Promise<void> {
+  await page.evaluate(async ({ modulePath, nid, components, unitNid }: any) => {
+    const { SkillObject } = await import(/* @vite-ignore */ modulePath);
+    const g = (window as any).__gameRef;
+    const prefab = { nid, name: nid, desc: '', icon_nid: '', icon_index: [0, 0], components };
+    g.db.skills.set(nid, prefab);
+    if (unitNid) g.units.get(unitNid).skills.push(new SkillObject(prefab));
+  }, { modulePath: '/src/objects/skill.ts', nid, components, unitNid });
+}
+
+/** Resolve Eirika attacking Bone with the solver (always hitting) and return the strikes. */
+async function resolveEirikaOnBone(page: any, seed: number): Promise<any[]> {
+  await setSeed(page, seed);
+  return page.evaluate(async (modulePath: string) => {
+    const { CombatPhaseSolver } = await import(/* @vite-ignore */ modulePath);
+    const g = (window as any).__gameRef;
+    const eirika = g.units.get('Eirika');
+    const bone = g.units.get('Bone');
+    const weapon = eirika.items.find((i: any) => i.isWeapon());
+    const boneWeapon = bone.items.find((i: any) => i.isWeapon()) ?? null;
+    const strikes = new CombatPhaseSolver().resolve(eirika, weapon, bone, boneWeapon, g.db, 'grandmaster', g.board);
+    return strikes.map((s: any) => ({
+      attacker: s.attacker.nid,
+      hit: s.hit,
+      damage: s.damage,
+      heal: s.heal,
+      procs: s.procs.map((p: any) => p.skill.nid),
+    }));
+  }, '/src/combat/combat-solver.ts');
+}
+
+test.describe('Skill Procs', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/?harness=true&level=DEBUG&bundle=false');
+    await waitForHarness(page);
+    await stepFrames(page, 5);
+  });
+
+  test('proc rolls repeat with the same seed', async ({ page }) => {
+    await addTestSkill(page, '_test_proc', [['proc_rate', 50], ['proc_extra_damage', 3]], 'Eirika');
+    const first = await resolveEirikaOnBone(page, 7);
+    const second = await resolveEirikaOnBone(page, 7);
+    expect(second).toEqual(first);
+
+    await addTestSkill(page, '_test_sure_proc', [['proc_rate', 100]], 'Eirika');
+    const strikes = await resolveEirikaOnBone(page, 7);
+    for (const strike of strikes.filter((s) => s.attacker === 'Eirika')) {
+      expect(strike.procs).toContain('_test_sure_proc');
+    }
+  });
+
+  test('lifesteal heals the striker and negation cancels damage', async ({ page }) => {
+    await addTestSkill(page, '_test_lifesteal', [['proc_rate', 100], ['proc_lifesteal', 1]], 'Eirika');
+    const { maxHp, boneHp } = await page.evaluate(() => {
+      const g = (window as any).__gameRef;
+      const eirika = g.units.get('Eirika');
+      eirika.currentHp = 1;
+      return { maxHp: eirika.maxHp, boneHp: g.units.get('Bone').currentHp };
+    });
+    const [first] = await resolveEirikaOnBone(page, 3);
+    expect(first.attacker).toBe('Eirika');
+    expect(first.heal).toBe(Math.min(first.damage, boneHp, maxHp - 1));
+
+    await addTestSkill(page, '_test_negate',
+      [['proc_on', 'defense'], ['proc_rate', 100], ['proc_damage_negation', 1]], 'Bone');
+    const strikes = await resolveEirikaOnBone(page, 3);
+    for (const strike of strikes.filter((s) => s.attacker === 'Eirika')) {
+      expect(strike.procs).toContain('_test_negate');
+      expect(strike.damage).toBe(0);
+      expect(strike.heal).toBe(0);
+    }
+  });
+
+  test('pierce lowers defense but never lifts damage above zero', async ({ page }) => {
+    await page.evaluate(() => {
+      const bone = (window as any).__gameRef.units.get('Bone');
+      bone.stats.DEF = 99;
+      bone.stats.RES = 99;
+      bone.stats.LCK = 99; // no crits, so only the proc rolls differ between runs
+    });
+    const eirikaDamage = (strikes: any[]) =>
+      strikes.filter((s) => s.attacker === 'Eirika').map((s) => s.damage);
+    const unpierced = eirikaDamage(await resolveEirikaOnBone(page, 11));
+
+    // Half of 99 defense still walls Eirika off; only the triangle bonus gets through
+    await addTestSkill(page, '_test_pierce', [['proc_rate', 100], ['proc_pierce', 0.5]], 'Eirika');
+    const strikes = await resolveEirikaOnBone(page, 11);
+    for (const strike of strikes.filter((s) => s.attacker === 'Eirika')) {
+      expect(strike.procs).toContain('_test_pierce');
+    }
+    expect(eirikaDamage(strikes)).toEqual(unpierced);
+  });
+
+  test('pierce adds exactly the ignored share of a low defense', async ({ page }) => {
+    // Unarmed Bone can't counter or shift the triangle; sure hits and no
+    // crits keep grandmaster scaling out of the damage
+    const { def, hit, crit } = await page.evaluate(async (modulePath: string) => {
+      const calcs = await import(/* @vite-ignore */ modulePath);
+      const g = (window as any).__gameRef;
+      const eirika = g.units.get('Eirika');
+      const bone = g.units.get('Bone');
+      eirika.stats.SKL = 99;
+      bone.items = [];
+      bone.stats.DEF = 4;
+      bone.stats.RES = 4;
+      bone.stats.LCK = 99;
+      bone.stats.HP = 99;
+      bone.currentHp = 99;
+      const weapon = eirika.items.find((i: any) => i.isWeapon());
+      return {
+        def: calcs.defense(bone, weapon, g.db, g.board),
+        hit: calcs.computeHit(eirika, weapon, bone, g.db, g.board),
+        crit: calcs.computeCrit(eirika, weapon, bone, g.db),
+      };
+    }, '/src/combat/combat-calcs.ts');
+    expect(hit).toBe(100);
+    expect(crit).toBe(0);
+
+    const unpierced = (await resolveEirikaOnBone(page, 11)).map((s) => s.damage);
+    expect(unpierced.length).toBeGreaterThan(0);
+    for (const damage of unpierced) expect(damage).toBeGreaterThan(0);
+
+    await addTestSkill(page, '_test_pierce', [['proc_rate', 100], ['proc_pierce', 0.5]], 'Eirika');
+    const pierced = (await resolveEirikaOnBone(page, 11)).map((s) => s.damage);
+    expect(pierced).toEqual(unpierced.map((damage) => damage + Math.floor(def * 0.5)));
+  });
+});
+
+/** Skills (NID and turns left) a unit holds. */
+async function getUnitSkills(page: any, unitNid: string): Promise<{ nid: string; turns: number | null }[]> {
+  return page.evaluate((nid: string) => {
+    const unit = (window as any).__gameRef.units.get(nid);
+    return unit.skills.map((s: any) => ({ nid: s.nid, turns: s.data.get('turns') ?? null }));
+  }, unitNid);
+}
+
+test.describe('Statuses', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/?harness=true&level=DEBUG&bundle=false');
+    await waitForHarness(page);
+    await stepFrames(page, 5);
+    // A two-turn poison strong enough to kill anyone it could
+    await addTestSkill(page, '_test_poison', [['upkeep_damage', 99], ['time', 2], ['negative', true]], null);
+  });
+
+  test('a landed strike gives its on-hit status to the target', async ({ page }) => {
+    await addTestSkill(page, '_test_venom', [['status_on_hit', '_test_poison']], 'Eirika');
+    // Both sides always hit and neither can be hurt, so the status lands on a live target
+    await page.evaluate(() => {
+      const g = (window as any).__gameRef;
+      g.getRngMode = () => 'grandmaster';
+      for (const nid of ['Eirika', 'Bone']) {
+        g.units.get(nid).stats.DEF = 99;
+        g.units.get(nid).stats.RES = 99;
+      }
+    });
+    await setSeed(page, 5);
+    await attackBoneWithEirika(page);
+
+    const boneSkills = await getUnitSkills(page, 'Bone');
+    expect(boneSkills.map((s) => s.nid)).toContain('_test_poison');
+  });
+
+  test('poison is never lethal and expires when its time runs out', async ({ page }) => {
+    await page.evaluate(async (modulePath: string) => {
+      const { AddSkillAction } = await import(/* @vite-ignore */ modulePath);
+      const g = (window as any).__gameRef;
+      const eirika = g.units.get('Eirika');
+      g.actionLog.doAction(new AddSkillAction(eirika, '_test_poison'));
+      eirika.currentHp = 5;
+    }, '/src/engine/action.ts');
+
+    const startPhase = async () => {
+      await page.evaluate(() => (window as any).__gameRef.state.change('phase_change'));
+      await settle(page, 600);
+    };
+
+    await startPhase();
+    let eirika = (await getState(page)).units.find((u: any) => u.nid === 'Eirika');
+    expect(eirika.hp).toBe(1);
+    expect(eirika.isDead).toBe(false);
+    expect(await getUnitSkills(page, 'Eirika')).toContainEqual({ nid: '_test_poison', turns: 1 });
+
+    await startPhase();
+    eirika = (await getState(page)).units.find((u: any) => u.nid === 'Eirika');
+    expect(eirika.hp).toBe(1);
+    expect((await getUnitSkills(page, 'Eirika')).map((s) => s.nid)).not.toContain('_test_poison');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Aura Tests
+// ---------------------------------------------------------------------------
+
+/** Queue a one-off event made of `commands` and run it to the end. */
+async function runTestEvent(page: any, nid: string, commands: string[]): Promise<void> {
+  await page.evaluate(async ({ modulePath, nid, commands }: any) => {
+    const { GameEvent } = await import(/* @vite-ignore */ modulePath);
+    const g = (window as any).__gameRef;
+    g.eventManager.eventQueue.push(new GameEvent({
+      nid, name: nid, trigger: 'test', level_nid: null,
+      condition: '', only_once: false, priority: 0, _source: commands,
+    }, { type: 'test' }));
+    g.state.change('event');
+  }, { modulePath: '/src/events/event-manager.ts', nid, commands });
+  await settle(page, 600);
+}
+
+test.describe('Auras', () => {
+  test('an aura owner moved by an event hands out its child at the destination', async ({ page }) => {
+    await page.goto('/?harness=true&level=DEBUG&bundle=false');
+    await waitForHarness(page);
+    await stepFrames(page, 5);
+    await addTestSkill(page, '_test_aura_child', [], null);
+    await addTestSkill(page, '_test_aura', [['aura', '_test_aura_child'], ['aura_range', 1], ['aura_target', 'unit']], 'Eirika');
+
+    // A unit out of the aura's reach, and a free tile next to it
+    const setup = await page.evaluate(() => {
+      const g = (window as any).__gameRef;
+      const eirika = g.units.get('Eirika');
+      const [hx, hy] = eirika.position;
+      for (const other of g.getAllUnits()) {
+        if (other === eirika || !other.position) continue;
+        const [ox, oy] = other.position;
+        if (Math.abs(ox - hx) + Math.abs(oy - hy) <= 1) continue;
+        for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+          const [nx, ny] = [ox + dx, oy + dy];
+          if (!g.board.inBounds(nx, ny) || g.board.getUnit(nx, ny)) continue;
+          if (Math.abs(nx - hx) + Math.abs(ny - hy) === 0) continue;
+          return { otherNid: other.nid, home: [hx, hy], near: [nx, ny] };
+        }
+      }
+      return null;
+    });
+    expect(setup).not.toBeNull();
+    const { otherNid, home, near } = setup!;
+    const holdsChild = async () => (await getUnitSkills(page, otherNid)).some((s) => s.nid === '_test_aura_child');
+
+    await runTestEvent(page, '_test_aura_in', [`move_unit;Eirika;${near[0]},${near[1]}`]);
+    const arrived = (await getState(page)).units.find((u: any) => u.nid === 'Eirika');
+    expect(arrived.position).toEqual(near);
+    expect(await holdsChild()).toBe(true);
+
+    await runTestEvent(page, '_test_aura_out', [`move_unit;Eirika;${home[0]},${home[1]}`]);
+    expect(await holdsChild()).toBe(false);
+  });
+});